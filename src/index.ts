@@ -1,4 +1,5 @@
 // types & classes for convenience
+export * from './parser/file.types';
 export * from './parser/satisfactory/blueprint/blueprint.types';
 export * from './parser/satisfactory/save/level.class';
 export * from './parser/satisfactory/save/satisfactory-save';
@@ -17,6 +18,7 @@ export * from './parser/satisfactory/types/property/generic/Int64Property';
 export * from './parser/satisfactory/types/property/generic/Int8Property';
 export * from './parser/satisfactory/types/property/generic/MapProperty';
 export * from './parser/satisfactory/types/property/generic/ObjectProperty';
+export * from './parser/satisfactory/types/property/generic/RawProperty';
 export * from './parser/satisfactory/types/property/generic/SetProperty';
 export * from './parser/satisfactory/types/property/generic/StrProperty';
 export * from './parser/satisfactory/types/property/generic/StructProperty';
@@ -25,8 +27,11 @@ export * from './parser/satisfactory/types/property/generic/Uint32Property';
 export * from './parser/satisfactory/types/property/generic/Uint64Property';
 export * from './parser/satisfactory/types/property/generic/Uint8Property';
 export * from './parser/satisfactory/types/property/PropertiesList';
+export * from './parser/satisfactory/types/property/PropertyTypeRegistry';
+export * from './parser/satisfactory/types/property/StructTypeRegistry';
 export * from './parser/satisfactory/types/property/special/SpecialAnyProperties';
 export * from './parser/satisfactory/types/property/special/SpecialProperties';
+export * from './parser/satisfactory/types/property/special/SpecialPropertiesRegistry';
 export * from './parser/satisfactory/types/structs/col4';
 export * from './parser/satisfactory/types/structs/DynamicStructPropertyValue';
 export * from './parser/satisfactory/types/structs/GUID';
@@ -43,17 +48,39 @@ export * from './parser/satisfactory/types/structs/vec4';
 // should better be removed in a future update to prevent shenanigans.
 export { BlueprintConfigReader, BlueprintReader } from './parser/satisfactory/blueprint/blueprint-reader';
 export { BlueprintConfigWriter, BlueprintWriter } from './parser/satisfactory/blueprint/blueprint-writer';
+export { ObjectReferenceEdge, ObjectReferenceGraph } from './parser/satisfactory/save/object-reference-graph';
+export { LevelIndexEntry, SaveIndex } from './parser/satisfactory/save/save-index';
+export { SaveObjectIndex } from './parser/satisfactory/save/save-object-index';
 export { SaveReader } from './parser/satisfactory/save/save-reader';
+export { SaveUpgradeOptions, SaveUpgradeSummary, SaveUpgrader } from './parser/satisfactory/save/save-upgrader';
+export { SaveVersionAdapter } from './parser/satisfactory/save/save-version-adapter';
 export { SaveWriter } from './parser/satisfactory/save/save-writer';
+export { SaveStreamReader } from './parser/stream/reworked/save-stream-reader.class';
+export { SaveStreamBinaryWriter } from './parser/stream/reworked/save-stream-binary-writer.class';
+export { NdjsonSaveRecord, SaveStreamFormat, SaveStreamFormatter } from './parser/stream/reworked/save-stream-formatter';
 export { SaveStreamJsonStringifier } from './parser/stream/reworked/save-stream-json-stringifier';
 export { SaveStreamWriter } from './parser/stream/reworked/save-stream-writer.class';
 
 // errors
+export * from './parser/error/parse-context';
 export * from './parser/error/parser.error';
 
+// diagnostics
+export * from './parser/diagnostics/parser.diagnostic';
+
+// workers
+export { ParallelLevelReader } from './parser/worker/parallel-level-reader';
+export { ParserWorkerTasks } from './parser/worker/parser-worker-tasks';
+export * from './parser/worker/parser-worker.types';
+export { WorkerPool } from './parser/worker/worker-pool.class';
+
 // facade
-export { Parser } from './parser/parser';
-export { ReadableStreamParser } from './parser/stream/reworked/readable-stream-parser';
+export { Parser, SaveParseOptions } from './parser/parser';
+export { ReadableStreamParser, StreamObjectFilter } from './parser/stream/reworked/readable-stream-parser';
 
 // edit
+export * from './parser/satisfactory/edit/clone-entity';
+export * from './parser/satisfactory/edit/create-buildable';
+export * from './parser/satisfactory/edit/delete-entity';
 export * from './parser/satisfactory/edit/edit-constants';
+export { InstanceName } from './parser/satisfactory/edit/instance-name';
@@ -0,0 +1,3 @@
+// node-only parts of the parser. They are not part of the main entry point, so it can be bundled for browsers.
+export { NodeDeflate } from './parser/node-deflate';
+export { NodeParserWorker } from './parser/worker/node-parser-worker';
@@ -1,3 +1,5 @@
+import { DiagnosticsReporter } from "../diagnostics/parser.diagnostic";
+import { ParseContext } from "../error/parse-context";
 import { BinaryOperable } from "./binary-operable.interface";
 
 /**
@@ -22,4 +24,7 @@ export interface BinaryReadable extends BinaryOperable {
     readString: () => string;
 
     getBufferProgress: () => number;
+
+    diagnostics: DiagnosticsReporter;
+    context: ParseContext;
 }
\ No newline at end of file
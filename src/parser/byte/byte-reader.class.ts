@@ -1,4 +1,5 @@
-import { CorruptSaveError } from '../error/parser.error';
+import { DiagnosticsReporter } from '../diagnostics/parser.diagnostic';
+import { ParseContext } from '../error/parse-context';
 import { Alignment } from "./alignment.enum";
 import { BinaryReadable } from "./binary-readable.interface";
 
@@ -13,6 +14,12 @@ export abstract class ByteReader implements BinaryReadable {
 	protected handledByte: number = 0;
 	protected maxByte: number = 0;
 
+	// where the last read that went past the end of the buffer would have ended.
+	protected failedReadEnd: number = 0;
+
+	public diagnostics: DiagnosticsReporter = new DiagnosticsReporter();
+	public context: ParseContext = new ParseContext();
+
 	constructor(fileBuffer: ArrayBuffer, alignment: Alignment) {
 		this.alignment = alignment;
 		this.reset(fileBuffer);
@@ -28,6 +35,7 @@ export abstract class ByteReader implements BinaryReadable {
 		this.maxByte = newFileBuffer.byteLength;
 		this.currentByte = 0;
 		this.handledByte = 0;
+		this.failedReadEnd = 0;
 	}
 
 	/*
@@ -38,17 +46,30 @@ export abstract class ByteReader implements BinaryReadable {
 		return;
 	}
 	public readByte(): number {
-		// TODO can i not just readByte() ??
-		return parseInt(this.bufferView.getUint8(this.currentByte++).toString());
+		return this.bufferView.getUint8(this.currentByte++);
 	}
+	/**
+	 * @returns a view on the read bytes, without copying them. Copy them if you keep them, so the buffer can be freed.
+	 */
 	public readBytes(count: number): Uint8Array {
-		return new Uint8Array(new Array(count).fill(0).map(pl => this.bufferView.getUint8(this.currentByte++)));
+		if (this.currentByte + count > this.bufferView.byteLength) {
+			this.failedReadEnd = this.currentByte + count;
+			throw new RangeError(`Cannot read ${count} bytes at position ${this.currentByte} as it exceeds the end at ${this.bufferView.byteLength}`);
+		}
+		const bytes = new Uint8Array(this.bufferView.buffer, this.currentByte, count);
+		this.currentByte += count;
+		return bytes;
 	}
 	private uint8ToHexRepresentation(byte: number): string {
 		return ('0' + byte.toString(16)).slice(-2);
 	}
 	public readHex(byteLength: number, hexSeparator: string = ''): string {
-		return Array.from(this.readBytes(byteLength)).map(byte => this.uint8ToHexRepresentation(byte)).join(hexSeparator);
+		const bytes = this.readBytes(byteLength);
+		const hex = new Array<string>(bytes.length);
+		for (let i = 0; i < bytes.length; i++) {
+			hex[i] = this.uint8ToHexRepresentation(bytes[i]);
+		}
+		return hex.join(hexSeparator);
 	}
 	public readInt8(): number {
 		let data = this.bufferView.getInt8(this.currentByte++);
@@ -111,27 +132,63 @@ export abstract class ByteReader implements BinaryReadable {
 		}
 
 		// Range error!
-		if (strLength > (this.bufferView.buffer.byteLength - this.currentByte)) {
+		const byteLength = strLength < 0 ? -strLength * 2 : strLength;
+		if (byteLength > (this.bufferView.buffer.byteLength - this.currentByte)) {
+			this.failedReadEnd = this.currentByte + byteLength;
 			let errorMessage = `Cannot read string of length ${strLength} at position ${this.currentByte} as it exceeds the end at ${this.bufferView.buffer.byteLength}`;
-			throw new Error(errorMessage);
+			throw new RangeError(errorMessage);
 		}
 
 		// it uses UTF16 if text is non-ascii, even if it would fit into UTF8.
 		if (strLength < 0) {
-			const string = new Array(-strLength - 1).fill('').map(c => String.fromCharCode(this.readUint16()));
-			this.currentByte += 2;
-			return string.join('');
+			const string = ByteReader.DecodeUTF16(this.bufferView, startBytes, -strLength - 1, this.alignment);
+			this.currentByte += byteLength;
+			return string;
 		}
 
 		//default UTF-8
-		try {
-			const string = new Array(strLength - 1).fill('').map(c => String.fromCharCode(this.readUint8()));
-			this.currentByte += 1;
-			return string.join('');
+		const string = ByteReader.DecodeANSI(new Uint8Array(this.bufferView.buffer, startBytes, strLength - 1));
+		this.currentByte += byteLength;
+		return string;
+	}
+
+	// a leading byte order mark is part of the string and must not be dropped.
+	private static readonly UTF8_DECODER = new TextDecoder('utf-8', { ignoreBOM: true });
+	private static readonly UTF16LE_DECODER = new TextDecoder('utf-16le', { ignoreBOM: true });
+	private static readonly UTF16BE_DECODER = new TextDecoder('utf-16be', { ignoreBOM: true });
+
+	/**
+	 * decodes the bytes of a string, where every byte is a character. Pure ASCII, which is nearly every string, gets decoded by a TextDecoder.
+	 * Other bytes are latin1 characters, which the TextDecoder would replace.
+	 */
+	private static DecodeANSI(bytes: Uint8Array): string {
+		const string = ByteReader.UTF8_DECODER.decode(bytes);
+		if (string.length === bytes.length && !string.includes('\uFFFD')) {
+			return string;
+		}
+
+		let latin1 = '';
+		for (let i = 0; i < bytes.length; i += 8192) {
+			latin1 += String.fromCharCode(...bytes.subarray(i, i + 8192));
+		}
+		return latin1;
+	}
+
+	/**
+	 * decodes UTF-16 code units. The TextDecoder replaces unpaired surrogates, so those strings are decoded one code unit at a time.
+	 */
+	private static DecodeUTF16(view: DataView, offset: number, charCount: number, alignment: Alignment): string {
+		const decoder = alignment === Alignment.LITTLE_ENDIAN ? ByteReader.UTF16LE_DECODER : ByteReader.UTF16BE_DECODER;
+		const string = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset, charCount * 2));
+		if (!string.includes('\uFFFD')) {
+			return string;
 		}
-		catch (error) {
-			throw new CorruptSaveError(`Cannot read UTF8 string of length ${strLength} at position ${this.currentByte}.`);
+
+		const chars = new Array<string>(charCount);
+		for (let i = 0; i < charCount; i++) {
+			chars[i] = String.fromCharCode(view.getUint16(offset + i * 2, alignment === Alignment.LITTLE_ENDIAN));
 		}
+		return chars.join('');
 	}
 
 	public getBufferPosition = (): number => this.currentByte;
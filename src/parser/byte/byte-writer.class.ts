@@ -11,6 +11,9 @@ export abstract class ByteWriter implements BinaryWritable {
 
 	protected currentByte: number;
 
+	/** whether vectors, rotators and quaternions of struct properties get written as floats, like saves before U8 have them. */
+	public singlePrecisionStructs: boolean = false;
+
 	constructor(alignment: Alignment, bufferSize: number = 500) {
 		this.alignment = alignment;
 		this.bufferArray = new ArrayBuffer(bufferSize);
@@ -39,7 +42,8 @@ export abstract class ByteWriter implements BinaryWritable {
 	}
 	public writeBytes(bytes: Uint8Array): void {
 		this.extendBufferIfNeeded(bytes.length);
-		bytes.forEach(byte => this.bufferView.setUint8(this.currentByte++, byte));
+		new Uint8Array(this.bufferArray, this.currentByte, bytes.length).set(bytes);
+		this.currentByte += bytes.length;
 	}
 	public writeInt8(value: number): void {
 		this.extendBufferIfNeeded(1);
@@ -98,21 +102,26 @@ export abstract class ByteWriter implements BinaryWritable {
 		// if it's safe to use ASCII, use UTF8.
 		if (ByteWriter.IsASCIICompatible(value)) {
 			this.writeInt32(value.length + 1);
-			for (let i = 0; i < value.length; i++) {
-				this.writeByte(value.charCodeAt(i));
-			}
+			this.extendBufferIfNeeded(value.length + 1);
+			ByteWriter.UTF8_ENCODER.encodeInto(value, new Uint8Array(this.bufferArray, this.currentByte, value.length));
+			this.currentByte += value.length;
 			this.writeUint8(0);
 		}
-		// write UTF16
+		// write UTF16. There is no TextEncoder for UTF16, but the space is reserved at once.
 		else {
 			this.writeInt32(-value.length - 1);
+			this.extendBufferIfNeeded((value.length + 1) * 2);
+			const littleEndian = this.alignment === Alignment.LITTLE_ENDIAN;
 			for (let i = 0; i < value.length; i++) {
-				this.writeUint16(value.charCodeAt(i));
+				this.bufferView.setUint16(this.currentByte, value.charCodeAt(i), littleEndian);
+				this.currentByte += 2;
 			}
 			this.writeUint16(0);
 		}
 	}
 
+	private static readonly UTF8_ENCODER = new TextEncoder();
+
 	public static IsASCIICompatible = (value: string): boolean => /^[\x00-\x7F]*$/.test(value);
 
 	public getBufferPosition = (): number => this.currentByte;
@@ -133,12 +142,16 @@ export abstract class ByteWriter implements BinaryWritable {
 
 	/**
 	 * automatically extends the current buffer if the given space exceeds the available rest capacity of the current buffer.
+	 * The buffer grows geometrically, so writing n bytes copies the buffer only about log(n) times.
 	 * @param countNeededBytes the needed space
-	 * @param factor how big the appended buffer should be in comparison to the current one. Values >= 1 make sense.
+	 * @param factor how big the new buffer should be in comparison to the current one. Values > 1 make sense.
 	 */
-	protected extendBufferIfNeeded(countNeededBytes: number, factor: number = 1.5): void {
-		if (this.currentByte + countNeededBytes > this.bufferView.byteLength) {
-			this.bufferArray = ByteWriter.AppendBuffer(this.bufferArray, new ArrayBuffer(factor * this.bufferArray.byteLength));
+	protected extendBufferIfNeeded(countNeededBytes: number, factor: number = 2): void {
+		const neededLength = this.currentByte + countNeededBytes;
+		if (neededLength > this.bufferArray.byteLength) {
+			const extended = new Uint8Array(Math.max(neededLength, Math.ceil(factor * this.bufferArray.byteLength)));
+			extended.set(new Uint8Array(this.bufferArray));
+			this.bufferArray = extended.buffer;
 			this.bufferView = new DataView(this.bufferArray);
 		}
 	}
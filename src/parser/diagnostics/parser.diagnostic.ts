@@ -0,0 +1,77 @@
+import { ParseContext } from '../error/parse-context';
+
+/**
+ * @UNEXPECTED_VALUE a value was read that usually has another value. Meaning unclear.
+ * @LEVEL_SIZE_MISMATCH a section of a level had a different size than indicated.
+ * @RAW_PROPERTY a property could not be parsed and is kept as raw bytes.
+ * @OBJECT_SKIPPED an object could not be parsed in tolerant mode and is kept as raw bytes.
+ * @UPGRADE_SKIPPED a part of an object could not be upgraded to the 1.0 layout, like the items of a belt without valid spline data.
+ */
+export type DiagnosticCode = 'UNEXPECTED_VALUE' | 'LEVEL_SIZE_MISMATCH' | 'RAW_PROPERTY' | 'OBJECT_SKIPPED' | 'UPGRADE_SKIPPED';
+
+/**
+ * A warning that came up during parsing. It does not abort parsing.
+ * @offset the position in the decompressed body where it came up. -1 if it came up after parsing, like when upgrading a save.
+ */
+export type ParserDiagnostic = {
+    code: DiagnosticCode;
+    message: string;
+    offset: number;
+    levelName?: string;
+    instanceName?: string;
+    propertyName?: string;
+};
+
+export type DiagnosticsSummary = {
+    total: number;
+    countByCode: Partial<Record<DiagnosticCode, number>>;
+};
+
+/**
+ * Collects the diagnostics of a reader and passes them on to a sink. By default, diagnostics are printed as warnings to the console.
+ * The level, object and property that are currently read are taken from the parse context.
+ */
+export class DiagnosticsReporter {
+
+    private summary: DiagnosticsSummary = { total: 0, countByCode: {} };
+
+    constructor(public onDiagnostic: (diagnostic: ParserDiagnostic) => void = DiagnosticsReporter.ConsoleSink) { }
+
+    public static ConsoleSink = (diagnostic: ParserDiagnostic): void => {
+        console.warn(`[${diagnostic.code}] ${diagnostic.message}`);
+    };
+
+    public report(code: DiagnosticCode, message: string, offset: number, context?: ParseContext): void {
+        const diagnostic: ParserDiagnostic = { code, message, offset };
+        const levelName = context?.find('level');
+        if (levelName !== undefined) {
+            diagnostic.levelName = levelName;
+        }
+        const instanceName = context?.find('object');
+        if (instanceName !== undefined) {
+            diagnostic.instanceName = instanceName;
+        }
+        const propertyName = context?.find('property');
+        if (propertyName !== undefined) {
+            diagnostic.propertyName = propertyName;
+        }
+
+        this.add(diagnostic);
+    }
+
+    /**
+     * passes on a diagnostic that was already created, for example by a reader in a worker.
+     */
+    public add(diagnostic: ParserDiagnostic): void {
+        this.summary.total++;
+        this.summary.countByCode[diagnostic.code] = (this.summary.countByCode[diagnostic.code] ?? 0) + 1;
+        this.onDiagnostic(diagnostic);
+    }
+
+    /**
+     * @returns the summary of all reported diagnostics, or undefined if there were none.
+     */
+    public getSummary(): DiagnosticsSummary | undefined {
+        return this.summary.total > 0 ? this.summary : undefined;
+    }
+}
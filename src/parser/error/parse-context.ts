@@ -0,0 +1,54 @@
+export type ParseContextKind = 'level' | 'object' | 'property' | 'index' | 'struct';
+
+export type ParseContextEntry = {
+    kind: ParseContextKind;
+    name: string;
+};
+
+/**
+ * Tracks what the reader is currently reading, from the level down to single struct values.
+ * Entries are intentionally not popped when an error is thrown, so the stack still describes where it was thrown.
+ */
+export class ParseContext {
+
+    private entries: ParseContextEntry[] = [];
+
+    public push(kind: ParseContextKind, name: string | number): void {
+        this.entries.push({ kind, name: String(name) });
+    }
+
+    public pop(): void {
+        this.entries.pop();
+    }
+
+    public getDepth(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * drops all entries above the given depth. Used to recover after an error.
+     */
+    public truncate(depth: number): void {
+        this.entries.length = Math.min(depth, this.entries.length);
+    }
+
+    public getEntries(): ParseContextEntry[] {
+        return this.entries.map(entry => ({ ...entry }));
+    }
+
+    /**
+     * @returns the name of the innermost entry of the given kind.
+     */
+    public find(kind: ParseContextKind): string | undefined {
+        for (let i = this.entries.length - 1; i >= 0; i--) {
+            if (this.entries[i].kind === kind) {
+                return this.entries[i].name;
+            }
+        }
+        return undefined;
+    }
+
+    public toString(): string {
+        return this.entries.map(entry => `${entry.kind} ${entry.name}`).join(' > ');
+    }
+}
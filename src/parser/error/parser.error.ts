@@ -1,10 +1,44 @@
 
 
+import { ParseContext, ParseContextEntry } from './parse-context';
+
+/**
+ * @context where the error was thrown, from the level down to the struct. Only set if the error was thrown while reading.
+ * @offset the position in the decompressed body where the error was thrown.
+ * @cause the original error, if it was not a ParserError.
+ */
 export class ParserError extends Error {
+
+    public context?: ParseContextEntry[];
+    public offset?: number;
+    public cause?: unknown;
+
     constructor(name: string, message: string) {
         super(message);
         this.name = name;
     }
+
+    /**
+     * Attaches the context of the reader to an error. Errors that are no ParserError get wrapped into one.
+     * Errors that have a context already are returned as they are.
+     */
+    public static WithContext(error: unknown, context: ParseContext, offset: number): ParserError {
+        let parserError: ParserError;
+        if (error instanceof ParserError) {
+            if (error.context !== undefined) {
+                return error;
+            }
+            parserError = error;
+        } else {
+            parserError = new ParserError('ParserError', error instanceof Error ? error.message : String(error));
+            parserError.cause = error;
+        }
+
+        parserError.context = context.getEntries();
+        parserError.offset = offset;
+        parserError.message += ` [at offset ${offset}${context.getDepth() > 0 ? `, ${context.toString()}` : ''}]`;
+        return parserError;
+    }
 }
 
 export class UnsupportedVersionError extends ParserError {
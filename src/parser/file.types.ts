@@ -1,3 +1,5 @@
+import { ParserError } from './error/parser.error';
+
 
 export enum CompressionAlgorithmCode {
     ZLIB = 3,
@@ -10,6 +12,52 @@ export type ChunkCompressionInfo = {
     maxUncompressedChunkContentSize: number;
 }
 
+export namespace ChunkCompressionInfo {
+
+    export const GetChunkHeaderSize = (version: ChunkHeaderVersion): number => version === 'v1' ? 48 : 49;
+
+    /**
+     * @returns the compression info of chunks that are written with the given options.
+     */
+    export const ApplyWriteOptions = (compressionInfo: ChunkCompressionInfo, options: Partial<ChunkWriteOptions>): ChunkCompressionInfo => {
+        const maxUncompressedChunkContentSize = options.maxUncompressedChunkContentSize ?? compressionInfo.maxUncompressedChunkContentSize;
+        if (maxUncompressedChunkContentSize <= 0) {
+            throw new ParserError('ParserError', `The chunk size has to be positive, but is ${maxUncompressedChunkContentSize}.`);
+        }
+        return {
+            ...compressionInfo,
+            chunkHeaderSize: options.chunkHeaderVersion !== undefined ? GetChunkHeaderSize(options.chunkHeaderVersion) : compressionInfo.chunkHeaderSize,
+            maxUncompressedChunkContentSize
+        };
+    }
+}
+
+/**
+ * v1 chunk headers are 48 bytes long and were used before U8. v2 chunk headers came with U8 and have an additional byte for the compression algorithm, so they are 49 bytes long.
+ */
+export type ChunkHeaderVersion = 'v1' | 'v2';
+
+export type CompressionLevel = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+/**
+ * Controls how the body of a file gets compressed into chunks when it is written. Options that are not given are taken from the compression info.
+ * @compressionLevel the deflate level, from 0 (no compression) to 9 (best compression). By default 6.
+ * @maxUncompressedChunkContentSize how many bytes of the body get compressed into one chunk.
+ * @chunkHeaderVersion the version of the chunk headers.
+ * @deflate compresses the chunks instead of pako, like `NodeDeflate` with node's zlib.
+ */
+export type ChunkWriteOptions = {
+    compressionLevel: CompressionLevel;
+    maxUncompressedChunkContentSize: number;
+    chunkHeaderVersion: ChunkHeaderVersion;
+    deflate: ChunkDeflate;
+};
+
+/**
+ * compresses the content of a chunk with zlib. The level is undefined if the library should use its default level.
+ */
+export type ChunkDeflate = (content: Uint8Array, level: CompressionLevel | undefined) => Uint8Array;
+
 export type ChunkSummary = {
     uncompressedSize: number,
     compressedSize: number
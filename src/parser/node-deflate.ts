@@ -0,0 +1,7 @@
+import { deflateSync } from 'zlib';
+import { ChunkDeflate } from './file.types';
+
+/**
+ * compresses chunks with node's zlib, which is faster than pako. Only available in node, so it is exported by the node entry point.
+ */
+export const NodeDeflate: ChunkDeflate = (content, level) => deflateSync(content, level !== undefined ? { level } : {});
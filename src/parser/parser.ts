@@ -1,12 +1,29 @@
-import { UnsupportedVersionError } from './error/parser.error';
-import { ChunkSummary } from "./file.types";
+import { DiagnosticsReporter, ParserDiagnostic } from './diagnostics/parser.diagnostic';
+import { ParserError, TimeoutError } from './error/parser.error';
+import { ChunkCompressionInfo, ChunkSummary, ChunkWriteOptions } from "./file.types";
 import { BlueprintConfigReader, BlueprintReader } from "./satisfactory/blueprint/blueprint-reader";
 import { BlueprintConfigWriter, BlueprintWriter } from "./satisfactory/blueprint/blueprint-writer";
 import { Blueprint } from "./satisfactory/blueprint/blueprint.types";
 import { SatisfactorySave } from "./satisfactory/save/satisfactory-save";
+import { SaveIndex } from './satisfactory/save/save-index';
 import { SaveReader } from './satisfactory/save/save-reader';
+import { SaveVersionAdapter } from './satisfactory/save/save-version-adapter';
 import { SaveWriter } from "./satisfactory/save/save-writer";
+import { SatisfactorySaveHeader, SaveSummary } from './satisfactory/save/save.types';
+import { ParallelLevelReader } from './worker/parallel-level-reader';
+import { ParserWorkerTasks } from './worker/parser-worker-tasks';
+import { ParserWorkerFactory } from './worker/parser-worker.types';
+import { WorkerPool } from './worker/worker-pool.class';
 
+/**
+ * The options of parsing a save. See {@link Parser.ParseSave}.
+ */
+export type SaveParseOptions = {
+	onDecompressedSaveBody: (buffer: ArrayBuffer) => void,
+	onProgressCallback: (progress: number, msg?: string) => void,
+	tolerant: boolean,
+	onDiagnostic: (diagnostic: ParserDiagnostic) => void
+};
 
 /** @public */
 export class Parser {
@@ -16,34 +33,165 @@ export class Parser {
 	 * @param name the save name. It won't be serialized, so it does not matter how you name it.
 	 * @param bytes the actual binary buffer
 	 * @param options provides callbacks. Either on the decompressed save body or on reported progress as a number [0,1] with an occasional message.
+	 * tolerant skips objects that fail to parse instead of aborting. Their raw bytes are kept and they are listed in `skippedObjects` of the save.
+	 * onDiagnostic receives warnings that came up during parsing. If not given, they are printed to the console. A summary of them is attached to the save.
 	 * @returns 
 	 */
 	public static ParseSave(
 		name: string,
 		bytes: Uint8Array,
-		options?: Partial<{
-			onDecompressedSaveBody: (buffer: ArrayBuffer) => void,
-			onProgressCallback: (progress: number, msg?: string) => void
-		}>
+		options?: Partial<SaveParseOptions>
 	): SatisfactorySave {
 
+		const { reader, save } = Parser.ReadSaveUntilLevels(name, bytes, options);
+
+		try {
+			// parse levels
+			save.levels = reader.readLevels();
+		} catch (error) {
+			throw ParserError.WithContext(error, reader.context, reader.getBufferPosition());
+		}
+
+		return Parser.FinishSave(reader, save);
+	}
+
+	/**
+	 * Parses a given binary buffer as {@link SatisfactorySave}, like {@link ParseSave}. But it yields to the event loop between batches of objects, so it does not block it for the whole parse.
+	 * @param name the save name. It won't be serialized, so it does not matter how you name it.
+	 * @param bytes the actual binary buffer
+	 * @param options the same options as for {@link ParseSave}.
+	 * signal aborts the parsing. The returned promise is then rejected with the reason of the signal.
+	 * timeout is the time in milliseconds, after which the parsing is aborted with a {@link TimeoutError}.
+	 * @returns 
+	 */
+	public static async ParseSaveAsync(
+		name: string,
+		bytes: Uint8Array,
+		options?: Partial<SaveParseOptions & {
+			signal: AbortSignal,
+			timeout: number
+		}>
+	): Promise<SatisfactorySave> {
+
+		const deadline = options?.timeout !== undefined ? Date.now() + options.timeout : undefined;
+		const yieldAndCheck = async () => {
+			await new Promise<void>(resolve => setTimeout(resolve, 0));
+			options?.signal?.throwIfAborted();
+			if (deadline !== undefined && Date.now() > deadline) {
+				throw new TimeoutError(`Parsing the save took longer than ${options!.timeout}ms.`);
+			}
+		};
+
+		// inflate the save body, yielding after every chunk.
+		await yieldAndCheck();
+		const stepsUntilLevels = Parser.ReadSaveUntilLevelsInSteps(name, bytes, options);
+		let stepUntilLevels = stepsUntilLevels.next();
+		while (!stepUntilLevels.done) {
+			await yieldAndCheck();
+			stepUntilLevels = stepsUntilLevels.next();
+		}
+		const { reader, save } = stepUntilLevels.value;
+
+		try {
+			// parse levels, yielding after every batch of objects.
+			const steps = reader.readLevelsInBatches();
+			let step = steps.next();
+			while (!step.done) {
+				await yieldAndCheck();
+				step = steps.next();
+			}
+			save.levels = step.value;
+		} catch (error) {
+			if (options?.signal?.aborted) {
+				throw options.signal.reason;
+			}
+			throw ParserError.WithContext(error, reader.context, reader.getBufferPosition());
+		}
+
+		return Parser.FinishSave(reader, save);
+	}
+
+	/**
+	 * Parses a given binary buffer as {@link SatisfactorySave}, like {@link ParseSave}. But the object contents are parsed in parallel by a pool of workers.
+	 * Since all objects are parsed in a worker, they are plain objects, like objects parsed from JSON.
+	 * Workers do not share the registries of the main thread. So plugins, like handlers in the `StructTypeRegistry`, have to be registered in every worker as well, or parsing fails.
+	 * @param name the save name. It won't be serialized, so it does not matter how you name it.
+	 * @param bytes the actual binary buffer
+	 * @param options the same options as for {@link ParseSave}.
+	 * workerCount is the maximum count of workers. By default, one less than there are cpu cores.
+	 * createWorker creates a worker, for example a web worker in browsers. By default, node worker threads are created. Outside of node, createWorker is required.
+	 * workerSetupModules are required by the default node worker threads before they handle tasks, to register plugins there. Pass absolute paths or package names.
+	 * @returns 
+	 */
+	public static async ParseSaveParallel(
+		name: string,
+		bytes: Uint8Array,
+		options?: Partial<SaveParseOptions & {
+			workerCount: number,
+			createWorker: ParserWorkerFactory,
+			workerSetupModules: string[]
+		}>
+	): Promise<SatisfactorySave> {
+
+		const { reader, save } = Parser.ReadSaveUntilLevels(name, bytes, options);
+
+		const pool = await Parser.CreateWorkerPool(options);
+		try {
+			// parse levels, while workers parse the object contents.
+			save.levels = await ParallelLevelReader.ReadLevels(reader, pool);
+		} catch (error) {
+			throw ParserError.WithContext(error, reader.context, reader.getBufferPosition());
+		} finally {
+			await pool.terminate();
+		}
+
+		return Parser.FinishSave(reader, save);
+	}
+
+	/**
+	 * creates the pool of workers for the parallel methods.
+	 * The node worker threads are only imported if they are needed, so the parser does not depend on node modules otherwise.
+	 */
+	private static async CreateWorkerPool(options?: Partial<{ workerCount: number, createWorker: ParserWorkerFactory, workerSetupModules: string[] }>): Promise<WorkerPool> {
+		if (options?.createWorker !== undefined) {
+			// browsers tell the count of cpu cores in the navigator.
+			const cpuCount = (globalThis as { navigator?: { hardwareConcurrency?: number } }).navigator?.hardwareConcurrency ?? 2;
+			return new WorkerPool(options.createWorker, options.workerCount ?? Math.max(1, cpuCount - 1));
+		}
+		if (typeof process === 'undefined' || process.versions?.node === undefined) {
+			throw new ParserError('ParserError', 'Worker threads are only created by default in node. Pass createWorker to run the parser in parallel elsewhere.');
+		}
+
+		const { NodeParserWorker } = await import('./worker/node-parser-worker.js');
+		return new WorkerPool(() => NodeParserWorker.Create(NodeParserWorker.DEFAULT_ENTRY_FILE, options?.workerSetupModules), options?.workerCount ?? NodeParserWorker.GetDefaultWorkerCount());
+	}
+
+	/**
+	 * reads the header, inflates the save body and reads everything before the levels.
+	 */
+	private static ReadSaveUntilLevels(name: string, bytes: Uint8Array, options?: Partial<SaveParseOptions>): { reader: SaveReader, save: SatisfactorySave } {
+		const steps = Parser.ReadSaveUntilLevelsInSteps(name, bytes, options);
+		let step = steps.next();
+		while (!step.done) {
+			step = steps.next();
+		}
+		return step.value;
+	}
+
+	/**
+	 * reads everything before the levels like {@link ReadSaveUntilLevels}, but pauses after every inflated chunk.
+	 */
+	private static *ReadSaveUntilLevelsInSteps(name: string, bytes: Uint8Array, options?: Partial<SaveParseOptions>): Generator<void, { reader: SaveReader, save: SatisfactorySave }, void> {
+
 		const reader = new SaveReader(bytes.buffer, options?.onProgressCallback);
+		reader.tolerant = options?.tolerant ?? false;
+		reader.diagnostics = new DiagnosticsReporter(options?.onDiagnostic);
 
 		const header = reader.readHeader();
 		const save = new SatisfactorySave(name, header);
 
-		// guard save version
-		const roughSaveVersion = SaveReader.GetRoughSaveVersion(header.saveVersion, header.saveHeaderType);
-		if (roughSaveVersion === '<U6') {
-			throw new UnsupportedVersionError('Game Version < U6 is not supported.');
-		} else if (roughSaveVersion === 'U6/U7') {
-			throw new UnsupportedVersionError('Game Version U6/U7 is not supported in this package version. Consider downgrading to the latest package version supporting it, which is 0.0.34');
-		} else if (roughSaveVersion === 'U8') {
-			throw new UnsupportedVersionError('Game Version U8 is not supported in this package version. Consider downgrading to the latest package version supporting it, which is 0.3.7');
-		}
-
 		// inflate chunks
-		const inflateResult = reader.inflateChunks();
+		yield* reader.inflateChunksInSteps();
 		save.compressionInfo = reader.compressionInfo;
 
 		// call callback on decompressed save body
@@ -51,24 +199,122 @@ export class Parser {
 			options.onDecompressedSaveBody(reader.getBuffer());
 		}
 
-		// save body validation hash
-		save.gridHash = reader.readSaveBodyHash();
+		try {
+			// save body validation hash, since 1.0
+			if (reader.versionAdapter.hasSaveBodyHash) {
+				save.gridHash = reader.readSaveBodyHash();
+			}
 
-		// parse grids
-		save.grids = reader.readGrids();
+			// parse grids, since 1.0
+			if (reader.versionAdapter.hasGrids) {
+				save.grids = reader.readGrids();
+			}
+		} catch (error) {
+			throw ParserError.WithContext(error, reader.context, reader.getBufferPosition());
+		}
+
+		return { reader, save };
+	}
+
+	/**
+	 * attaches the skipped objects and the diagnostics of the reader to the save.
+	 */
+	private static FinishSave(reader: SaveReader, save: SatisfactorySave): SatisfactorySave {
+		if (reader.skippedObjects.length > 0) {
+			save.skippedObjects = reader.skippedObjects;
+		}
 
-		// parse levels
-		save.levels = reader.readLevels();
+		const diagnosticsSummary = reader.diagnostics.getSummary();
+		if (diagnosticsSummary !== undefined) {
+			save.diagnostics = diagnosticsSummary;
+		}
 
 		return save;
 	}
 
+	/**
+	 * Reads only the header of a save, without decompressing the save body.
+	 * @param bytes the actual binary buffer
+	 * @returns the header, with session name, play time, save date, mods and more.
+	 */
+	public static ReadSaveHeader(bytes: Uint8Array): SatisfactorySaveHeader {
+		const reader = new SaveReader(bytes.buffer);
+		return reader.readHeader();
+	}
+
+	/**
+	 * Reads the header of a save and counts the levels and objects, by skipping over them using their binary sizes. No objects get parsed.
+	 * @param bytes the actual binary buffer
+	 * @param options onDiagnostic receives warnings that came up during parsing. If not given, they are printed to the console.
+	 */
+	public static ReadSaveSummary(
+		bytes: Uint8Array,
+		options?: Partial<{
+			onDiagnostic: (diagnostic: ParserDiagnostic) => void
+		}>
+	): SaveSummary {
+		const index = Parser.ParseSaveIndex('', bytes, options);
+		return {
+			header: index.header,
+			levelCount: index.levels.length,
+			objectCount: index.levels.reduce((count, level) => count + level.objectCount, 0),
+			levels: index.levels.map(level => ({ name: level.name, objectCount: level.objectCount }))
+		};
+	}
+
+	/**
+	 * Parses only the header, grids and level boundaries of a save into a {@link SaveIndex}. Levels and objects can be parsed from it on demand.
+	 * @param name the save name. It won't be serialized, so it does not matter how you name it.
+	 * @param bytes the actual binary buffer
+	 * @param options provides callbacks. Either on the decompressed save body or on reported progress as a number [0,1] with an occasional message.
+	 * onDiagnostic receives warnings that came up during parsing. If not given, they are printed to the console.
+	 * @returns the index, which keeps the decompressed save body.
+	 */
+	public static ParseSaveIndex(
+		name: string,
+		bytes: Uint8Array,
+		options?: Partial<{
+			onDecompressedSaveBody: (buffer: ArrayBuffer) => void,
+			onProgressCallback: (progress: number, msg?: string) => void,
+			onDiagnostic: (diagnostic: ParserDiagnostic) => void
+		}>
+	): SaveIndex {
+
+		const reader = new SaveReader(bytes.buffer, options?.onProgressCallback);
+		reader.diagnostics = new DiagnosticsReporter(options?.onDiagnostic);
+
+		const header = reader.readHeader();
+		const index = new SaveIndex(name, header, reader);
+
+		reader.inflateChunks();
+		index.compressionInfo = reader.compressionInfo;
+
+		if (options?.onDecompressedSaveBody !== undefined) {
+			options.onDecompressedSaveBody(reader.getBuffer());
+		}
+
+		try {
+			if (reader.versionAdapter.hasSaveBodyHash) {
+				index.gridHash = reader.readSaveBodyHash();
+			}
+			if (reader.versionAdapter.hasGrids) {
+				index.grids = reader.readGrids();
+			}
+			index.levels = SaveIndex.ReadLevelIndex(reader, header.mapName);
+		} catch (error) {
+			throw ParserError.WithContext(error, reader.context, reader.getBufferPosition());
+		}
+
+		return index;
+	}
+
 	/**
 	 * serializes a {@link SatisfactorySave} into binary and reports back on individual callbacks.
 	 * @param save the {@link SatisfactorySave} to serialize into binary.
 	 * @param options provides callbacks. onBinaryBeforeCompressing gets called on the binary save body before it is compressed.
 	 * onHeader gets called on the binary save header, which is always uncompressed.
 	 * onChunk gets called when a chunk of the compressed save body was generated. Often, files' save bodies consist of multiple chunks.
+	 * The {@link ChunkWriteOptions} control the compression, like the compression level, the chunk size and the chunk header version. By default, they are taken from the compression info of the save.
 	 * @returns a summary of the generated chunks.
 	 */
 	public static WriteSave(save: SatisfactorySave,
@@ -76,21 +322,75 @@ export class Parser {
 		onChunk: (chunk: Uint8Array) => void,
 		options?: Partial<{
 			onBinaryBeforeCompressing: (buffer: ArrayBuffer) => void,
-		}>
+		} & ChunkWriteOptions>
 	): ChunkSummary[] {
 
+		const { writer, posAfterHeader, adapter } = Parser.SerializeSave(save);
+		const chunkSummary = writer.generateChunks(save.compressionInfo!, posAfterHeader, options?.onBinaryBeforeCompressing ?? (() => { }), onHeader, onChunk, adapter.bodySizeOverhead, options);
+		return chunkSummary;
+	}
+
+	/**
+	 * serializes a {@link SatisfactorySave} into binary like {@link WriteSave}. But the chunks are compressed in parallel by a pool of workers. They are still emitted in order.
+	 * @param save the {@link SatisfactorySave} to serialize into binary.
+	 * @param options the same options as for {@link WriteSave}, except for deflate. Node worker threads compress with node's zlib, custom workers with the deflate they pass to {@link ParserWorkerTasks.Handle}.
+	 * workerCount is the maximum count of workers. By default, one less than there are cpu cores.
+	 * createWorker creates a worker, for example a web worker in browsers. By default, node worker threads are created. Outside of node, createWorker is required.
+	 * @returns a summary of the generated chunks.
+	 */
+	public static async WriteSaveAsync(save: SatisfactorySave,
+		onHeader: (header: Uint8Array) => void,
+		onChunk: (chunk: Uint8Array) => void,
+		options?: Partial<{
+			onBinaryBeforeCompressing: (buffer: ArrayBuffer) => void,
+			workerCount: number,
+			createWorker: ParserWorkerFactory
+		} & Omit<ChunkWriteOptions, 'deflate'>>
+	): Promise<ChunkSummary[]> {
+
+		const { writer, posAfterHeader, adapter } = Parser.SerializeSave(save);
+
+		const pool = await Parser.CreateWorkerPool(options);
+		const compressChunk = async (uncompressedChunk: ArrayBuffer, compressionInfo: ChunkCompressionInfo) => {
+			const result = await pool.run({
+				kind: 'compress-chunk',
+				buffer: uncompressedChunk,
+				compressionInfo,
+				alignment: writer.alignment,
+				deflateOptions: { compressionLevel: options?.compressionLevel }
+			}, [uncompressedChunk]);
+			return ParserWorkerTasks.ThrowIfError(result, 'compress-chunk').chunk;
+		};
+
+		try {
+			// every worker can compress a chunk, while the next one waits already.
+			return await writer.generateChunksAsync(save.compressionInfo!, posAfterHeader, options?.onBinaryBeforeCompressing ?? (() => { }), onHeader, onChunk, compressChunk, 2 * pool.size, adapter.bodySizeOverhead, options);
+		} finally {
+			await pool.terminate();
+		}
+	}
+
+	/**
+	 * serializes the header and the uncompressed save body.
+	 */
+	private static SerializeSave(save: SatisfactorySave): { writer: SaveWriter, posAfterHeader: number, adapter: SaveVersionAdapter } {
 		const writer = new SaveWriter();
+		const adapter = SaveVersionAdapter.Get(SaveReader.GetRoughSaveVersion(save.header.saveVersion, save.header.saveHeaderType));
+		writer.singlePrecisionStructs = adapter.singlePrecisionStructs;
 
 		SaveWriter.WriteHeader(writer, save.header);
 		const posAfterHeader = writer.getBufferPosition();
 
-		SaveWriter.WriteSaveBodyHash(writer, save.gridHash);
-		SaveWriter.WriteGrids(writer, save.grids);
-		SaveWriter.WriteLevels(writer, save, save.header.buildVersion);
+		if (adapter.hasSaveBodyHash) {
+			SaveWriter.WriteSaveBodyHash(writer, save.gridHash);
+		}
+		if (adapter.hasGrids) {
+			SaveWriter.WriteGrids(writer, save.grids);
+		}
+		SaveWriter.WriteLevels(writer, save, save.header.buildVersion, adapter);
 
 		writer.endWriting();
-		const chunkSummary = writer.generateChunks(save.compressionInfo!, posAfterHeader, options?.onBinaryBeforeCompressing ?? (() => { }), onHeader, onChunk);
-		return chunkSummary;
+		return { writer, posAfterHeader, adapter };
 	}
 
 	/**
@@ -98,6 +398,7 @@ export class Parser {
 	 * @param blueprint the blueprint to be written
 	 * @param options onMainFileBinaryBeforeCompressing gets called back when the main blueprint file binary is ready before compressing.
 	 * onMainFileHeader gets called back when the main blueprint file header is ready. onMainFileChunk gets called back when a main blueprint file chunk is ready.
+	 * The {@link ChunkWriteOptions} control the compression of the main blueprint file. By default, they are taken from the compression info of the blueprint.
 	 * @returns a chunk summary of the main file generated chunks. Plus the binary data of the config file, since it is often very small.
 	 */
 	public static WriteBlueprintFiles(
@@ -106,7 +407,7 @@ export class Parser {
 		onMainFileChunk: (chunk: Uint8Array) => void,
 		options?: Partial<{
 			onMainFileBinaryBeforeCompressing: (binary: ArrayBuffer) => void,
-		}>
+		} & ChunkWriteOptions>
 	): {
 		mainFileChunkSummary: ChunkSummary[],
 		configFileBinary: ArrayBuffer
@@ -127,7 +428,8 @@ export class Parser {
 				onBinaryBeforeCompressing: options?.onMainFileBinaryBeforeCompressing ?? (() => { }),
 				onHeader: onMainFileHeader,
 				onChunk: onMainFileChunk
-			}
+			},
+			options
 		);
 
 		// write config as well.
@@ -147,6 +449,7 @@ export class Parser {
 	 * @param blueprintFile the main blueprint file ".sbp"
 	 * @param blueprintConfigFile the config blueprint file ".sbpcfg"
 	 * @param options provides callbacks. onDecompressedBlueprintBody gets called when the body of the main blueprint file is decompressed.
+	 * onDiagnostic receives warnings that came up during parsing. If not given, they are printed to the console.
 	 * @returns 
 	 */
 	public static ParseBlueprintFiles(
@@ -154,16 +457,21 @@ export class Parser {
 		blueprintFile: Buffer,
 		blueprintConfigFile: Buffer,
 		options?: Partial<{
-			onDecompressedBlueprintBody: (buffer: ArrayBuffer) => void
+			onDecompressedBlueprintBody: (buffer: ArrayBuffer) => void,
+			onDiagnostic: (diagnostic: ParserDiagnostic) => void
 		}>
 	): Blueprint {
 
+		const diagnostics = new DiagnosticsReporter(options?.onDiagnostic);
+
 		// read config file
 		const blueprintConfigReader = new BlueprintConfigReader(new Uint8Array(blueprintConfigFile).buffer);
+		blueprintConfigReader.diagnostics = diagnostics;
 		const config = BlueprintConfigReader.ParseConfig(blueprintConfigReader);
 
 		// read actual blueprint file
 		const blueprintReader = new BlueprintReader(new Uint8Array(blueprintFile).buffer);
+		blueprintReader.diagnostics = diagnostics;
 		const header = BlueprintReader.ReadHeader(blueprintReader);
 		const inflateResult = blueprintReader.inflateChunks();
 
@@ -172,7 +480,12 @@ export class Parser {
 			options.onDecompressedBlueprintBody(inflateResult.inflatedData);
 		}
 
-		const blueprintObjects = BlueprintReader.ParseObjects(blueprintReader);
+		let blueprintObjects;
+		try {
+			blueprintObjects = BlueprintReader.ParseObjects(blueprintReader);
+		} catch (error) {
+			throw ParserError.WithContext(error, blueprintReader.context, blueprintReader.getBufferPosition());
+		}
 		const blueprint: Blueprint = {
 			name,
 			compressionInfo: blueprintReader.compressionInfo,
@@ -73,6 +73,13 @@ export class BlueprintReader extends ByteReader {
 		// read while we can handle
 		while (this.handledByte < this.maxByte) {
 
+			// v2 chunk headers are marked with 0x22222222 and have an additional byte for the compression algorithm.
+			if (currentChunks.length === 0) {
+				const isV2Header = new DataView(this.fileBuffer).getUint32(4, this.alignment === Alignment.LITTLE_ENDIAN) === 0x22222222;
+				this.compressionInfo.chunkHeaderSize = isV2Header ? 49 : 48;
+			}
+			const sizesOffset = this.compressionInfo.chunkHeaderSize - 48;
+
 			// Read chunk info size...
 			let chunkHeader = new DataView(this.fileBuffer.slice(0, this.compressionInfo.chunkHeaderSize));
 			this.currentByte = this.compressionInfo.chunkHeaderSize;
@@ -84,9 +91,13 @@ export class BlueprintReader extends ByteReader {
 			if (this.compressionInfo.maxUncompressedChunkContentSize <= 0) {
 				this.compressionInfo.maxUncompressedChunkContentSize = chunkHeader.getInt32(8, this.alignment === Alignment.LITTLE_ENDIAN);  //00 00 02 00 = 131072
 			}
+			if (this.compressionInfo.chunkHeaderSize > 48) {
+				// the compression algorithm, only present in v2 headers.
+				this.compressionInfo.compressionAlgorithm = chunkHeader.getUint8(16);
+			}
 
-			const chunkCompressedLength = chunkHeader.getInt32(33, this.alignment === Alignment.LITTLE_ENDIAN);
-			const chunkUncompressedLength = chunkHeader.getInt32(25, this.alignment === Alignment.LITTLE_ENDIAN);
+			const chunkCompressedLength = chunkHeader.getInt32(32 + sizesOffset, this.alignment === Alignment.LITTLE_ENDIAN);
+			const chunkUncompressedLength = chunkHeader.getInt32(24 + sizesOffset, this.alignment === Alignment.LITTLE_ENDIAN);
 			totalUncompressedBodySize += chunkUncompressedLength;
 
 
@@ -165,11 +176,13 @@ export class BlueprintReader extends ByteReader {
 			}
 
 			const obj = objectsList[i];
+			reader.context.push('object', obj.instanceName);
 			if (isSaveEntity(obj)) {
 				SaveEntity.ParseData(obj, len, reader, buildVersion, obj.typePath);
 			} else if (isSaveComponent(obj)) {
 				SaveComponent.ParseData(obj, len, reader, buildVersion, obj.typePath);
 			}
+			reader.context.pop();
 		}
 	}
 
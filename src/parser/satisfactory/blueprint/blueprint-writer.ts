@@ -1,7 +1,7 @@
 import { Alignment } from "../../byte/alignment.enum";
 import { ByteWriter } from "../../byte/byte-writer.class";
 import { ParserError } from "../../error/parser.error";
-import { ChunkCompressionInfo, ChunkSummary } from "../../file.types";
+import { ChunkCompressionInfo, ChunkSummary, ChunkWriteOptions } from "../../file.types";
 import { Level } from '../save/level.class';
 import { SaveWriter } from "../save/save-writer";
 import { SaveComponent, isSaveComponent } from "../types/objects/SaveComponent";
@@ -57,7 +57,8 @@ export class BlueprintWriter extends ByteWriter {
 			onBinaryBeforeCompressing: (binary: ArrayBuffer) => void,
 			onHeader: (header: Uint8Array) => void,
 			onChunk: (chunk: Uint8Array) => void,
-		}>
+		}>,
+		writeOptions: Partial<ChunkWriteOptions> = {}
 	): ChunkSummary[] {
 
 		if (posAfterHeader <= 0) {
@@ -72,7 +73,7 @@ export class BlueprintWriter extends ByteWriter {
 
 		// create save body
 		this.bufferArray = this.bufferArray.slice(posAfterHeader);
-		const chunkSummary = SaveWriter.GenerateCompressedChunksFromData(this.bufferArray, compressionInfo, options.onBinaryBeforeCompressing ?? (() => { }), options.onChunk ?? (() => { }), this.alignment);
+		const chunkSummary = SaveWriter.GenerateCompressedChunksFromData(this.bufferArray, compressionInfo, options.onBinaryBeforeCompressing ?? (() => { }), options.onChunk ?? (() => { }), this.alignment, undefined, writeOptions);
 		return chunkSummary;
 	}
 
@@ -0,0 +1,183 @@
+import { ParserError } from '../../error/parser.error';
+import { ObjectReferenceGraph } from '../save/object-reference-graph';
+import { SatisfactorySave } from '../save/satisfactory-save';
+import { SaveComponent } from '../types/objects/SaveComponent';
+import { SaveEntity, isSaveEntity } from '../types/objects/SaveEntity';
+import { isConveyorChainActorSpecialProperties } from '../types/property/special/ConveyorChainActorSpecialProperties';
+import { isPowerLineSpecialProperties } from '../types/property/special/PowerLineSpecialProperties';
+import { ObjectReference } from '../types/structs/ObjectReference';
+import { Transform } from '../types/structs/Transform';
+import { vec3 } from '../types/structs/vec3';
+import { vec4 } from '../types/structs/vec4';
+import { EDIT } from './edit-constants';
+import { InstanceName } from './instance-name';
+
+export type CloneEntityOptions = {
+	/** moves the clones by the translation and turns them by the rotation around the pivot. */
+	offset?: Partial<Pick<Transform, 'translation' | 'rotation'>>;
+
+	/** the point to turn the clones around. Defaults to the translation of the first entity. */
+	pivot?: vec3;
+
+	/**
+	 * removes the references of the clones to connections of the originals, that were not cloned. Those are power lines, power circuits, conveyor chain actors and the connection components of other buildables.
+	 * Otherwise, a cloned machine would share the power line or the conveyor of the original. References in arrays and sets are removed from them. Defaults to true.
+	 */
+	clearExternalConnections?: boolean;
+};
+
+export type CloneEntitiesResult = {
+	/** the cloned entities and their components, in the order they were added to the save. */
+	clones: (SaveEntity | SaveComponent)[];
+
+	/** the instance names of the clones by the instance names of the originals. */
+	instanceNames: Map<string, string>;
+};
+
+/**
+ * clones entities together with their components and adds them to the levels of the originals.
+ * The clones get new instance names in the naming scheme of the game, like `Persistent_Level:PersistentLevel.Build_ConstructorMk1_C_2147299876`.
+ * References among the cloned objects point to the clones. References to connections that were not cloned, like power lines, are removed. Other references are kept, so they still point to the originals.
+ * @param instanceNames the instance names of the entities. Their components are cloned as well.
+ * @throws {ParserError} if the save does not contain an entity with one of the given instance names.
+ */
+export const cloneEntities = (save: SatisfactorySave, instanceNames: string[], options: CloneEntityOptions = {}): CloneEntitiesResult => {
+	const graph = new ObjectReferenceGraph(save);
+
+	const originals: (SaveEntity | SaveComponent)[] = [];
+	const newInstanceNames = new Map<string, string>();
+	const usedNames = new Set<string>();
+	const createInstanceName = (instanceName: string) => {
+		const name = InstanceName.Create(instanceName, name => graph.index.has(name) || usedNames.has(name));
+		usedNames.add(name);
+		return name;
+	};
+	for (const instanceName of instanceNames) {
+		const entity = graph.index.get(instanceName);
+		if (entity === undefined || !isSaveEntity(entity)) {
+			throw new ParserError('ParserError', `The save does not contain an entity with instance name ${instanceName}.`);
+		}
+		if (newInstanceNames.has(instanceName)) {
+			continue;
+		}
+
+		const entityName = createInstanceName(instanceName);
+		originals.push(entity);
+		newInstanceNames.set(instanceName, entityName);
+
+		// components are named after their entity, like Build_ConstructorMk1_C_2147299876.InputInventory
+		for (const component of graph.getComponentsOf(entity)) {
+			if (newInstanceNames.has(component.instanceName)) {
+				continue;
+			}
+			originals.push(component);
+			newInstanceNames.set(component.instanceName, component.instanceName.startsWith(`${instanceName}.`)
+				? entityName + component.instanceName.substring(instanceName.length)
+				: createInstanceName(component.instanceName)
+			);
+		}
+	}
+
+	const firstEntity = originals.find(original => isSaveEntity(original)) as SaveEntity | undefined;
+	const pivot = options.pivot ?? firstEntity?.transform.translation ?? { x: 0, y: 0, z: 0 };
+	const moveToOffset = (position: vec3) => MoveByOffset(position, pivot, options.offset ?? {});
+
+	const clones: (SaveEntity | SaveComponent)[] = [];
+	for (const original of originals) {
+		const clone = CloneValue(original);
+		clone.instanceName = newInstanceNames.get(original.instanceName)!;
+		clone.parentEntityName = newInstanceNames.get(clone.parentEntityName) ?? clone.parentEntityName;
+		if (isSaveEntity(clone)) {
+			clone.parentObjectName = newInstanceNames.get(clone.parentObjectName) ?? clone.parentObjectName;
+		}
+
+		const externalConnections = new Set<ObjectReference>();
+		ObjectReferenceGraph.ForEachReference(clone, reference => {
+			const newInstanceName = newInstanceNames.get(reference.pathName);
+			if (newInstanceName !== undefined) {
+				reference.pathName = newInstanceName;
+			} else if (IsConnection(graph.resolve(reference))) {
+				externalConnections.add(reference);
+			}
+		});
+		if ((options.clearExternalConnections ?? true) && externalConnections.size > 0) {
+			ObjectReferenceGraph.RemoveReferences(clone, externalConnections);
+		}
+
+		if (isSaveEntity(clone) && options.offset !== undefined) {
+			clone.transform.translation = moveToOffset(clone.transform.translation);
+			if (options.offset.rotation !== undefined) {
+				clone.transform.rotation = vec4.quatMult(options.offset.rotation, clone.transform.rotation);
+			}
+
+			// power lines know the world positions of their ends.
+			if (isPowerLineSpecialProperties(clone.specialProperties)) {
+				if (clone.specialProperties.sourceTranslation !== undefined) {
+					clone.specialProperties.sourceTranslation = moveToOffset(clone.specialProperties.sourceTranslation);
+				}
+				if (clone.specialProperties.targetTranslation !== undefined) {
+					clone.specialProperties.targetTranslation = moveToOffset(clone.specialProperties.targetTranslation);
+				}
+			}
+		}
+
+		graph.index.add(clone, graph.index.getLevelOf(original.instanceName)!.name);
+		clones.push(clone);
+	}
+
+	return { clones, instanceNames: newInstanceNames };
+};
+
+/**
+ * clones an entity together with its components. See {@link cloneEntities}.
+ * @returns the clone of the entity.
+ */
+export const cloneEntity = (save: SatisfactorySave, instanceName: string, options: CloneEntityOptions = {}): SaveEntity => {
+	return cloneEntities(save, [instanceName], options).clones[0] as SaveEntity;
+};
+
+const CONNECTION_TYPE_PATHS = new Set<string>([
+	EDIT.COMPONENTS.FACTORY_CONNECTION_COMPONENT.TYPE_PATH,
+	EDIT.COMPONENTS.PIPE_CONNECTION_FACTORY_COMPONENT.TYPE_PATH,
+	'/Script/FactoryGame.FGPipeConnectionComponent',
+	EDIT.COMPONENTS.HYPERTUBE_CONNECTION_COMPONENT.TYPE_PATH,
+	EDIT.COMPONENTS.POWER_CONNECTION_COMPONENT.TYPE_PATH,
+	EDIT.COMPONENTS.RAILWAY_CONNECTION_COMPONENT.TYPE_PATH,
+	EDIT.COMPONENTS.POWER_CIRCUIT.TYPE_PATH
+]);
+
+/**
+ * @returns whether the object connects buildables, so it can not be shared between an original and its clone.
+ */
+const IsConnection = (object: SaveEntity | SaveComponent | undefined): boolean => object !== undefined && (
+	CONNECTION_TYPE_PATHS.has(object.typePath)
+	|| (isSaveEntity(object) && (isPowerLineSpecialProperties(object.specialProperties) || isConveyorChainActorSpecialProperties(object.specialProperties)))
+);
+
+/**
+ * deep copies a value. Class instances keep their prototype.
+ */
+const CloneValue = <T>(value: T): T => {
+	if (value === null || typeof value !== 'object') {
+		return value;
+	}
+	if (ArrayBuffer.isView(value)) {
+		return (value as unknown as Uint8Array).slice() as unknown as T;
+	}
+	if (Array.isArray(value)) {
+		return value.map(CloneValue) as unknown as T;
+	}
+
+	const clone = Object.create(Object.getPrototypeOf(value));
+	for (const [key, child] of Object.entries(value)) {
+		clone[key] = CloneValue(child);
+	}
+	return clone;
+};
+
+const MoveByOffset = (position: vec3, pivot: vec3, offset: Partial<Pick<Transform, 'translation' | 'rotation'>>): vec3 => {
+	const rotated = offset.rotation !== undefined
+		? vec3.add(pivot, vec4.quatRotate(offset.rotation, vec3.sub(position, pivot)))
+		: position;
+	return offset.translation !== undefined ? vec3.add(rotated, offset.translation) : rotated;
+};
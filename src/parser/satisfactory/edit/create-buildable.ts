@@ -0,0 +1,279 @@
+import { ParserError } from '../../error/parser.error';
+import { SaveObjectIndex } from '../save/save-object-index';
+import { SaveUpgrader } from '../save/save-upgrader';
+import { SaveComponent } from '../types/objects/SaveComponent';
+import { SaveEntity } from '../types/objects/SaveEntity';
+import { AbstractBaseProperty, PropertiesMap } from '../types/property/generic/BasicProperty';
+import { FloatProperty } from '../types/property/generic/FloatProperty';
+import { ObjectProperty } from '../types/property/generic/ObjectProperty';
+import { StructProperty } from '../types/property/generic/StructProperty';
+import { BuildableSubsystemSpecialProperties, BuildableTypeInstance, isBuildableSubsystemSpecialProperties } from '../types/property/special/BuildableSubsystemSpecialProperties';
+import { DynamicStructPropertyValue } from '../types/structs/DynamicStructPropertyValue';
+import { Transform } from '../types/structs/Transform';
+import { col4 } from '../types/structs/col4';
+import { EDIT } from './edit-constants';
+import { InstanceName } from './instance-name';
+
+/**
+ * a buildable of the catalog in {@link EDIT}, like `EDIT.ENTITIES.FACTORY.CONSTRUCTOR`.
+ */
+export type BuildableCatalogEntry = {
+	readonly TYPE_PATH: string;
+	readonly CLASS_NAME?: string;
+	readonly RECIPE?: string;
+	readonly DEFAULT_SWATCH?: string;
+};
+
+/**
+ * @name the name of the component. It is appended to the instance name of the entity, like `Build_ConstructorMk1_C_2147299876.InputInventory`.
+ * @typePath the class of the component.
+ * @propertyName the property of the entity that references the component, if there is one.
+ */
+export type BuildableComponentLayout = {
+	name: string;
+	typePath: string;
+	propertyName?: string;
+};
+
+/**
+ * @instanceName the instance name of the entity. By default, a new one in the naming scheme of the game.
+ * @levelName the level the entity belongs to. By default, the persistent level.
+ * @recipe the recipe the entity was built with. By default, the recipe of the catalog entry.
+ * @swatch the color swatch. By default, the swatch of the catalog entry. Ignored if colors are given.
+ * @colors custom colors, that override the swatch.
+ * @components the components of the entity. By default, the layout of {@link BUILDABLE_COMPONENT_LAYOUTS}. Required for buildables without a layout there.
+ * @objectVersion the save version the entity is written in. By default, the save version of the save it is added to, or of 1.0 if it is only created.
+ */
+export type CreateBuildableOptions = {
+	instanceName: string;
+	levelName: string;
+	recipe: string;
+	swatch: string;
+	colors: { primary: col4, secondary: col4 };
+	buildTimeStamp: number;
+	components: BuildableComponentLayout[];
+	objectVersion: number;
+};
+
+export type CreatedBuildable = {
+	entity: SaveEntity;
+	components: SaveComponent[];
+};
+
+const SWATCH_CUSTOM = '/Game/FactoryGame/Buildable/-Shared/Customization/Swatches/SwatchDesc_Custom.SwatchDesc_Custom_C';
+
+const Inventory = (name: string, propertyName: string): BuildableComponentLayout => ({ name, typePath: EDIT.COMPONENTS.INVENTORY_COMPONENT.TYPE_PATH, propertyName });
+
+const Connections = (prefix: string, typePath: string, count: number, firstName?: string): BuildableComponentLayout[] => new Array(count).fill(0)
+	.map((_, i) => ({ name: i === 0 && firstName !== undefined ? firstName : `${prefix}${i}`, typePath }));
+
+const ManufacturerLayout = (inputs: number, outputs: number, pipeInputs: number = 0, pipeOutputs: number = 0): BuildableComponentLayout[] => [
+	Inventory('InputInventory', 'mInputInventory'),
+	Inventory('OutputInventory', 'mOutputInventory'),
+	Inventory('InventoryPotential', 'mInventoryPotential'),
+	{ name: 'powerInfo', typePath: EDIT.COMPONENTS.POWER_INFO_COMPONENT.TYPE_PATH, propertyName: 'mPowerInfo' },
+	{ name: 'PowerInput', typePath: EDIT.COMPONENTS.POWER_CONNECTION_COMPONENT.TYPE_PATH },
+	...Connections('Input', EDIT.COMPONENTS.FACTORY_CONNECTION_COMPONENT.TYPE_PATH, inputs),
+	...Connections('Output', EDIT.COMPONENTS.FACTORY_CONNECTION_COMPONENT.TYPE_PATH, outputs),
+	...Connections('PipeInputFactory', EDIT.COMPONENTS.PIPE_CONNECTION_FACTORY_COMPONENT.TYPE_PATH, pipeInputs, 'PipeInputFactory'),
+	...Connections('PipeOutputFactory', EDIT.COMPONENTS.PIPE_CONNECTION_FACTORY_COMPONENT.TYPE_PATH, pipeOutputs, 'PipeOutputFactory'),
+];
+
+const StorageLayout = (connections: number): BuildableComponentLayout[] => [
+	Inventory('StorageInventory', 'mStorageInventory'),
+	...Connections('Input', EDIT.COMPONENTS.FACTORY_CONNECTION_COMPONENT.TYPE_PATH, connections),
+	...Connections('Output', EDIT.COMPONENTS.FACTORY_CONNECTION_COMPONENT.TYPE_PATH, connections),
+];
+
+const PowerPoleLayout: BuildableComponentLayout[] = [
+	{ name: 'PowerConnection', typePath: EDIT.COMPONENTS.POWER_CONNECTION_COMPONENT.TYPE_PATH }
+];
+
+const TypePathsOf = (catalog: object): string[] => Object.values(catalog).flatMap(value => typeof value !== 'object' || value === null
+	? []
+	: 'TYPE_PATH' in value ? [value.TYPE_PATH as string] : TypePathsOf(value)
+);
+
+// since 1.0, the game keeps most building parts in the lightweight buildable subsystem instead of as entities.
+const IsLightweightBuildable = (typePath: string): boolean => SaveUpgrader.LIGHTWEIGHT_BUILDABLE_PATH_PREFIXES.some(prefix => typePath.startsWith(prefix));
+
+// building parts that are still entities, which the game creates without any components.
+const WithoutComponents = (...catalogs: object[]): { [typePath: string]: BuildableComponentLayout[] } => Object.fromEntries(
+	catalogs.flatMap(TypePathsOf).filter(typePath => !IsLightweightBuildable(typePath)).map(typePath => [typePath, []])
+);
+
+/**
+ * the components that the game creates for the buildables of the catalog, by type path.
+ * Only production buildings, storage containers, power poles and the building parts that are no lightweight buildables are listed.
+ * Buildables without an entry can only be created with their components given.
+ */
+export const BUILDABLE_COMPONENT_LAYOUTS: { [typePath: string]: BuildableComponentLayout[] } = {
+	...WithoutComponents(
+		EDIT.ENTITIES.RAILING,
+		EDIT.ENTITIES.BEAM
+	),
+	[EDIT.ENTITIES.FACTORY.CONSTRUCTOR.TYPE_PATH]: ManufacturerLayout(1, 1),
+	[EDIT.ENTITIES.FACTORY.SMELTER.TYPE_PATH]: ManufacturerLayout(1, 1),
+	[EDIT.ENTITIES.FACTORY.REFINERY.TYPE_PATH]: ManufacturerLayout(1, 1, 1, 1),
+	[EDIT.ENTITIES.FACTORY.BLENDER.TYPE_PATH]: ManufacturerLayout(2, 1, 2, 2),
+	[EDIT.ENTITIES.FACTORY.ASSEMBLER.TYPE_PATH]: ManufacturerLayout(2, 1),
+	[EDIT.ENTITIES.FACTORY.MANUFACTURER.TYPE_PATH]: ManufacturerLayout(4, 1),
+	[EDIT.ENTITIES.FACTORY.FOUNDRY.TYPE_PATH]: ManufacturerLayout(2, 1),
+	[EDIT.ENTITIES.FACTORY.PACKAGER.TYPE_PATH]: ManufacturerLayout(1, 1, 1, 1),
+	[EDIT.ENTITIES.FACTORY.PARTICLE_ACCELERATOR.TYPE_PATH]: ManufacturerLayout(2, 1, 1, 0),
+	[EDIT.ENTITIES.FACTORY.CONVERTER.TYPE_PATH]: ManufacturerLayout(2, 1, 0, 1),
+	[EDIT.ENTITIES.FACTORY.QUANTUM_ENCODER.TYPE_PATH]: ManufacturerLayout(3, 1, 1, 1),
+	[EDIT.ENTITIES.STORAGE.CONTAINER_MK_1.TYPE_PATH]: StorageLayout(1),
+	[EDIT.ENTITIES.STORAGE.CONTAINER_MK_2.TYPE_PATH]: StorageLayout(2),
+	[EDIT.ENTITIES.POWER_POLE.POWER_POLE_MK1.TYPE_PATH]: PowerPoleLayout,
+	[EDIT.ENTITIES.POWER_POLE.POWER_POLE_MK2.TYPE_PATH]: PowerPoleLayout,
+	[EDIT.ENTITIES.POWER_POLE.POWER_POLE_MK3.TYPE_PATH]: PowerPoleLayout,
+};
+
+/**
+ * creates a buildable of the catalog as entity, together with its components.
+ * The entity gets the recipe it was built with and its customization, like the game writes it.
+ * @param entry the buildable, like `EDIT.ENTITIES.FACTORY.CONSTRUCTOR`.
+ * @param transform where the buildable is placed.
+ * @throws {ParserError} if the buildable is a lightweight buildable, see {@link addLightweightBuildable}, or if its components are neither known nor given.
+ */
+export const createBuildable = (entry: BuildableCatalogEntry, transform: Transform, options: Partial<CreateBuildableOptions> = {}): CreatedBuildable => {
+	if (IsLightweightBuildable(entry.TYPE_PATH)) {
+		throw new ParserError('ParserError', `${entry.TYPE_PATH} is a lightweight buildable, which the game does not load as entity. Add it with addLightweightBuildable instead.`);
+	}
+
+	const levelName = options.levelName ?? 'Persistent_Level';
+	const objectVersion = options.objectVersion ?? SaveUpgrader.TARGET_SAVE_VERSION;
+	const instanceName = options.instanceName ?? InstanceName.Create(`${levelName}:PersistentLevel.${InstanceName.GetClassName(entry.TYPE_PATH)}`);
+
+	const entity = new SaveEntity(entry.TYPE_PATH, levelName, instanceName, '', true);
+	entity.transform = transform;
+	entity.objectVersion = objectVersion;
+	entity.unknownType2 = 1;
+
+	const layouts = options.components ?? BUILDABLE_COMPONENT_LAYOUTS[entry.TYPE_PATH];
+	if (layouts === undefined) {
+		throw new ParserError('ParserError', `The components of ${entry.TYPE_PATH} are not known. Pass them as components, or an empty list if it has none.`);
+	}
+
+	const components = layouts.map(layout => {
+		const component = new SaveComponent(layout.typePath, levelName, `${instanceName}.${layout.name}`, instanceName);
+		component.objectVersion = objectVersion;
+		component.unknownType2 = 1;
+
+		const reference = { levelName, pathName: component.instanceName };
+		entity.components.push(reference);
+		if (layout.propertyName !== undefined) {
+			entity.properties[layout.propertyName] = Named(layout.propertyName, new ObjectProperty({ ...reference }));
+		}
+		return component;
+	});
+
+	const swatch = options.colors !== undefined ? SWATCH_CUSTOM : options.swatch ?? entry.DEFAULT_SWATCH;
+	if (swatch !== undefined) {
+		entity.properties.mCustomizationData = CreateCustomizationData(swatch, options.colors);
+	}
+	const recipe = options.recipe ?? entry.RECIPE;
+	if (recipe !== undefined) {
+		entity.properties.mBuiltWithRecipe = Named('mBuiltWithRecipe', new ObjectProperty({ levelName: '', pathName: recipe }));
+	}
+	entity.properties.mBuildTimeStamp = Named('mBuildTimeStamp', new FloatProperty(options.buildTimeStamp ?? 0));
+
+	return { entity, components };
+};
+
+/**
+ * creates a buildable of the catalog with an instance name that is not used yet, and adds it with its components to the persistent level.
+ * See {@link createBuildable}.
+ * @throws {ParserError} if the buildable is a lightweight buildable, or if its components are neither known nor given.
+ */
+export const addBuildable = (index: SaveObjectIndex, entry: BuildableCatalogEntry, transform: Transform, options: Partial<Omit<CreateBuildableOptions, 'instanceName' | 'levelName'>> = {}): CreatedBuildable => {
+	const levelName = index.save.header.mapName;
+	const instanceName = InstanceName.Create(`${levelName}:PersistentLevel.${InstanceName.GetClassName(entry.TYPE_PATH)}`, name => index.has(name));
+	const objectVersion = options.objectVersion ?? index.save.header.saveVersion;
+
+	const buildable = createBuildable(entry, transform, { ...options, instanceName, levelName, objectVersion });
+	for (const object of [buildable.entity, ...buildable.components]) {
+		index.add(object, levelName);
+	}
+	return buildable;
+};
+
+/**
+ * adds a building part like a foundation or a wall to the lightweight buildable subsystem of the save, where the game keeps them since 1.0.
+ * The subsystem gets created if the save has none yet.
+ * @param entry the building part, like `EDIT.ENTITIES.FOUNDATION.FLAT.NORMAL_8x1_01`.
+ * @returns the added instance.
+ * @throws {ParserError} if the buildable is no lightweight buildable, see {@link addBuildable}.
+ */
+export const addLightweightBuildable = (index: SaveObjectIndex, entry: BuildableCatalogEntry, transform: Transform, options: Partial<Pick<CreateBuildableOptions, 'recipe' | 'swatch' | 'colors'>> = {}): BuildableTypeInstance => {
+	if (!IsLightweightBuildable(entry.TYPE_PATH)) {
+		throw new ParserError('ParserError', `${entry.TYPE_PATH} is no lightweight buildable. Add it with addBuildable instead.`);
+	}
+
+	const buildables = GetLightweightBuildables(index);
+	let buildable = buildables.find(buildable => buildable.typePath === entry.TYPE_PATH);
+	if (buildable === undefined) {
+		buildable = { typePath: entry.TYPE_PATH, instances: [] };
+		buildables.push(buildable);
+	}
+
+	const swatch = options.colors !== undefined ? SWATCH_CUSTOM : options.swatch ?? entry.DEFAULT_SWATCH;
+	const instance: BuildableTypeInstance = {
+		transform,
+		primaryColor: options.colors?.primary ?? { r: 0, g: 0, b: 0, a: 0 },
+		secondaryColor: options.colors?.secondary ?? { r: 0, g: 0, b: 0, a: 0 },
+		usedSwatchSlot: { levelName: '', pathName: swatch ?? '' },
+		usedMaterial: { levelName: '', pathName: '' },
+		usedPattern: { levelName: '', pathName: '' },
+		usedSkin: { levelName: '', pathName: '' },
+		usedPaintFinish: { levelName: '', pathName: '' },
+		patternRotation: 0,
+		usedRecipe: { levelName: '', pathName: options.recipe ?? entry.RECIPE ?? '' },
+		blueprintProxy: { levelName: '', pathName: '' }
+	};
+	buildable.instances.push(instance);
+	return instance;
+};
+
+const GetLightweightBuildables = (index: SaveObjectIndex): BuildableSubsystemSpecialProperties['buildables'] => {
+	let subsystem = index.getByTypePath(SaveUpgrader.LIGHTWEIGHT_BUILDABLE_SUBSYSTEM_TYPE_PATH)[0];
+	if (subsystem === undefined) {
+		const levelName = index.save.header.mapName;
+		subsystem = new SaveEntity(SaveUpgrader.LIGHTWEIGHT_BUILDABLE_SUBSYSTEM_TYPE_PATH, levelName, `${levelName}:PersistentLevel.LightweightBuildableSubsystem`);
+		subsystem.objectVersion = index.save.header.saveVersion;
+		subsystem.unknownType2 = 1;
+		index.add(subsystem, levelName);
+	}
+	if (!isBuildableSubsystemSpecialProperties(subsystem.specialProperties)) {
+		subsystem.specialProperties = { type: 'BuildableSubsystemSpecialProperties', buildables: [] } satisfies BuildableSubsystemSpecialProperties;
+	}
+	return subsystem.specialProperties.buildables;
+};
+
+const Named = <T extends AbstractBaseProperty>(name: string, property: T): T => {
+	property.name = name;
+	return property;
+};
+
+const CreateStruct = (name: string, subtype: string, properties: PropertiesMap): StructProperty => {
+	const struct = Named(name, new StructProperty(subtype));
+	struct.value = { type: subtype, properties } satisfies DynamicStructPropertyValue;
+	return struct;
+};
+
+const CreateCustomizationData = (swatch: string, colors?: CreateBuildableOptions['colors']): StructProperty => {
+	const properties: PropertiesMap = {
+		SwatchDesc: Named('SwatchDesc', new ObjectProperty({ levelName: '', pathName: swatch }))
+	};
+
+	if (colors !== undefined) {
+		const primary = Named('PrimaryColor', new StructProperty('LinearColor'));
+		primary.value = colors.primary;
+		const secondary = Named('SecondaryColor', new StructProperty('LinearColor'));
+		secondary.value = colors.secondary;
+		properties.OverrideColorData = CreateStruct('OverrideColorData', 'FactoryCustomizationColorSlot', { PrimaryColor: primary, SecondaryColor: secondary });
+	}
+
+	return CreateStruct('mCustomizationData', 'FactoryCustomizationData', properties);
+};
@@ -0,0 +1,132 @@
+import { ParserError } from '../../error/parser.error';
+import { ObjectReferenceEdge, ObjectReferenceGraph } from '../save/object-reference-graph';
+import { SatisfactorySave } from '../save/satisfactory-save';
+import { SaveComponent } from '../types/objects/SaveComponent';
+import { SaveEntity, isSaveEntity } from '../types/objects/SaveEntity';
+import { isConveyorChainActorSpecialProperties } from '../types/property/special/ConveyorChainActorSpecialProperties';
+import { isPowerLineSpecialProperties } from '../types/property/special/PowerLineSpecialProperties';
+import { ObjectReference } from '../types/structs/ObjectReference';
+
+export type DeleteEntityOptions = {
+	/** also removes the power lines that are attached to the power connections of the entity. Defaults to true. */
+	removePowerLines?: boolean;
+
+	/** also removes the conveyor chain actors that contain the entity, if it is a conveyor. The game creates them again on load. Defaults to true. */
+	removeConveyorChains?: boolean;
+
+	/** nulls out the references of the remaining objects to removed objects. References in components, arrays and sets are removed from them. Defaults to true. */
+	clearReferences?: boolean;
+};
+
+export type DeletedObject = {
+	object: SaveEntity | SaveComponent;
+	levelName: string;
+
+	/** why the object was removed. */
+	reason: 'entity' | 'component' | 'power-line' | 'conveyor-chain';
+};
+
+export type DeleteEntityReport = {
+	/** the removed objects, starting with the entity itself. */
+	removedObjects: DeletedObject[];
+
+	/** the references of remaining objects that pointed to removed objects and were cleared. */
+	clearedReferences: ObjectReferenceEdge[];
+};
+
+/**
+ * removes entities from the save, together with their components (like inventories and connections), the power lines attached to them and the conveyor chains that contain them.
+ * @param source the save, or a graph of it. A graph is kept up to date, so it can be reused for further edits instead of being built for every call.
+ * @param instanceNames the instance names of the entities.
+ * @throws {ParserError} if the save does not contain an entity with one of the given instance names. Nothing is removed then.
+ */
+export const deleteEntities = (source: SatisfactorySave | ObjectReferenceGraph, instanceNames: string[], options: DeleteEntityOptions = {}): DeleteEntityReport => {
+	const graph = source instanceof ObjectReferenceGraph ? source : new ObjectReferenceGraph(source);
+	const entities = instanceNames.map(instanceName => {
+		const entity = graph.index.get(instanceName);
+		if (entity === undefined || !isSaveEntity(entity)) {
+			throw new ParserError('ParserError', `The save does not contain an entity with instance name ${instanceName}.`);
+		}
+		return entity;
+	});
+
+	const toRemove = new Map<string, DeletedObject['reason']>();
+	for (const entity of entities) {
+		CollectCascade(graph, entity, 'entity', toRemove, options);
+	}
+
+	const report: DeleteEntityReport = { removedObjects: [], clearedReferences: [] };
+	const edges = Array.from(toRemove.keys())
+		.flatMap(name => graph.getReferencesTo(name))
+		.filter(edge => !toRemove.has(edge.source.instanceName));
+
+	for (const [name, reason] of toRemove) {
+		report.removedObjects.push({ object: graph.index.get(name)!, levelName: graph.index.getLevelOf(name)!.name, reason });
+	}
+	graph.removeAll(Array.from(toRemove.keys()));
+
+	if (options.clearReferences ?? true) {
+		report.clearedReferences = edges.map(edge => ({ ...edge, reference: { ...edge.reference } }));
+		graph.removeEdges(edges);
+		ClearReferences(edges);
+	}
+
+	return report;
+};
+
+/**
+ * removes an entity from the save, together with everything that belongs to it. See {@link deleteEntities}.
+ * @param source the save, or a graph of it, which is kept up to date.
+ * @throws {ParserError} if the save does not contain an entity with the given instance name.
+ */
+export const deleteEntity = (source: SatisfactorySave | ObjectReferenceGraph, instanceName: string, options: DeleteEntityOptions = {}): DeleteEntityReport => {
+	return deleteEntities(source, [instanceName], options);
+};
+
+const CollectCascade = (graph: ObjectReferenceGraph, entity: SaveEntity, reason: DeletedObject['reason'], toRemove: Map<string, DeletedObject['reason']>, options: DeleteEntityOptions): void => {
+	if (toRemove.has(entity.instanceName)) {
+		return;
+	}
+	toRemove.set(entity.instanceName, reason);
+
+	const components = graph.getComponentsOf(entity);
+	for (const component of components) {
+		if (!toRemove.has(component.instanceName)) {
+			toRemove.set(component.instanceName, 'component');
+		}
+	}
+
+	// power lines and conveyor chains reference the objects they connect in their special properties.
+	for (const name of [entity.instanceName, ...components.map(component => component.instanceName)]) {
+		for (const edge of graph.getReferencesTo(name)) {
+			if (!edge.path.startsWith('specialProperties.') || !isSaveEntity(edge.source)) {
+				continue;
+			}
+			if ((options.removePowerLines ?? true) && isPowerLineSpecialProperties(edge.source.specialProperties)) {
+				CollectCascade(graph, edge.source, 'power-line', toRemove, options);
+			} else if ((options.removeConveyorChains ?? true) && isConveyorChainActorSpecialProperties(edge.source.specialProperties)) {
+				CollectCascade(graph, edge.source, 'conveyor-chain', toRemove, options);
+			}
+		}
+	}
+};
+
+const ClearReferences = (edges: ObjectReferenceEdge[]): void => {
+	const referencesBySource = new Map<SaveEntity | SaveComponent, Set<ObjectReference>>();
+	for (const edge of edges) {
+		if (edge.path === 'parentEntityName') {
+			edge.source.parentEntityName = '';
+		} else if (edge.path === 'parentObjectName' && isSaveEntity(edge.source)) {
+			edge.source.parentObjectRoot = '';
+			edge.source.parentObjectName = '';
+		} else {
+			const references = referencesBySource.get(edge.source) ?? new Set<ObjectReference>();
+			references.add(edge.reference);
+			referencesBySource.set(edge.source, references);
+		}
+	}
+
+	for (const [source, references] of referencesBySource) {
+		ObjectReferenceGraph.RemoveReferences(source, references);
+	}
+};
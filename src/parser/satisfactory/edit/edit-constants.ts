@@ -1627,14 +1627,20 @@ export const EDIT = {
 			POWER_POLE_MK1: {
 				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/PowerPoleMk1/Build_PowerPoleMk1.Build_PowerPoleMk1_C',
 				CLASS_NAME: 'Build_PowerPoleMk1_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_PowerPoleMk1.Recipe_PowerPoleMk1_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			POWER_POLE_MK2: {
 				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/PowerPoleMk2/Build_PowerPoleMk2.Build_PowerPoleMk2_C',
-				CLASS_NAME: 'Build_PowerPoleMk2_C'
+				CLASS_NAME: 'Build_PowerPoleMk2_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_PowerPoleMk2.Recipe_PowerPoleMk2_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			POWER_POLE_MK3: {
 				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/PowerPoleMk3/Build_PowerPoleMk3.Build_PowerPoleMk3_C',
-				CLASS_NAME: 'Build_PowerPoleMk3_C'
+				CLASS_NAME: 'Build_PowerPoleMk3_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_PowerPoleMk3.Recipe_PowerPoleMk3_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			POWER_POLE_WALL_MK1: {
 				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/PowerPoleWall/Build_PowerPoleWall.Build_PowerPoleWall_C',
@@ -1848,38 +1854,70 @@ export const EDIT = {
 		},
 		FACTORY: {
 			CONSTRUCTOR: {
-				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/ConstructorMk1/Build_ConstructorMk1.Build_ConstructorMk1_C'
+				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/ConstructorMk1/Build_ConstructorMk1.Build_ConstructorMk1_C',
+				CLASS_NAME: 'Build_ConstructorMk1_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_ConstructorMk1.Recipe_ConstructorMk1_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			SMELTER: {
-				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/SmelterMk1/Build_SmelterMk1.Build_SmelterMk1_C'
+				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/SmelterMk1/Build_SmelterMk1.Build_SmelterMk1_C',
+				CLASS_NAME: 'Build_SmelterMk1_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_SmelterMk1.Recipe_SmelterMk1_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			REFINERY: {
-				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/OilRefinery/Build_OilRefinery.Build_OilRefinery_C'
+				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/OilRefinery/Build_OilRefinery.Build_OilRefinery_C',
+				CLASS_NAME: 'Build_OilRefinery_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_OilRefinery.Recipe_OilRefinery_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			BLENDER: {
-				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/Blender/Build_Blender.Build_Blender_C'
+				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/Blender/Build_Blender.Build_Blender_C',
+				CLASS_NAME: 'Build_Blender_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_Blender.Recipe_Blender_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			ASSEMBLER: {
-				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/AssemblerMk1/Build_AssemblerMk1.Build_AssemblerMk1_C'
+				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/AssemblerMk1/Build_AssemblerMk1.Build_AssemblerMk1_C',
+				CLASS_NAME: 'Build_AssemblerMk1_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_AssemblerMk1.Recipe_AssemblerMk1_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			MANUFACTURER: {
-				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/ManufacturerMk1/Build_ManufacturerMk1.Build_ManufacturerMk1_C'
+				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/ManufacturerMk1/Build_ManufacturerMk1.Build_ManufacturerMk1_C',
+				CLASS_NAME: 'Build_ManufacturerMk1_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_ManufacturerMk1.Recipe_ManufacturerMk1_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			FOUNDRY: {
-				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/FoundryMk1/Build_FoundryMk1.Build_FoundryMk1_C'
+				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/FoundryMk1/Build_FoundryMk1.Build_FoundryMk1_C',
+				CLASS_NAME: 'Build_FoundryMk1_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_FoundryMk1.Recipe_FoundryMk1_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			PACKAGER: {
-				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/Packager/Build_Packager.Build_Packager_C'
+				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/Packager/Build_Packager.Build_Packager_C',
+				CLASS_NAME: 'Build_Packager_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_Packager.Recipe_Packager_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			PARTICLE_ACCELERATOR: {
-				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/HadronCollider/Build_HadronCollider.Build_HadronCollider_C'
+				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/HadronCollider/Build_HadronCollider.Build_HadronCollider_C',
+				CLASS_NAME: 'Build_HadronCollider_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_HadronCollider.Recipe_HadronCollider_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			CONVERTER: {
-				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/Converter/Build_Converter.Build_Converter_C'
+				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/Converter/Build_Converter.Build_Converter_C',
+				CLASS_NAME: 'Build_Converter_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_Converter.Recipe_Converter_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			QUANTUM_ENCODER: {
 				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/QuantumEncoder/Build_QuantumEncoder.Build_QuantumEncoder_C',
-				CLASS_NAME: 'Build_QuantumEncoder_C'
+				CLASS_NAME: 'Build_QuantumEncoder_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_QuantumEncoder.Recipe_QuantumEncoder_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 		},
 		POWER_GENERATORS: {
@@ -1915,11 +1953,15 @@ export const EDIT = {
 		STORAGE: {
 			CONTAINER_MK_1: {
 				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/StorageContainerMk1/Build_StorageContainerMk1.Build_StorageContainerMk1_C',
-				CLASS_NAME: 'Build_StorageContainerMk1_C'
+				CLASS_NAME: 'Build_StorageContainerMk1_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_StorageContainerMk1.Recipe_StorageContainerMk1_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			CONTAINER_MK_2: {
 				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/StorageContainerMk2/Build_StorageContainerMk2.Build_StorageContainerMk2_C',
-				CLASS_NAME: 'Build_StorageContainerMk2_C'
+				CLASS_NAME: 'Build_StorageContainerMk2_C',
+				RECIPE: '/Game/FactoryGame/Recipes/Buildings/Recipe_StorageContainerMk2.Recipe_StorageContainerMk2_C',
+				DEFAULT_SWATCH: SWATCH_SLOT_DEFAULT_0
 			},
 			CENTRAL_STORAGE: {
 				TYPE_PATH: '/Game/FactoryGame/Buildable/Factory/CentralStorage/Build_CentralStorage.Build_CentralStorage_C',
@@ -2214,6 +2256,9 @@ export const EDIT = {
 			ENUM_INPUT: 'EFactoryConnectionDirection' + '::FCD_INPUT',
 			ENUM_OUTPUT: 'EFactoryConnectionDirection' + '::FCD_OUTPUT',
 		},
+		PIPE_CONNECTION_FACTORY_COMPONENT: {
+			TYPE_PATH: '/Script/FactoryGame.FGPipeConnectionFactory'
+		},
 		HYPERTUBE_CONNECTION_COMPONENT: {
 			TYPE_PATH: '/Script/FactoryGame.FGPipeConnectionComponentHyper'
 		},
@@ -0,0 +1,23 @@
+/**
+ * Instance names of the game end in a number, like `Persistent_Level:PersistentLevel.Build_ConstructorMk1_C_2147299876`.
+ */
+export namespace InstanceName {
+
+	/**
+	 * replaces the number at the end of an instance name by a random one of the range the game uses, or appends one.
+	 * @param isTaken tells whether a name is already used. Taken names are rolled again.
+	 */
+	export const Create = (instanceName: string, isTaken: (name: string) => boolean = () => false): string => {
+		const base = instanceName.replace(/_\d+$/, '');
+		let name: string;
+		do {
+			name = `${base}_${2 ** 30 + Math.floor(Math.random() * 2 ** 30)}`;
+		} while (isTaken(name));
+		return name;
+	}
+
+	/**
+	 * @returns the class name of a type path, like `Build_ConstructorMk1_C` of `/Game/FactoryGame/Buildable/Factory/ConstructorMk1/Build_ConstructorMk1.Build_ConstructorMk1_C`.
+	 */
+	export const GetClassName = (typePath: string): string => typePath.substring(typePath.lastIndexOf('.') + 1);
+}
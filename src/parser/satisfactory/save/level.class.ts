@@ -1,13 +1,15 @@
 
 import { BinaryReadable } from "../../byte/binary-readable.interface";
 import { ByteWriter } from "../../byte/byte-writer.class";
-import { CorruptSaveError, UnimplementedError } from '../../error/parser.error';
+import { CorruptSaveError, ParserError, UnimplementedError } from '../../error/parser.error';
 import { SaveComponent, isSaveComponent } from "../types/objects/SaveComponent";
 import { SaveEntity, isSaveEntity } from "../types/objects/SaveEntity";
 import { SaveObject } from "../types/objects/SaveObject";
 import { ObjectReference } from "../types/structs/ObjectReference";
 import { ObjectReferencesList } from './object-references-list';
 import { SaveReader } from './save-reader';
+import { SaveVersionAdapter } from './save-version-adapter';
+import { SkippedObjectDiagnostic } from './save.types';
 
 export type Level = {
 	name: string;
@@ -15,22 +17,72 @@ export type Level = {
 	collectables: ObjectReference[];
 }
 
+/**
+ * Lets reading object contents continue after an object failed to parse, by skipping it using its binary size.
+ */
+export type ObjectRecoveryOptions = {
+	levelName: string;
+	onObjectSkipped: (skipped: SkippedObjectDiagnostic) => void;
+};
+
 export namespace Level {
 
 	export const ReadLevel = (reader: SaveReader, levelName: string, buildVersion: number): Level => {
+		const steps = ReadLevelInBatches(reader, levelName, buildVersion);
+		let step = steps.next();
+		while (!step.done) {
+			step = steps.next();
+		}
+		return step.value;
+	}
+
+	/**
+	 * reads a level like {@link ReadLevel}, but pauses after every batch of object contents. So async parsing can yield in between.
+	 */
+	export function* ReadLevelInBatches(reader: SaveReader, levelName: string, buildVersion: number): Generator<void, Level, void> {
 		const level: Level = {
 			name: levelName,
 			objects: [],
 			collectables: []
 		}
+		reader.context.push('level', levelName);
+		const adapter = reader.versionAdapter;
+
+		ReadObjectHeadersSection(reader, level.objects, adapter);
+
+		// checksum for object content size
+		const objectContentsBinLen = SaveVersionAdapter.ReadLevelSectionSize(reader, adapter);
+
+		// objects contents
+		const posBeforeContents = reader.getBufferPosition();
+		const recovery: ObjectRecoveryOptions | undefined = reader.tolerant ? {
+			levelName,
+			onObjectSkipped: skipped => reader.skippedObjects.push(skipped)
+		} : undefined;
+		yield* ReadAllObjectContentsInBatches(levelName, reader, level.objects, buildVersion, reader.onProgressCallback, recovery, adapter);
+		const posAfterContents = reader.getBufferPosition();
+		if (posAfterContents - posBeforeContents !== objectContentsBinLen) {
+			reader.diagnostics.report('LEVEL_SIZE_MISMATCH', `read ${posAfterContents - posBeforeContents} bytes of object contents, but ${objectContentsBinLen} bytes were indicated. Save seems corrupt.`, posAfterContents, reader.context);
+		}
+
+		// collectables 2nd time. Listed here since < U8 and in U8 as well. So this is the best list you can rely on.
+		level.collectables = ObjectReferencesList.ReadList(reader);
+
+		reader.context.pop();
+		return level;
+	}
+
+	/**
+	 * reads the section of object headers of a level, including the collectables that are listed there since U8.
+	 */
+	export const ReadObjectHeadersSection = (reader: SaveReader, objectsList: SaveObject[], adapter: SaveVersionAdapter): void => {
 
 		// checksum object headers.
-		const headersBinLen = reader.readInt32(); // object headers + binary length
-		reader.readInt32();	// 0
+		const headersBinLen = SaveVersionAdapter.ReadLevelSectionSize(reader, adapter); // object headers + binary length
 
 		// object headers
 		const posBeforeHeaders = reader.getBufferPosition();
-		ReadAllObjectHeaders(reader, level.objects);
+		ReadAllObjectHeaders(reader, objectsList);
 
 		// collected, like slugs Only listed here since U8.
 		let remainingSize = headersBinLen - (reader.getBufferPosition() - posBeforeHeaders);
@@ -42,48 +94,39 @@ export namespace Level {
 
 		remainingSize = headersBinLen - (reader.getBufferPosition() - posBeforeHeaders);
 		if (remainingSize !== 0) {
-			console.warn('remaining size not 0. Save may be corrupt.', remainingSize, levelName);
-		}
-
-		// checksum for object content size
-		const objectContentsBinLen = reader.readInt32();
-		reader.readInt32();	// 0
-
-		// objects contents
-		const posBeforeContents = reader.getBufferPosition();
-		ReadAllObjectContents(levelName, reader, level.objects, buildVersion, reader.onProgressCallback);
-		const posAfterContents = reader.getBufferPosition();
-		if (posAfterContents - posBeforeContents !== objectContentsBinLen) {
-			//WARNING
-			console.warn('save seems corrupt.', level.name);
+			reader.diagnostics.report('LEVEL_SIZE_MISMATCH', `remaining size of object headers not 0 but ${remainingSize}. Save may be corrupt.`, reader.getBufferPosition(), reader.context);
 		}
-
-		// collectables 2nd time. Listed here since < U8 and in U8 as well. So this is the best list you can rely on.
-		level.collectables = ObjectReferencesList.ReadList(reader);
-
-		return level;
 	}
 
-	export const SerializeLevel = (writer: ByteWriter, level: Level, buildVersion: number) => {
+	export const SerializeLevel = (writer: ByteWriter, level: Level, buildVersion: number, adapter: SaveVersionAdapter = SaveVersionAdapter.U1_0) => {
 		const lenIndicatorHeaderAndDestroyedEntitiesSize = writer.getBufferPosition();
-		writer.writeInt32(0);	// len indicator
-		writer.writeInt32(0);	// unk
+		SaveVersionAdapter.WriteLevelSectionSizePlaceholder(writer, adapter);	// len indicator
 
 		SerializeAllObjectHeaders(writer, level.objects);
 
 		// <--- destroyed actors is the same as collectables list.
-		ObjectReferencesList.SerializeList(writer, level.collectables);
+		if (adapter.hasCollectablesInHeaders) {
+			ObjectReferencesList.SerializeList(writer, level.collectables);
+		}
 
 		// replace binary size from earlier for - object headers + collectables
-		writer.writeBinarySizeFromPosition(lenIndicatorHeaderAndDestroyedEntitiesSize, lenIndicatorHeaderAndDestroyedEntitiesSize + 8);
+		writer.writeBinarySizeFromPosition(lenIndicatorHeaderAndDestroyedEntitiesSize, lenIndicatorHeaderAndDestroyedEntitiesSize + adapter.levelSectionSizeLength);
 
 		// write entities
-		SerializeAllObjectContents(writer, level.objects, buildVersion, level.name);
+		SerializeAllObjectContents(writer, level.objects, buildVersion, level.name, adapter);
 
 		ObjectReferencesList.SerializeList(writer, level.collectables);
 	}
 
-	export const ReadAllObjectContents = (levelName: string, reader: BinaryReadable, objectsList: SaveObject[], buildVersion: number, onProgressCallback: (progress: number, msg?: string) => void): void => {
+	export const ReadAllObjectContents = (levelName: string, reader: BinaryReadable, objectsList: SaveObject[], buildVersion: number, onProgressCallback: (progress: number, msg?: string) => void, recovery?: ObjectRecoveryOptions, adapter: SaveVersionAdapter = SaveVersionAdapter.U1_0): void => {
+		const steps = ReadAllObjectContentsInBatches(levelName, reader, objectsList, buildVersion, onProgressCallback, recovery, adapter);
+		while (!steps.next().done) { }
+	}
+
+	/**
+	 * reads the object contents like {@link ReadAllObjectContents}, but pauses after every batch.
+	 */
+	export function* ReadAllObjectContentsInBatches(levelName: string, reader: BinaryReadable, objectsList: SaveObject[], buildVersion: number, onProgressCallback: (progress: number, msg?: string) => void, recovery?: ObjectRecoveryOptions, adapter: SaveVersionAdapter = SaveVersionAdapter.U1_0): Generator<void, void, void> {
 		const countEntities = reader.readInt32();
 		if (countEntities !== objectsList.length) {
 			throw new Error(`possibly corrupt. entity content count ${countEntities} does not equal object count of ${objectsList.length}`);
@@ -94,59 +137,109 @@ export namespace Level {
 		let readObjectsCount = 0;
 		let lastProgressReport = 0;
 		while (readObjectsCount < countEntities) {
-			ReadNObjectContents(reader, Math.min(batchSize, countEntities - readObjectsCount), objectsList, readObjectsCount);
+			ReadNObjectContents(reader, Math.min(batchSize, countEntities - readObjectsCount), objectsList, readObjectsCount, buildVersion, recovery, adapter);
 			readObjectsCount += Math.min(batchSize, countEntities - readObjectsCount);
 
 			if (readObjectsCount - lastProgressReport > batchSize) {
 				onProgressCallback(reader.getBufferProgress(), `read object count [${(readObjectsCount)}/${(countEntities)}] in level ${levelName}`);
 				lastProgressReport = readObjectsCount;
 			}
+			yield;
 		}
 	}
 
-	export const ReadNObjectContents = (reader: BinaryReadable, count: number, objects: SaveObject[], objectListOffset: number = 0, buildVersion: number = 0) => {
+	export const ReadNObjectContents = (reader: BinaryReadable, count: number, objects: SaveObject[], objectListOffset: number = 0, buildVersion: number = 0, recovery?: ObjectRecoveryOptions, adapter: SaveVersionAdapter = SaveVersionAdapter.U1_0) => {
 		for (let i = 0; i < count; i++) {
-			objects[i + objectListOffset].objectVersion = reader.readInt32();	// 36, 41..... 42, 46 at 1.0 Release - so its probably an object version
-			objects[i + objectListOffset].unknownType2 = reader.readInt32();	//1 - //occasionally 0 ?
+			const obj = objects[i + objectListOffset];
+			if (adapter.hasObjectVersion) {
+				obj.objectVersion = reader.readInt32();	// 36, 41..... 42, 46 at 1.0 Release - so its probably an object version
+				obj.unknownType2 = reader.readInt32();	//1 - //occasionally 0 ?
+			}
 			const binarySize = reader.readInt32();
 
 			const before = reader.getBufferPosition();
-			if (isSaveEntity(objects[i + objectListOffset])) {
-				SaveEntity.ParseData(objects[i + objectListOffset] as SaveEntity, binarySize, reader, buildVersion, objects[i + objectListOffset].typePath);
-			} else if (isSaveComponent(objects[i + objectListOffset])) {
-				SaveComponent.ParseData(objects[i + objectListOffset] as SaveComponent, binarySize, reader, buildVersion, objects[i + objectListOffset].typePath);
+			const contextDepth = reader.context.getDepth();
+			reader.context.push('object', obj.instanceName);
+			try {
+				if (isSaveEntity(obj)) {
+					SaveEntity.ParseData(obj, binarySize, reader, buildVersion, obj.typePath);
+				} else if (isSaveComponent(obj)) {
+					SaveComponent.ParseData(obj, binarySize, reader, buildVersion, obj.typePath);
+				}
+
+				const after = reader.getBufferPosition();
+				if (after - before !== binarySize) {
+					throw new CorruptSaveError(`Could not read entity ${obj.instanceName}, as ${after - before} bytes were read, but ${binarySize} bytes were indicated.`);
+				}
+			} catch (error) {
+				if (recovery === undefined) {
+					throw error;
+				}
+
+				const parserError = ParserError.WithContext(error, reader.context, reader.getBufferPosition());
+				reader.context.truncate(contextDepth + 1);
+
+				// jump back and keep the object data as it is.
+				reader.skipBytes(before - reader.getBufferPosition());
+				obj.properties = {};
+				obj.specialProperties = { type: 'EmptySpecialProperties' };
+				obj.trailingData = [];
+				obj.unparsedData = Array.from(reader.readBytes(binarySize));
+
+				reader.diagnostics.report('OBJECT_SKIPPED', `Skipped object of type ${obj.typePath}. ${parserError.message}`, before, reader.context);
+				recovery.onObjectSkipped({
+					levelName: recovery.levelName,
+					instanceName: obj.instanceName,
+					typePath: obj.typePath,
+					offset: before,
+					binarySize,
+					error: parserError.message
+				});
 			}
+			reader.context.truncate(contextDepth);
+		}
+	}
 
-			const after = reader.getBufferPosition();
-			if (after - before !== binarySize) {
-				throw new CorruptSaveError(`Could not read entity ${objects[i + objectListOffset].instanceName}, as ${after - before} bytes were read, but ${binarySize} bytes were indicated.`);
-			}
+	/**
+	 * skips the contents of the next object, using their binary size.
+	 */
+	export const SkipObjectContents = (reader: BinaryReadable, adapter: SaveVersionAdapter = SaveVersionAdapter.U1_0): void => {
+		if (adapter.hasObjectVersion) {
+			reader.skipBytes(8);	// object version + unknown
 		}
+		const binarySize = reader.readInt32();
+		reader.skipBytes(binarySize);
 	}
 
-	export const SerializeAllObjectContents = (writer: ByteWriter, objects: (SaveEntity | SaveComponent)[], buildVersion: number, levelName: string): void => {
+	export const SerializeAllObjectContents = (writer: ByteWriter, objects: (SaveEntity | SaveComponent)[], buildVersion: number, levelName: string, adapter: SaveVersionAdapter = SaveVersionAdapter.U1_0): void => {
 		const lenIndicatorEntities = writer.getBufferPosition();
-		writer.writeInt32(0);
-
-		writer.writeInt32(0);	// 0
+		SaveVersionAdapter.WriteLevelSectionSizePlaceholder(writer, adapter);
 
 		writer.writeInt32(objects.length);
 		for (const obj of objects) {
+			SerializeObjectContents(writer, obj, buildVersion, adapter);
+		}
+		writer.writeBinarySizeFromPosition(lenIndicatorEntities, lenIndicatorEntities + adapter.levelSectionSizeLength);
+	}
 
+	export const SerializeObjectContents = (writer: ByteWriter, obj: SaveEntity | SaveComponent, buildVersion: number, adapter: SaveVersionAdapter = SaveVersionAdapter.U1_0): void => {
+		if (adapter.hasObjectVersion) {
 			writer.writeInt32(obj.objectVersion);
 			writer.writeInt32(obj.unknownType2);
-			const lenReplacementPosition = writer.getBufferPosition();
-			writer.writeInt32(0);
-
-			if (isSaveEntity(obj)) {
-				SaveEntity.SerializeData(writer, obj, buildVersion);
-			} else if (isSaveComponent(obj)) {
-				SaveComponent.SerializeData(writer, obj, buildVersion);
-			}
+		}
+		const lenReplacementPosition = writer.getBufferPosition();
+		writer.writeInt32(0);
 
-			writer.writeBinarySizeFromPosition(lenReplacementPosition, lenReplacementPosition + 4);
+		if (obj.unparsedData !== undefined) {
+			// object that could not be parsed, written back unchanged.
+			writer.writeBytesArray(obj.unparsedData);
+		} else if (isSaveEntity(obj)) {
+			SaveEntity.SerializeData(writer, obj, buildVersion);
+		} else if (isSaveComponent(obj)) {
+			SaveComponent.SerializeData(writer, obj, buildVersion);
 		}
-		writer.writeBinarySizeFromPosition(lenIndicatorEntities, lenIndicatorEntities + 8);
+
+		writer.writeBinarySizeFromPosition(lenReplacementPosition, lenReplacementPosition + 4);
 	}
 
 	export const ReadAllObjectHeaders = (reader: BinaryReadable, objectsList: SaveObject[]): void => {
@@ -188,20 +281,23 @@ export namespace Level {
 	export const SerializeAllObjectHeaders = (writer: ByteWriter, objects: (SaveEntity | SaveComponent)[]): void => {
 		writer.writeInt32(objects.length);
 		for (const obj of objects) {
+			SerializeObjectHeader(writer, obj);
+		}
+	}
 
-			switch (obj.type) {
-				case 'SaveEntity':
-					writer.writeInt32(SaveEntity.TypeID);
-					SaveEntity.SerializeHeader(writer, obj);
-					break;
-				case 'SaveComponent':
-					writer.writeInt32(SaveComponent.TypeID);
-					SaveComponent.SerializeHeader(writer, obj);
-					break;
-				default:
-					throw new UnimplementedError(`Unknown object type ${(obj as unknown as any).type}. Not implemented.`);
-					break;
-			}
+	export const SerializeObjectHeader = (writer: ByteWriter, obj: SaveEntity | SaveComponent): void => {
+		switch (obj.type) {
+			case 'SaveEntity':
+				writer.writeInt32(SaveEntity.TypeID);
+				SaveEntity.SerializeHeader(writer, obj);
+				break;
+			case 'SaveComponent':
+				writer.writeInt32(SaveComponent.TypeID);
+				SaveComponent.SerializeHeader(writer, obj);
+				break;
+			default:
+				throw new UnimplementedError(`Unknown object type ${(obj as unknown as any).type}. Not implemented.`);
+				break;
 		}
 	}
 }
\ No newline at end of file
@@ -0,0 +1,254 @@
+import { SaveComponent, isSaveComponent } from '../types/objects/SaveComponent';
+import { SaveEntity, isSaveEntity } from '../types/objects/SaveEntity';
+import { isArrayProperty } from '../types/property/generic/ArrayProperty';
+import { BasicProperty } from '../types/property/generic/BasicProperty';
+import { isSetProperty } from '../types/property/generic/SetProperty';
+import { ObjectReference } from '../types/structs/ObjectReference';
+import { SatisfactorySave } from './satisfactory-save';
+import { SaveObjectIndex } from './save-object-index';
+
+/**
+ * A reference from one object of a save to another object.
+ */
+export type ObjectReferenceEdge = {
+	source: SaveEntity | SaveComponent;
+
+	/** where the reference was found in the source object, e.g. `properties.mOwningInventory.value` or `components[0]`. */
+	path: string;
+	reference: ObjectReference;
+
+	/** the referenced object, or undefined if it is not part of the save. */
+	target?: SaveEntity | SaveComponent;
+};
+
+/**
+ * Collects the references between the objects of a parsed {@link SatisfactorySave}, so you can ask which objects reference an object, and which references point nowhere.
+ * References are found in properties (also nested in arrays, sets, maps and structs), special properties, components and the parent names of objects.
+ * References with an empty path name are null references and are left out. References with an empty level name point to assets, like item descriptors or recipes, so they are not expected to be part of the save.
+ * The graph is a snapshot. After changing the save, call {@link rebuild}, or keep it up to date with {@link remove}, {@link removeAll} and {@link removeEdges}.
+ */
+export class ObjectReferenceGraph {
+
+	private referencesFrom = new Map<string, ObjectReferenceEdge[]>();
+	private referencesTo = new Map<string, ObjectReferenceEdge[]>();
+	private danglingReferences: ObjectReferenceEdge[] = [];
+
+	constructor(public readonly save: SatisfactorySave, public readonly index: SaveObjectIndex = new SaveObjectIndex(save)) {
+		this.rebuild();
+	}
+
+	/**
+	 * collects all references of the save again. Rebuilds the index as well.
+	 */
+	public rebuild(): void {
+		this.index.rebuild();
+		this.referencesFrom.clear();
+		this.referencesTo.clear();
+		this.danglingReferences = [];
+
+		for (const level of this.save.levels) {
+			for (const object of level.objects) {
+				this.collectReferences(object, level.name);
+			}
+		}
+	}
+
+	/**
+	 * @returns the references that the object with the given instance name holds.
+	 */
+	public getReferencesFrom(instanceName: string): ObjectReferenceEdge[] {
+		return this.referencesFrom.get(instanceName) ?? [];
+	}
+
+	/**
+	 * @returns the references that point to the given path name, whether it is part of the save or not.
+	 */
+	public getReferencesTo(pathName: string): ObjectReferenceEdge[] {
+		return this.referencesTo.get(pathName) ?? [];
+	}
+
+	/**
+	 * @returns the distinct objects that reference the given path name.
+	 */
+	public getReferrers(pathName: string): (SaveEntity | SaveComponent)[] {
+		return Array.from(new Set(this.getReferencesTo(pathName).map(edge => edge.source)));
+	}
+
+	/**
+	 * @returns the references to objects of a level, that are not part of the save.
+	 */
+	public getDanglingReferences(): ObjectReferenceEdge[] {
+		return this.danglingReferences;
+	}
+
+	/**
+	 * removes an object from the save and the graph, together with the references it holds. References of other objects to it become dangling.
+	 * @returns the removed object, or undefined if the save does not contain it.
+	 */
+	public remove(instanceName: string): SaveEntity | SaveComponent | undefined {
+		return this.removeAll([instanceName])[0];
+	}
+
+	/**
+	 * removes objects from the save and the graph, like {@link remove}, with a single pass over each level they are part of.
+	 * @returns the removed objects. Instance names without an object are skipped.
+	 */
+	public removeAll(instanceNames: string[]): (SaveEntity | SaveComponent)[] {
+		const removed = this.index.removeAll(instanceNames);
+		const removedObjects = new Set<SaveEntity | SaveComponent>(removed);
+		const names = new Set(removed.map(object => object.instanceName));
+
+		this.removeEdges(Array.from(names).flatMap(name => this.getReferencesFrom(name)).filter(edge => removedObjects.has(edge.source)));
+		for (const name of names) {
+			for (const edge of this.getReferencesTo(name)) {
+				if (edge.target !== undefined && removedObjects.has(edge.target)) {
+
+					// another object with the same instance name may take its place.
+					edge.target = this.index.get(name);
+					if (edge.target === undefined && edge.reference.levelName !== '') {
+						this.danglingReferences.push(edge);
+					}
+				}
+			}
+		}
+		return removed;
+	}
+
+	/**
+	 * drops references from the graph, for example before they are cleared in their source objects. The objects themselves are not changed.
+	 */
+	public removeEdges(edges: ObjectReferenceEdge[]): void {
+		const removed = new Set(edges);
+		RemoveFrom(this.referencesFrom, new Set(edges.map(edge => edge.source.instanceName)), removed);
+		RemoveFrom(this.referencesTo, new Set(edges.map(edge => edge.reference.pathName)), removed);
+		this.danglingReferences = this.danglingReferences.filter(edge => !removed.has(edge));
+	}
+
+	public resolve(reference: ObjectReference): SaveEntity | SaveComponent | undefined {
+		return this.index.get(reference.pathName);
+	}
+
+	/**
+	 * @returns the components of the entity. Those are the objects that name the entity as parent, and the components the entity lists, in case their parent name is missing.
+	 */
+	public getComponentsOf(entity: SaveEntity): (SaveEntity | SaveComponent)[] {
+		return Array.from(new Set<SaveEntity | SaveComponent>([
+			...this.getReferencesTo(entity.instanceName).filter(edge => edge.path === 'parentEntityName').map(edge => edge.source),
+			...entity.components.map(reference => this.resolve(reference)).filter(component => component !== undefined && isSaveComponent(component)) as SaveComponent[]
+		]));
+	}
+
+	/**
+	 * calls back for every {@link ObjectReference} that is held by the object, in its properties, special properties and components.
+	 * The parent names of the object are no object references, so they are left out.
+	 */
+	public static ForEachReference(object: SaveEntity | SaveComponent, onReference: (reference: ObjectReference, path: string) => void): void {
+		const visited = new Set<object>();
+		if (isSaveEntity(object)) {
+			FindReferences(object.components, 'components', visited, onReference);
+		}
+		FindReferences(object.properties, 'properties', visited, onReference);
+		FindReferences(object.specialProperties, 'specialProperties', visited, onReference);
+	}
+
+	/**
+	 * removes the given references from the object. They are removed from the components of an entity and from array and set properties. Other references become null references.
+	 * @param references the references to remove, like they were reported by {@link ForEachReference}. They are compared by identity.
+	 */
+	public static RemoveReferences(object: SaveEntity | SaveComponent, references: Set<ObjectReference>): void {
+		if (isSaveEntity(object)) {
+			object.components = object.components.filter(reference => !references.has(reference));
+		}
+		for (const property of Object.values(object.properties).flat() as BasicProperty[]) {
+			if (isArrayProperty(property) || isSetProperty(property)) {
+				property.values = property.values.filter(value => !references.has(value as ObjectReference));
+			}
+		}
+
+		ObjectReferenceGraph.ForEachReference(object, reference => {
+			if (references.has(reference)) {
+				reference.levelName = '';
+				reference.pathName = '';
+			}
+		});
+	}
+
+	private collectReferences(object: SaveEntity | SaveComponent, levelName: string): void {
+		const onReference = (reference: ObjectReference, path: string) => this.addEdge(object, reference, path);
+
+		if (object.parentEntityName) {
+			onReference({ levelName, pathName: object.parentEntityName }, 'parentEntityName');
+		}
+		if (isSaveEntity(object) && object.parentObjectName) {
+			onReference({ levelName: object.parentObjectRoot, pathName: object.parentObjectName }, 'parentObjectName');
+		}
+
+		ObjectReferenceGraph.ForEachReference(object, onReference);
+	}
+
+	private addEdge(source: SaveEntity | SaveComponent, reference: ObjectReference, path: string): void {
+		if (reference.pathName === '') {
+			return;
+		}
+
+		const edge: ObjectReferenceEdge = { source, path, reference, target: this.resolve(reference) };
+
+		AppendTo(this.referencesFrom, source.instanceName, edge);
+		AppendTo(this.referencesTo, reference.pathName, edge);
+		if (edge.target === undefined && reference.levelName !== '') {
+			this.danglingReferences.push(edge);
+		}
+	}
+}
+
+const AppendTo = <T>(map: Map<string, T[]>, key: string, value: T): void => {
+	const values = map.get(key);
+	if (values === undefined) {
+		map.set(key, [value]);
+	} else {
+		values.push(value);
+	}
+};
+
+const RemoveFrom = <T>(map: Map<string, T[]>, keys: Set<string>, removed: Set<T>): void => {
+	for (const key of keys) {
+		const values = map.get(key)?.filter(value => !removed.has(value));
+		if (values === undefined || values.length === 0) {
+			map.delete(key);
+		} else {
+			map.set(key, values);
+		}
+	}
+};
+
+const IsObjectReference = (value: any): value is ObjectReference => typeof value.levelName === 'string' && typeof value.pathName === 'string';
+
+/**
+ * walks through any value of a property and reports everything that looks like an {@link ObjectReference}.
+ * That way, references are found in all property types and special properties, without knowing their structure.
+ */
+const FindReferences = (value: unknown, path: string, visited: Set<object>, onReference: (reference: ObjectReference, path: string) => void): void => {
+	if (value === null || typeof value !== 'object' || visited.has(value)) {
+		return;
+	}
+
+	if (IsObjectReference(value)) {
+		onReference(value, path);
+		return;
+	}
+
+	visited.add(value);
+	if (Array.isArray(value)) {
+		for (let i = 0; i < value.length; i++) {
+			if (typeof value[i] === 'object') {
+				FindReferences(value[i], `${path}[${i}]`, visited, onReference);
+			}
+		}
+	} else if (!ArrayBuffer.isView(value)) {
+		for (const [key, child] of Object.entries(value)) {
+			if (typeof child === 'object') {
+				FindReferences(child, `${path}.${key}`, visited, onReference);
+			}
+		}
+	}
+};
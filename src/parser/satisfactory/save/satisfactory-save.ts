@@ -1,7 +1,8 @@
+import { DiagnosticsSummary } from "../../diagnostics/parser.diagnostic";
 import { ChunkCompressionInfo } from "../../file.types";
 import { Level } from './level.class';
 import { Grids, SaveBodyValidation } from "./save-reader";
-import { SatisfactorySaveHeader } from "./save.types";
+import { SatisfactorySaveHeader, SkippedObjectDiagnostic } from "./save.types";
 
 export class SatisfactorySave {
 	public name: string;
@@ -10,6 +11,8 @@ export class SatisfactorySave {
 	public grids: Grids = {};
 	public levels: Level[] = [];
 	public compressionInfo?: ChunkCompressionInfo;
+	public skippedObjects?: SkippedObjectDiagnostic[];
+	public diagnostics?: DiagnosticsSummary;
 
 	constructor(name: string, header: SatisfactorySaveHeader) {
 		this.name = name;
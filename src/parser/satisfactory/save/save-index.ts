@@ -0,0 +1,193 @@
+import { ParserError } from '../../error/parser.error';
+import { ChunkCompressionInfo } from '../../file.types';
+import { SaveComponent } from '../types/objects/SaveComponent';
+import { SaveEntity } from '../types/objects/SaveEntity';
+import { ObjectReference } from '../types/structs/ObjectReference';
+import { Level } from './level.class';
+import { ObjectReferencesList } from './object-references-list';
+import { Grids, SaveBodyValidation, SaveReader } from './save-reader';
+import { SaveVersionAdapter } from './save-version-adapter';
+import { SatisfactorySaveHeader } from './save.types';
+
+/**
+ * Where a level is located in the decompressed save body.
+ * @start the position of the binary size of the object headers.
+ * @headersStart the position of the object headers, right after their binary size.
+ * @contentsStart the position of the object contents, right after their binary size.
+ * @collectablesStart the position of the collectables list after the object contents.
+ */
+export type LevelIndexEntry = {
+	name: string;
+	start: number;
+	headersStart: number;
+	headersBinLen: number;
+	contentsStart: number;
+	contentsBinLen: number;
+	collectablesStart: number;
+	objectCount: number;
+};
+
+type ObjectLocation = {
+	headerStart: number;
+	contentStart: number;
+};
+
+/**
+ * Knows where the levels of a save are, without having parsed their objects.
+ * Levels and single objects get parsed on demand from the decompressed save body, which the index keeps.
+ */
+export class SaveIndex {
+
+	public gridHash: SaveBodyValidation = { version: 6, hash1: [0, 0, 0, 0], hash2: [0, 0, 0, 0] };
+	public grids: Grids = {};
+	public levels: LevelIndexEntry[] = [];
+	public compressionInfo?: ChunkCompressionInfo;
+
+	// where the objects of a level are, found on demand per level.
+	private objectLocations = new Map<string, Map<string, ObjectLocation>>();
+
+	constructor(public name: string, public header: SatisfactorySaveHeader, private reader: SaveReader) { }
+
+	/**
+	 * reads the level boundaries by skipping over the objects, using the binary sizes of the level sections.
+	 * The reader has to be positioned at the start of the levels.
+	 */
+	public static ReadLevelIndex(reader: SaveReader, mapName: string): LevelIndexEntry[] {
+		const adapter = reader.versionAdapter;
+		const entries: LevelIndexEntry[] = [];
+		const levelCount = reader.readInt32();
+
+		for (let i = 0; i <= levelCount; i++) {
+			const name = i === levelCount ? mapName : reader.readString();
+			const start = reader.getBufferPosition();
+
+			const headersBinLen = SaveVersionAdapter.ReadLevelSectionSize(reader, adapter);
+			const headersStart = reader.getBufferPosition();
+			const objectCount = reader.readInt32();
+			reader.skipBytes(headersStart + headersBinLen - reader.getBufferPosition());
+
+			const contentsBinLen = SaveVersionAdapter.ReadLevelSectionSize(reader, adapter);
+			const contentsStart = reader.getBufferPosition();
+			reader.skipBytes(contentsBinLen);
+
+			const collectablesStart = reader.getBufferPosition();
+			ObjectReferencesList.ReadList(reader);
+
+			entries.push({ name, start, headersStart, headersBinLen, contentsStart, contentsBinLen, collectablesStart, objectCount });
+		}
+
+		return entries;
+	}
+
+	public getLevelNames(): string[] {
+		return this.levels.map(level => level.name);
+	}
+
+	public getLevelEntry(levelName: string): LevelIndexEntry {
+		const entry = this.levels.find(level => level.name === levelName);
+		if (entry === undefined) {
+			throw new ParserError('ParserError', `Level ${levelName} is not part of the save.`);
+		}
+		return entry;
+	}
+
+	/**
+	 * parses a whole level with all of its objects.
+	 */
+	public parseLevel(levelName: string): Level {
+		const entry = this.getLevelEntry(levelName);
+		this.jumpTo(entry.start);
+		return this.withContext(() => Level.ReadLevel(this.reader, entry.name, this.header.buildVersion));
+	}
+
+	/**
+	 * parses only the object headers of a level. Their properties stay empty.
+	 */
+	public parseObjectHeaders(levelName: string): (SaveEntity | SaveComponent)[] {
+		const entry = this.getLevelEntry(levelName);
+		const objects: (SaveEntity | SaveComponent)[] = [];
+		this.jumpTo(entry.headersStart);
+		this.withContext(() => Level.ReadAllObjectHeaders(this.reader, objects));
+		return objects;
+	}
+
+	public parseCollectables(levelName: string): ObjectReference[] {
+		const entry = this.getLevelEntry(levelName);
+		this.jumpTo(entry.collectablesStart);
+		return ObjectReferencesList.ReadList(this.reader);
+	}
+
+	/**
+	 * @returns the instance names of all objects of a level.
+	 */
+	public getInstanceNames(levelName: string): string[] {
+		return Array.from(this.getObjectLocations(levelName).keys());
+	}
+
+	/**
+	 * parses a single object of a level.
+	 * @returns the object, or undefined if the level has no object of that instance name.
+	 */
+	public parseObject(levelName: string, instanceName: string): SaveEntity | SaveComponent | undefined {
+		const location = this.getObjectLocations(levelName).get(instanceName);
+		if (location === undefined) {
+			return undefined;
+		}
+
+		const adapter = this.reader.versionAdapter;
+		return this.withContext(() => {
+			this.reader.context.push('level', levelName);
+			this.jumpTo(location.headerStart);
+			const objects = Level.ReadNObjectHeaders(this.reader, 1);
+			this.jumpTo(location.contentStart);
+			Level.ReadNObjectContents(this.reader, 1, objects, 0, this.header.buildVersion, undefined, adapter);
+			return objects[0];
+		});
+	}
+
+	/**
+	 * @returns where the header and the contents of each object of a level start. They are found once by skipping over the objects.
+	 */
+	private getObjectLocations(levelName: string): Map<string, ObjectLocation> {
+		const entry = this.getLevelEntry(levelName);
+		let locations = this.objectLocations.get(entry.name);
+		if (locations === undefined) {
+			const adapter = this.reader.versionAdapter;
+			const instanceNames: string[] = [];
+			const headerStarts: number[] = [];
+			this.withContext(() => {
+				this.jumpTo(entry.headersStart);
+				const count = this.reader.readInt32();
+				for (let i = 0; i < count; i++) {
+					headerStarts.push(this.reader.getBufferPosition());
+					instanceNames.push(Level.ReadNObjectHeaders(this.reader, 1)[0].instanceName);
+				}
+			});
+
+			locations = new Map<string, ObjectLocation>();
+			this.jumpTo(entry.contentsStart);
+			const count = this.reader.readInt32();
+			for (let i = 0; i < count; i++) {
+				locations.set(instanceNames[i], { headerStart: headerStarts[i], contentStart: this.reader.getBufferPosition() });
+				Level.SkipObjectContents(this.reader, adapter);
+			}
+			this.objectLocations.set(entry.name, locations);
+		}
+		return locations;
+	}
+
+	private jumpTo(position: number): void {
+		this.reader.skipBytes(position - this.reader.getBufferPosition());
+	}
+
+	private withContext<T>(read: () => T): T {
+		const contextDepth = this.reader.context.getDepth();
+		try {
+			return read();
+		} catch (error) {
+			throw ParserError.WithContext(error, this.reader.context, this.reader.getBufferPosition());
+		} finally {
+			this.reader.context.truncate(contextDepth);
+		}
+	}
+}
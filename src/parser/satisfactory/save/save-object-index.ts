@@ -0,0 +1,171 @@
+import { ParserError } from '../../error/parser.error';
+import { SaveComponent } from '../types/objects/SaveComponent';
+import { SaveEntity } from '../types/objects/SaveEntity';
+import { Level } from './level.class';
+import { SatisfactorySave } from './satisfactory-save';
+
+/**
+ * Looks up the objects of a parsed {@link SatisfactorySave} by instance name, type path and level, without looping through all levels.
+ * The index only stays consistent if objects are added and removed through it. After changing the levels directly, call {@link rebuild}.
+ * Instance names are expected to be unique within a save. If not, lookups by instance name return the first object, and after removing it the next one.
+ */
+export class SaveObjectIndex {
+
+	private levelsByName = new Map<string, Level>();
+	private objectsByInstanceName = new Map<string, IndexEntry>();
+	private duplicatesByInstanceName = new Map<string, IndexEntry[]>();
+	private objectsByTypePath = new Map<string, Set<SaveEntity | SaveComponent>>();
+
+	constructor(public readonly save: SatisfactorySave) {
+		this.rebuild();
+	}
+
+	/**
+	 * indexes all objects of the save again.
+	 */
+	public rebuild(): void {
+		this.levelsByName.clear();
+		this.objectsByInstanceName.clear();
+		this.duplicatesByInstanceName.clear();
+		this.objectsByTypePath.clear();
+
+		for (const level of this.save.levels) {
+			this.levelsByName.set(level.name, level);
+			for (const object of level.objects) {
+				this.indexObject(object, level);
+			}
+		}
+	}
+
+	public get(instanceName: string): SaveEntity | SaveComponent | undefined {
+		return this.objectsByInstanceName.get(instanceName)?.object;
+	}
+
+	public has(instanceName: string): boolean {
+		return this.objectsByInstanceName.has(instanceName);
+	}
+
+	/**
+	 * @returns the level that contains the object with the given instance name.
+	 */
+	public getLevelOf(instanceName: string): Level | undefined {
+		return this.objectsByInstanceName.get(instanceName)?.level;
+	}
+
+	/**
+	 * @returns all objects of the given type path, in the order they were indexed.
+	 */
+	public getByTypePath(typePath: string): (SaveEntity | SaveComponent)[] {
+		return Array.from(this.objectsByTypePath.get(typePath) ?? []);
+	}
+
+	public getTypePaths(): string[] {
+		return Array.from(this.objectsByTypePath.keys());
+	}
+
+	public getLevel(levelName: string): Level | undefined {
+		return this.levelsByName.get(levelName);
+	}
+
+	public getObjectsInLevel(levelName: string): (SaveEntity | SaveComponent)[] {
+		return this.levelsByName.get(levelName)?.objects ?? [];
+	}
+
+	/**
+	 * adds an object to the end of a level and indexes it.
+	 * @param levelName the level to add the object to. By default, the persistent level.
+	 */
+	public add(object: SaveEntity | SaveComponent, levelName: string = this.save.header.mapName): void {
+		const level = this.levelsByName.get(levelName);
+		if (level === undefined) {
+			throw new ParserError('ParserError', `Level ${levelName} is not part of the save.`);
+		}
+		if (this.objectsByInstanceName.has(object.instanceName)) {
+			throw new ParserError('ParserError', `An object with instance name ${object.instanceName} is already part of the save.`);
+		}
+
+		level.objects.push(object);
+		this.indexObject(object, level);
+	}
+
+	/**
+	 * removes an object from its level and from the index.
+	 * This takes as long as a pass over the level, so use {@link removeAll} to remove many objects.
+	 * @returns the removed object, or undefined if there is no object with the given instance name.
+	 */
+	public remove(instanceName: string): SaveEntity | SaveComponent | undefined {
+		return this.removeAll([instanceName])[0];
+	}
+
+	/**
+	 * removes objects from their levels and from the index, with a single pass over each level they are part of.
+	 * @returns the removed objects. Instance names without an object are skipped.
+	 */
+	public removeAll(instanceNames: string[]): (SaveEntity | SaveComponent)[] {
+		const removed: (SaveEntity | SaveComponent)[] = [];
+		const removedByLevel = new Map<Level, Set<SaveEntity | SaveComponent>>();
+		for (const instanceName of instanceNames) {
+			const entry = this.objectsByInstanceName.get(instanceName);
+			if (entry === undefined) {
+				continue;
+			}
+
+			this.unindexObject(entry);
+			removed.push(entry.object);
+			const ofLevel = removedByLevel.get(entry.level) ?? new Set();
+			ofLevel.add(entry.object);
+			removedByLevel.set(entry.level, ofLevel);
+		}
+
+		// compacts the levels in place, so references to their object arrays stay valid.
+		for (const [level, objects] of removedByLevel) {
+			let kept = 0;
+			for (const object of level.objects) {
+				if (!objects.has(object)) {
+					level.objects[kept++] = object;
+				}
+			}
+			level.objects.length = kept;
+		}
+
+		return removed;
+	}
+
+	private indexObject(object: SaveEntity | SaveComponent, level: Level): void {
+		if (!this.objectsByInstanceName.has(object.instanceName)) {
+			this.objectsByInstanceName.set(object.instanceName, { object, level });
+		} else {
+			const duplicates = this.duplicatesByInstanceName.get(object.instanceName) ?? [];
+			duplicates.push({ object, level });
+			this.duplicatesByInstanceName.set(object.instanceName, duplicates);
+		}
+
+		let ofTypePath = this.objectsByTypePath.get(object.typePath);
+		if (ofTypePath === undefined) {
+			ofTypePath = new Set();
+			this.objectsByTypePath.set(object.typePath, ofTypePath);
+		}
+		ofTypePath.add(object);
+	}
+
+	private unindexObject(entry: IndexEntry): void {
+		const instanceName = entry.object.instanceName;
+		const duplicates = this.duplicatesByInstanceName.get(instanceName);
+		if (duplicates !== undefined) {
+			this.objectsByInstanceName.set(instanceName, duplicates.shift()!);
+			if (duplicates.length === 0) {
+				this.duplicatesByInstanceName.delete(instanceName);
+			}
+		} else {
+			this.objectsByInstanceName.delete(instanceName);
+		}
+
+		const ofTypePath = this.objectsByTypePath.get(entry.object.typePath);
+		ofTypePath?.delete(entry.object);
+		if (ofTypePath?.size === 0) {
+			this.objectsByTypePath.delete(entry.object.typePath);
+		}
+	}
+}
+
+type IndexEntry = { object: SaveEntity | SaveComponent, level: Level };
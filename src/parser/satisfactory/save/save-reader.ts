@@ -6,7 +6,8 @@ import { CompressionLibraryError, CorruptSaveError, ParserError, UnsupportedVers
 import { ChunkCompressionInfo } from "../../file.types";
 import { MD5Hash } from '../types/structs/MD5Hash';
 import { Level } from './level.class';
-import { RoughSaveVersion, SatisfactorySaveHeader } from "./save.types";
+import { SaveVersionAdapter } from './save-version-adapter';
+import { RoughSaveVersion, SatisfactorySaveHeader, SkippedObjectDiagnostic } from "./save.types";
 
 export const DEFAULT_SATISFACTORY_CHUNK_HEADER_SIZE = 49;
 
@@ -37,6 +38,13 @@ export class SaveReader extends ByteReader {
 		chunkHeaderSize: DEFAULT_SATISFACTORY_CHUNK_HEADER_SIZE
 	};
 
+	// how the body is laid out, depending on the game version of the save. Set when reading the header.
+	public versionAdapter: SaveVersionAdapter = SaveVersionAdapter.U1_0;
+
+	// whether objects that fail to parse get skipped instead of aborting.
+	public tolerant: boolean = false;
+	public skippedObjects: SkippedObjectDiagnostic[] = [];
+
 	// the number of .net ticks at the unix epoch
 	public static readonly EPOCH_TICKS = 621355968000000000n;
 
@@ -46,7 +54,7 @@ export class SaveReader extends ByteReader {
 
 	public expect = (value: any, expected: any) => {
 		if (value !== expected) {
-			console.warn(`Read a value that's usually ${expected}, but this time ${value}. Meaning unclear. Raise an issue or contact me if you want.`);
+			this.diagnostics.report('UNEXPECTED_VALUE', `Read a value that's usually ${expected}, but this time ${value}. Meaning unclear. Raise an issue or contact me if you want.`, this.getBufferPosition(), this.context);
 		}
 	};
 
@@ -107,10 +115,10 @@ export class SaveReader extends ByteReader {
 			this.header.creativeModeEnabled = this.readInt32() == 1;
 		}
 
-		if (this.header.saveVersion >= 21) {
-			// all good, ready to read chunks now.
-		} else {
-			throw new UnsupportedVersionError("The save version is too old to support encoding currently. Save in newer game version.");
+		// headers of saves before U6 can still be read, their body not.
+		const roughSaveVersion = SaveReader.GetRoughSaveVersion(this.header.saveVersion, this.header.saveHeaderType);
+		if (roughSaveVersion !== '<U6') {
+			this.versionAdapter = SaveVersionAdapter.Get(roughSaveVersion);
 		}
 
 		return this.header;
@@ -129,6 +137,22 @@ export class SaveReader extends ByteReader {
 	}
 
 	public inflateChunks(): { concatenatedChunkLength: number, numChunks: number } {
+		const steps = this.inflateChunksInSteps();
+		let step = steps.next();
+		while (!step.done) {
+			step = steps.next();
+		}
+		return step.value;
+	}
+
+	/**
+	 * inflates the chunks like {@link inflateChunks}, but pauses after every chunk. So async parsing can yield in between.
+	 */
+	public *inflateChunksInSteps(): Generator<void, { concatenatedChunkLength: number, numChunks: number }, void> {
+
+		if (this.header !== undefined && SaveReader.GetRoughSaveVersion(this.header.saveVersion, this.header.saveHeaderType) === '<U6') {
+			throw new UnsupportedVersionError('Game Version < U6 is not supported.');
+		}
 
 		// free memory
 		this.fileBuffer = this.fileBuffer.slice(this.currentByte);
@@ -144,6 +168,13 @@ export class SaveReader extends ByteReader {
 		// read while we can handle
 		while (this.handledByte < this.maxByte) {
 
+			// v2 chunk headers are marked with 0x22222222 and have an additional byte for the compression algorithm.
+			if (currentChunks.length === 0) {
+				const isV2Header = new DataView(this.fileBuffer).getUint32(4, this.alignment === Alignment.LITTLE_ENDIAN) === 0x22222222;
+				this.compressionInfo.chunkHeaderSize = isV2Header ? 49 : 48;
+			}
+			const sizesOffset = this.compressionInfo.chunkHeaderSize - 48;
+
 			// Read chunk info size...
 			let chunkHeader = new DataView(this.fileBuffer.slice(0, this.compressionInfo.chunkHeaderSize));
 			this.currentByte = this.compressionInfo.chunkHeaderSize;
@@ -158,9 +189,13 @@ export class SaveReader extends ByteReader {
 				// should always be 0x00000200 in LE
 				this.compressionInfo.maxUncompressedChunkContentSize = chunkHeader.getInt32(8, this.alignment === Alignment.LITTLE_ENDIAN);
 			}
+			if (this.compressionInfo.chunkHeaderSize > 48) {
+				// the compression algorithm, only present in v2 headers.
+				this.compressionInfo.compressionAlgorithm = chunkHeader.getUint8(16);
+			}
 
-			const chunkCompressedLength = chunkHeader.getInt32(33, this.alignment === Alignment.LITTLE_ENDIAN);
-			const chunkUncompressedLength = chunkHeader.getInt32(25, this.alignment === Alignment.LITTLE_ENDIAN);
+			const chunkCompressedLength = chunkHeader.getInt32(32 + sizesOffset, this.alignment === Alignment.LITTLE_ENDIAN);
+			const chunkUncompressedLength = chunkHeader.getInt32(24 + sizesOffset, this.alignment === Alignment.LITTLE_ENDIAN);
 			totalUncompressedBodySize += chunkUncompressedLength;
 
 			const currentChunkSize = chunkCompressedLength;
@@ -182,6 +217,7 @@ export class SaveReader extends ByteReader {
 			catch (err: any) {
 				throw new CompressionLibraryError("Failed to inflate compressed save data. " + err);
 			}
+			yield;
 		}
 
 		//TODO we can get rid of file buffer here.
@@ -200,8 +236,9 @@ export class SaveReader extends ByteReader {
 		this.bufferView = new DataView(bigWholeChunk.buffer);
 
 		const dataLength = this.readInt32();
-		if (totalUncompressedBodySize !== dataLength + 8) {
-			throw new CorruptSaveError(`Possibly corrupt. Indicated size of total save body (${dataLength + 8}) does not match the uncompressed real size of ${totalUncompressedBodySize}.`);
+		const bodySizeOverhead = this.versionAdapter.bodySizeOverhead;
+		if (totalUncompressedBodySize !== dataLength + bodySizeOverhead) {
+			throw new CorruptSaveError(`Possibly corrupt. Indicated size of total save body (${dataLength + bodySizeOverhead}) does not match the uncompressed real size of ${totalUncompressedBodySize}.`);
 		}
 
 		return {
@@ -271,21 +308,23 @@ export class SaveReader extends ByteReader {
 	}
 
 	public readLevels(): Level[] {
+		const steps = this.readLevelsInBatches();
+		let step = steps.next();
+		while (!step.done) {
+			step = steps.next();
+		}
+		return step.value;
+	}
+
+	/**
+	 * reads the levels like {@link readLevels}, but pauses after every batch of object contents. So async parsing can yield in between.
+	 */
+	public *readLevelsInBatches(): Generator<void, Level[], void> {
 
 		if (!this.header) {
 			throw new ParserError('ParserError', 'Header must be set before objects can be read.');
 		}
 
-		// guard save version
-		const roughSaveVersion = SaveReader.GetRoughSaveVersion(this.header.saveVersion, this.header.saveHeaderType);
-		if (roughSaveVersion === '<U6') {
-			throw new UnsupportedVersionError('Game Version < U6 is not supported.');
-		} else if (roughSaveVersion === 'U6/U7') {
-			throw new UnsupportedVersionError('Game Version U6/U7 is not supported in this package version. Consider downgrading to the latest package version supporting it, which is 0.0.34');
-		} else if (roughSaveVersion === 'U8') {
-			throw new UnsupportedVersionError('Game Version U8 is not supported in this package version. Consider downgrading to the latest package version supporting it, which is 0.3.7');
-		}
-
 		const levels: Level[] = [];
 		const levelCount = this.readInt32();
 		this.onProgressCallback(this.getBufferProgress(), `reading pack of ${levelCount + 1} levels.`);
@@ -296,7 +335,7 @@ export class SaveReader extends ByteReader {
 				this.onProgressCallback(this.getBufferProgress(), `reading level [${(i + 1)}/${(levelCount + 1)}] ${levelSingleName}`);
 			}
 
-			levels.push(Level.ReadLevel(this, levelSingleName, this.header.buildVersion));
+			levels.push(yield* Level.ReadLevelInBatches(this, levelSingleName, this.header.buildVersion));
 		}
 
 		this.onProgressCallback(this.getBufferProgress(), 'finished parsing.');
@@ -0,0 +1,386 @@
+import { DiagnosticsReporter, DiagnosticsSummary, ParserDiagnostic } from '../../diagnostics/parser.diagnostic';
+import { SaveEntity, isSaveEntity } from '../types/objects/SaveEntity';
+import { AbstractBaseProperty, BasicProperty, PropertiesMap } from '../types/property/generic/BasicProperty';
+import { isArrayProperty } from '../types/property/generic/ArrayProperty';
+import { isByteProperty } from '../types/property/generic/ByteProperty';
+import { isObjectProperty } from '../types/property/generic/ObjectProperty';
+import { isStructProperty } from '../types/property/generic/StructProperty';
+import { BuildableSubsystemSpecialProperties, BuildableTypeInstance, isBuildableSubsystemSpecialProperties } from '../types/property/special/BuildableSubsystemSpecialProperties';
+import { ConveyorChainActorSpecialProperties, ConveyorChainSegmentSpecialProperties } from '../types/property/special/ConveyorChainActorSpecialProperties';
+import { isConveyorSpecialProperties } from '../types/property/special/ConveyorSpecialProperties';
+import { isEmptySpecialProperties } from '../types/property/special/EmptySpecialProperties';
+import { DynamicStructPropertyValue } from '../types/structs/DynamicStructPropertyValue';
+import { ObjectReference } from '../types/structs/ObjectReference';
+import { col4 } from '../types/structs/col4';
+import { vec3 } from '../types/structs/vec3';
+import { vec4 } from '../types/structs/vec4';
+import { Level } from './level.class';
+import { SatisfactorySave } from './satisfactory-save';
+import { Grids, SaveReader } from './save-reader';
+import { RoughSaveVersion } from './save.types';
+
+/**
+ * @grids the grids to use for the upgraded save. Taking them from a 1.0 save of the same map is most reliable.
+ * If not given, they are created with the grid names and cell sizes of the 1.0 map, but without cell hashes.
+ * @buildVersion the build version that is written into the header.
+ * @isLightweightBuildable decides which entities get migrated into the lightweight buildable subsystem.
+ * Only entities without components, special properties and trailing data are migrated anyway, since everything else would get lost.
+ * @onDiagnostic receives warnings about parts of objects that could not be upgraded. If not given, they are printed to the console.
+ */
+export type SaveUpgradeOptions = {
+	grids: Grids;
+	buildVersion: number;
+	isLightweightBuildable: (entity: SaveEntity) => boolean;
+	onDiagnostic: (diagnostic: ParserDiagnostic) => void;
+};
+
+/**
+ * @skippedConveyorBelts belts whose spline data is missing or invalid. They get no conveyor chain actor and their items are dropped, since the 1.0 layout has no place for them.
+ */
+export type SaveUpgradeSummary = {
+	upgradedFrom: RoughSaveVersion;
+	migratedLightweightBuildables: number;
+	createdConveyorChainActors: number;
+	migratedConveyorItems: number;
+	skippedConveyorBelts: number;
+	diagnostics?: DiagnosticsSummary;
+};
+
+/**
+ * Converts parsed saves of older game versions (U6/U7, U8) into the 1.0 layout, so they get written like 1.0 saves.
+ */
+export namespace SaveUpgrader {
+
+	export const TARGET_SAVE_HEADER_TYPE = 13;
+	export const TARGET_SAVE_VERSION = 46;
+	export const TARGET_BUILD_VERSION = 365306;
+
+	export const LIGHTWEIGHT_BUILDABLE_SUBSYSTEM_TYPE_PATH = '/Script/FactoryGame.FGLightweightBuildableSubsystem';
+	export const CONVEYOR_CHAIN_ACTOR_TYPE_PATH = '/Script/FactoryGame.FGConveyorChainActor';
+
+	/**
+	 * the folders of buildables that are lightweight buildables since 1.0.
+	 */
+	export const LIGHTWEIGHT_BUILDABLE_PATH_PREFIXES = [
+		'/Game/FactoryGame/Buildable/Building/Foundation/',
+		'/Game/FactoryGame/Buildable/Building/Ramp/',
+		'/Game/FactoryGame/Buildable/Building/Wall/',
+		'/Game/FactoryGame/Buildable/Building/Roof/',
+		'/Game/FactoryGame/Buildable/Building/Beam/',
+		'/Game/FactoryGame/Buildable/Building/Pillars/',
+		'/Game/FactoryGame/Buildable/Building/Walkway/',
+		'/Game/FactoryGame/Buildable/Building/Catwalk/',
+		'/Game/FactoryGame/Buildable/Building/Stair/',
+		'/Game/FactoryGame/Buildable/Building/Fence/',
+	];
+
+	// properties of lightweight buildables that are kept in the subsystem. Entities with other properties are not migrated.
+	const LIGHTWEIGHT_BUILDABLE_PROPERTIES = ['mCustomizationData', 'mBuiltWithRecipe', 'mBlueprintProxy', 'mBuildTimeStamp'];
+
+	const DEFAULT_GRID_CELL_SIZES: { [gridName: string]: number } = {
+		MainGrid: 51200,
+		LandscapeGrid: 102400,
+		ExplorationGrid: 102400,
+		FoliageGrid: 51200,
+		HLOD0_256m_1023m: 25600
+	};
+
+	export const IsLightweightBuildable = (entity: SaveEntity): boolean => LIGHTWEIGHT_BUILDABLE_PATH_PREFIXES.some(prefix => entity.typePath.startsWith(prefix));
+
+	/**
+	 * Upgrades the given save in place to the 1.0 layout. Saves that already are 1.0 saves stay unchanged.
+	 * @returns a summary of what got migrated.
+	 */
+	export const UpgradeTo1_0 = (save: SatisfactorySave, options?: Partial<SaveUpgradeOptions>): SaveUpgradeSummary => {
+		const summary: SaveUpgradeSummary = {
+			upgradedFrom: SaveReader.GetRoughSaveVersion(save.header.saveVersion, save.header.saveHeaderType),
+			migratedLightweightBuildables: 0,
+			createdConveyorChainActors: 0,
+			migratedConveyorItems: 0,
+			skippedConveyorBelts: 0
+		};
+
+		if (summary.upgradedFrom === 'U1.0+') {
+			return summary;
+		}
+
+		const persistentLevel = GetPersistentLevel(save);
+
+		// objects of U6/U7 have no object version. It tells the game in which version their data was written.
+		for (const obj of save.levels.flatMap(level => level.objects)) {
+			if (obj.objectVersion === 0) {
+				obj.objectVersion = save.header.saveVersion;
+				obj.unknownType2 = 1;
+			}
+		}
+
+		summary.migratedLightweightBuildables = MigrateLightweightBuildables(save, persistentLevel, options?.isLightweightBuildable ?? IsLightweightBuildable);
+		const diagnostics = new DiagnosticsReporter(options?.onDiagnostic);
+		const conveyorMigration = MigrateConveyorItems(save, persistentLevel, diagnostics);
+		summary.createdConveyorChainActors = conveyorMigration.chainActors;
+		summary.migratedConveyorItems = conveyorMigration.items;
+		summary.skippedConveyorBelts = conveyorMigration.skippedBelts;
+
+		const diagnosticsSummary = diagnostics.getSummary();
+		if (diagnosticsSummary !== undefined) {
+			summary.diagnostics = diagnosticsSummary;
+		}
+
+		save.grids = options?.grids ?? CreateDefaultGrids(save);
+		UpgradeHeader(save, options?.buildVersion ?? TARGET_BUILD_VERSION);
+
+		return summary;
+	}
+
+	const GetPersistentLevel = (save: SatisfactorySave): Level => {
+		let persistentLevel = save.levels.find(level => level.name === save.header.mapName);
+		if (persistentLevel === undefined) {
+			persistentLevel = { name: save.header.mapName, objects: [], collectables: [] };
+			save.levels.push(persistentLevel);
+		}
+		return persistentLevel;
+	}
+
+	const UpgradeHeader = (save: SatisfactorySave, buildVersion: number): void => {
+		const header = save.header;
+		header.saveHeaderType = Math.max(header.saveHeaderType, TARGET_SAVE_HEADER_TYPE);
+		header.saveVersion = Math.max(header.saveVersion, TARGET_SAVE_VERSION);
+		header.buildVersion = buildVersion;
+		header.fEditorObjectVersion = header.fEditorObjectVersion ?? 0;
+		header.rawModMetadataString = header.rawModMetadataString ?? '';
+		header.isModdedSave = header.isModdedSave ?? 0;
+		header.saveIdentifier = header.saveIdentifier ?? header.sessionName;
+		header.partitionEnabledFlag = true;
+		header.consistencyHashBytes = header.consistencyHashBytes ?? { isValid: false };
+		header.creativeModeEnabled = header.creativeModeEnabled ?? false;
+
+		save.compressionInfo = {
+			packageFileTag: save.compressionInfo?.packageFileTag || 0x9E2A83C1,
+			maxUncompressedChunkContentSize: save.compressionInfo?.maxUncompressedChunkContentSize || 131072,
+			chunkHeaderSize: 49
+		};
+	}
+
+	const CreateDefaultGrids = (save: SatisfactorySave): Grids => {
+		const grids: Grids = {};
+		for (const [gridName, cellSize] of Object.entries(DEFAULT_GRID_CELL_SIZES)) {
+			grids[gridName] = { cellSize, gridHash: 0, children: {} };
+		}
+
+		// the levels of the map are children of the main grid.
+		for (const level of save.levels.filter(level => level.name !== save.header.mapName)) {
+			grids.MainGrid.children[level.name] = 0;
+		}
+		return grids;
+	}
+
+	const MigrateLightweightBuildables = (save: SatisfactorySave, persistentLevel: Level, isLightweightBuildable: (entity: SaveEntity) => boolean): number => {
+		let subsystem = persistentLevel.objects.find(obj => obj.typePath === LIGHTWEIGHT_BUILDABLE_SUBSYSTEM_TYPE_PATH);
+		if (subsystem === undefined) {
+			subsystem = CreateSystemEntity(save, LIGHTWEIGHT_BUILDABLE_SUBSYSTEM_TYPE_PATH, `${save.header.mapName}:PersistentLevel.LightweightBuildableSubsystem`);
+			persistentLevel.objects.push(subsystem);
+		}
+		if (!isBuildableSubsystemSpecialProperties(subsystem.specialProperties)) {
+			subsystem.specialProperties = { type: 'BuildableSubsystemSpecialProperties', buildables: [] } satisfies BuildableSubsystemSpecialProperties;
+		}
+		const buildables = (subsystem.specialProperties as BuildableSubsystemSpecialProperties).buildables;
+
+		let migrated = 0;
+		for (const level of save.levels) {
+			level.objects = level.objects.filter(obj => {
+				if (!isSaveEntity(obj) || !IsMigratableToLightweightBuildable(obj) || !isLightweightBuildable(obj)) {
+					return true;
+				}
+
+				let buildable = buildables.find(buildable => buildable.typePath === obj.typePath);
+				if (buildable === undefined) {
+					buildable = { typePath: obj.typePath, instances: [] };
+					buildables.push(buildable);
+				}
+				buildable.instances.push(ToBuildableTypeInstance(obj));
+				migrated++;
+				return false;
+			});
+		}
+		return migrated;
+	}
+
+	const IsMigratableToLightweightBuildable = (entity: SaveEntity): boolean => entity.components.length === 0
+		&& entity.trailingData.length === 0
+		&& entity.unparsedData === undefined
+		&& isEmptySpecialProperties(entity.specialProperties)
+		&& Object.keys(entity.properties).every(name => LIGHTWEIGHT_BUILDABLE_PROPERTIES.includes(name));
+
+	const ToBuildableTypeInstance = (entity: SaveEntity): BuildableTypeInstance => {
+		const customization = GetStructProperties(entity.properties.mCustomizationData);
+		const colorSlot = GetStructProperties(customization.OverrideColorData);
+		const patternRotation = GetSingleProperty(customization.PatternRotation);
+
+		return {
+			transform: entity.transform,
+			primaryColor: GetColor(colorSlot.PrimaryColor),
+			secondaryColor: GetColor(colorSlot.SecondaryColor),
+			usedSwatchSlot: GetObjectReference(customization.SwatchDesc),
+			usedMaterial: GetObjectReference(customization.MaterialDesc),
+			usedPattern: GetObjectReference(customization.PatternDesc),
+			usedSkin: GetObjectReference(customization.SkinDesc),
+			usedPaintFinish: GetObjectReference(colorSlot.PaintFinish),
+			patternRotation: patternRotation !== undefined && isByteProperty(patternRotation) ? Number(patternRotation.value.value) : 0,
+			usedRecipe: GetObjectReference(entity.properties.mBuiltWithRecipe),
+			blueprintProxy: GetObjectReference(entity.properties.mBlueprintProxy)
+		};
+	}
+
+	const MigrateConveyorItems = (save: SatisfactorySave, persistentLevel: Level, diagnostics: DiagnosticsReporter): { chainActors: number, items: number, skippedBelts: number } => {
+		const result = { chainActors: 0, items: 0, skippedBelts: 0 };
+		const instanceNames = new Set(save.levels.flatMap(level => level.objects.map(obj => obj.instanceName)));
+
+		for (const level of save.levels) {
+			for (const belt of level.objects.filter(isSaveEntity)) {
+				if (!isConveyorSpecialProperties(belt.specialProperties) || belt.specialProperties.items === undefined) {
+					continue;
+				}
+				const legacyItems = belt.specialProperties.items;
+				delete belt.specialProperties.items;
+
+				const splinePoints = GetSplinePoints(belt.properties.mSplineData);
+				if (splinePoints === undefined) {
+					diagnostics.add({
+						code: 'UPGRADE_SKIPPED',
+						message: `Belt ${belt.instanceName} has no valid spline data, so it gets no conveyor chain actor. Its ${legacyItems.length} items are dropped.`,
+						offset: -1,
+						levelName: level.name,
+						instanceName: belt.instanceName,
+						propertyName: 'mSplineData'
+					});
+					result.skippedBelts++;
+					continue;
+				}
+
+				let instanceName: string;
+				do {
+					instanceName = `${save.header.mapName}:PersistentLevel.FGConveyorChainActor_${result.chainActors++}`;
+				} while (instanceNames.has(instanceName));
+				instanceNames.add(instanceName);
+
+				const chainActor = CreateSystemEntity(save, CONVEYOR_CHAIN_ACTOR_TYPE_PATH, instanceName);
+				chainActor.specialProperties = CreateSingleBeltChain(chainActor, belt, splinePoints, legacyItems.map(item => ({
+					itemReference: { levelName: '', pathName: item.name },
+					position: Math.round(item.position)
+				})));
+				persistentLevel.objects.push(chainActor);
+				result.items += legacyItems.length;
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * since 1.0, belts are grouped into chains. Every belt of an upgraded save becomes a chain of its own.
+	 */
+	const CreateSingleBeltChain = (chainActor: SaveEntity, belt: SaveEntity, beltSplinePoints: ConveyorChainSegmentSpecialProperties['splinePoints'], items: ConveyorChainActorSpecialProperties['items']): ConveyorChainActorSpecialProperties => {
+		const beltRef: ObjectReference = { levelName: belt.rootObject, pathName: belt.instanceName };
+
+		// spline points of belts are relative to the belt, the ones of chains are not.
+		const splinePoints = beltSplinePoints.map(point => ({
+			location: vec3.add(belt.transform.translation, vec4.quatRotate(belt.transform.rotation, point.location)),
+			arriveTangent: vec4.quatRotate(belt.transform.rotation, point.arriveTangent),
+			leaveTangent: vec4.quatRotate(belt.transform.rotation, point.leaveTangent)
+		}));
+		let totalLength = 0;
+		for (let i = 1; i < splinePoints.length; i++) {
+			totalLength += vec3.length(vec3.sub(splinePoints[i].location, splinePoints[i - 1].location));
+		}
+
+		const segment: ConveyorChainSegmentSpecialProperties = {
+			chainActorRef: { levelName: chainActor.rootObject, pathName: chainActor.instanceName },
+			beltRef,
+			splinePoints,
+			offsetAtStart: 0,
+			startsAtLength: 0,
+			endsAtLength: totalLength,
+			firstItemIndex: items.length > 0 ? 0 : -1,
+			lastItemIndex: items.length - 1,
+			beltIndexInChain: 0
+		};
+
+		return {
+			type: 'ConveyorChainActorSpecialProperties',
+			firstBelt: beltRef,
+			lastBelt: beltRef,
+			beltsInChain: [segment],
+			totalLength,
+			totalNumberItemsMaybe: items.length,
+			firstChainItemIndex: items.length > 0 ? 0 : -1,
+			lastChainItemIndex: items.length - 1,
+			items
+		};
+	}
+
+	const CreateSystemEntity = (save: SatisfactorySave, typePath: string, instanceName: string): SaveEntity => {
+		const entity = new SaveEntity(typePath, save.header.mapName, instanceName);
+		entity.objectVersion = TARGET_SAVE_VERSION;
+		entity.unknownType2 = 1;
+		return entity;
+	}
+
+	const GetSingleProperty = (property: AbstractBaseProperty | AbstractBaseProperty[] | undefined): BasicProperty | undefined => {
+		return property === undefined || Array.isArray(property) ? undefined : property as BasicProperty;
+	}
+
+	const GetStructProperties = (properties: AbstractBaseProperty | AbstractBaseProperty[] | undefined): PropertiesMap => {
+		const property = GetSingleProperty(properties);
+		if (property === undefined || !isStructProperty(property)) {
+			return {};
+		}
+		return (property.value as DynamicStructPropertyValue).properties ?? {};
+	}
+
+	const GetObjectReference = (properties: AbstractBaseProperty | AbstractBaseProperty[] | undefined): ObjectReference => {
+		const property = GetSingleProperty(properties);
+		if (property === undefined || !isObjectProperty(property)) {
+			return { levelName: '', pathName: '' };
+		}
+		return property.value;
+	}
+
+	const GetColor = (properties: AbstractBaseProperty | AbstractBaseProperty[] | undefined): col4 => {
+		const property = GetSingleProperty(properties);
+		if (property === undefined || !isStructProperty(property)) {
+			return { r: 0, g: 0, b: 0, a: 0 };
+		}
+		return property.value as col4;
+	}
+
+	/**
+	 * @returns the spline points of a belt, or undefined if the spline data is missing or a point lacks one of its vectors.
+	 */
+	const GetSplinePoints = (properties: AbstractBaseProperty | AbstractBaseProperty[] | undefined): ConveyorChainSegmentSpecialProperties['splinePoints'] | undefined => {
+		const property = GetSingleProperty(properties);
+		if (property === undefined || !isArrayProperty(property) || property.values.length === 0) {
+			return undefined;
+		}
+
+		const splinePoints: ConveyorChainSegmentSpecialProperties['splinePoints'] = [];
+		for (const point of property.values) {
+			const values = isStructProperty(point) ? GetStructProperties(point) : {};
+			const location = GetVector(values.Location);
+			const arriveTangent = GetVector(values.ArriveTangent);
+			const leaveTangent = GetVector(values.LeaveTangent);
+			if (location === undefined || arriveTangent === undefined || leaveTangent === undefined) {
+				return undefined;
+			}
+			splinePoints.push({ location, arriveTangent, leaveTangent });
+		}
+		return splinePoints;
+	}
+
+	const GetVector = (properties: AbstractBaseProperty | AbstractBaseProperty[] | undefined): vec3 | undefined => {
+		const property = GetSingleProperty(properties);
+		if (property === undefined || !isStructProperty(property)) {
+			return undefined;
+		}
+		const value = property.value as Partial<vec3>;
+		return typeof value.x === 'number' && typeof value.y === 'number' && typeof value.z === 'number' ? value as vec3 : undefined;
+	}
+}
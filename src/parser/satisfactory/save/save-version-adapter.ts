@@ -0,0 +1,107 @@
+import { BinaryReadable } from '../../byte/binary-readable.interface';
+import { ByteWriter } from '../../byte/byte-writer.class';
+import { UnsupportedVersionError } from '../../error/parser.error';
+import { RoughSaveVersion } from './save.types';
+
+/**
+ * Describes how the layout of the save body differs between game versions.
+ * @chunkHeaderSize the size of a compressed chunk header. v1 headers are 48 bytes, v2 headers came with U8 and have an additional byte for the compression algorithm.
+ * @bodySizeOverhead the count of bytes of the decompressed body that are not included in its indicated size.
+ * @hasSaveBodyHash whether the body starts with the validation hash. Since 1.0.
+ * @hasGrids whether the body has grids before the levels. Since 1.0.
+ * @levelSectionSizeLength the byte length of the binary sizes of the object headers and the object contents in a level. Int64 since U8.
+ * @hasObjectVersion whether object contents start with the object version, before their binary size. Since U8.
+ * @hasCollectablesInHeaders whether the collectables are additionally listed after the object headers. Since U8.
+ * @singlePrecisionStructs whether vectors, rotators and quaternions in struct properties are floats instead of doubles. Before U8.
+ */
+export type SaveVersionAdapter = {
+	roughSaveVersion: RoughSaveVersion;
+	chunkHeaderSize: number;
+	bodySizeOverhead: number;
+	hasSaveBodyHash: boolean;
+	hasGrids: boolean;
+	levelSectionSizeLength: 4 | 8;
+	hasObjectVersion: boolean;
+	hasCollectablesInHeaders: boolean;
+	singlePrecisionStructs: boolean;
+};
+
+export namespace SaveVersionAdapter {
+
+	export const U6_U7: SaveVersionAdapter = {
+		roughSaveVersion: 'U6/U7',
+		chunkHeaderSize: 48,
+		bodySizeOverhead: 4,
+		hasSaveBodyHash: false,
+		hasGrids: false,
+		levelSectionSizeLength: 4,
+		hasObjectVersion: false,
+		hasCollectablesInHeaders: false,
+		singlePrecisionStructs: true
+	};
+
+	export const U8: SaveVersionAdapter = {
+		roughSaveVersion: 'U8',
+		chunkHeaderSize: 49,
+		bodySizeOverhead: 4,
+		hasSaveBodyHash: false,
+		hasGrids: false,
+		levelSectionSizeLength: 8,
+		hasObjectVersion: true,
+		hasCollectablesInHeaders: true,
+		singlePrecisionStructs: false
+	};
+
+	export const U1_0: SaveVersionAdapter = {
+		roughSaveVersion: 'U1.0+',
+		chunkHeaderSize: 49,
+		bodySizeOverhead: 8,
+		hasSaveBodyHash: true,
+		hasGrids: true,
+		levelSectionSizeLength: 8,
+		hasObjectVersion: true,
+		hasCollectablesInHeaders: true,
+		singlePrecisionStructs: false
+	};
+
+	export const Get = (roughSaveVersion: RoughSaveVersion): SaveVersionAdapter => {
+		switch (roughSaveVersion) {
+			case 'U6/U7':
+				return U6_U7;
+			case 'U8':
+				return U8;
+			case 'U1.0+':
+				return U1_0;
+			default:
+				throw new UnsupportedVersionError('Game Version < U6 is not supported.');
+		}
+	}
+
+	/**
+	 * reads the binary size of a level section.
+	 */
+	export const ReadLevelSectionSize = (reader: BinaryReadable, adapter: SaveVersionAdapter): number => {
+		const size = reader.readInt32();
+		if (adapter.levelSectionSizeLength === 8) {
+			reader.readInt32();	// 0
+		}
+		return size;
+	}
+
+	/**
+	 * writes zeros in place of the binary size of a level section, to be replaced once the section is written.
+	 */
+	export const WriteLevelSectionSizePlaceholder = (writer: ByteWriter, adapter: SaveVersionAdapter): void => {
+		WriteLevelSectionSize(writer, adapter, 0);
+	}
+
+	/**
+	 * writes the binary size of a level section, if it is already known.
+	 */
+	export const WriteLevelSectionSize = (writer: ByteWriter, adapter: SaveVersionAdapter, size: number): void => {
+		writer.writeInt32(size);
+		if (adapter.levelSectionSizeLength === 8) {
+			writer.writeInt32(0);
+		}
+	}
+}
@@ -1,14 +1,17 @@
 import Pako from "pako";
 import { Alignment } from "../../byte/alignment.enum";
 import { ByteWriter } from "../../byte/byte-writer.class";
-import { CompressionLibraryError, ParserError, UnsupportedVersionError } from "../../error/parser.error";
-import { ChunkCompressionInfo, ChunkSummary, CompressionAlgorithmCode } from "../../file.types";
+import { CompressionLibraryError, ParserError } from "../../error/parser.error";
+import { ChunkCompressionInfo, ChunkDeflate, ChunkSummary, ChunkWriteOptions, CompressionAlgorithmCode } from "../../file.types";
 import { MD5Hash } from '../types/structs/MD5Hash';
 import { Level } from './level.class';
 import { SatisfactorySave } from "./satisfactory-save";
 import { Grids, SaveBodyValidation, SaveReader } from "./save-reader";
+import { SaveVersionAdapter } from './save-version-adapter';
 import { SatisfactorySaveHeader } from "./save.types";
 
+// pako does not fall back to its default level if the level is given as undefined.
+const PakoDeflate: ChunkDeflate = (content, level) => Pako.deflate(content, level !== undefined ? { level } : {});
 
 export class SaveWriter extends ByteWriter {
 
@@ -57,11 +60,8 @@ export class SaveWriter extends ByteWriter {
 			writer.writeInt32(header.creativeModeEnabled ? 1 : 0);
 		}
 
-		if (header.saveVersion >= 21) {
-			// ready to write levels now.
-		} else {
-			throw new UnsupportedVersionError("The save version is too old to be supported currently.");
-		}
+		// throws for versions that are too old.
+		SaveVersionAdapter.Get(SaveReader.GetRoughSaveVersion(header.saveVersion, header.saveHeaderType));
 	}
 
 	public static WriteSaveBodyHash = (writer: ByteWriter, saveBodyValidation: SaveBodyValidation): void => {
@@ -89,81 +89,163 @@ export class SaveWriter extends ByteWriter {
 		}
 	};
 
-	public static WriteLevels(writer: ByteWriter, save: SatisfactorySave, buildVersion: number): void {
+	public static WriteLevels(writer: ByteWriter, save: SatisfactorySave, buildVersion: number, adapter: SaveVersionAdapter = SaveVersionAdapter.U1_0): void {
 		writer.writeInt32(save.levels.length - 1);
 		for (const level of save.levels) {
 			if (level.name !== save.header.mapName) {
 				writer.writeString(level.name);
 			}
-			Level.SerializeLevel(writer, level, buildVersion);
+			Level.SerializeLevel(writer, level, buildVersion, adapter);
 		}
 	}
 
+	/**
+	 * @param writeOptions control the compression. Options that are not given are taken from the compression info.
+	 */
 	public static GenerateCompressedChunksFromData(
 		bufferArray: ArrayBuffer,
 		compressionInfo: ChunkCompressionInfo,
 		onBinaryBeforeCompressing: (binary: ArrayBuffer) => void,
 		onChunk: (chunk: Uint8Array) => void,
-		alignment: Alignment = Alignment.LITTLE_ENDIAN
+		alignment: Alignment = Alignment.LITTLE_ENDIAN,
+		bodySizeOverhead: number = 8,
+		writeOptions: Partial<ChunkWriteOptions> = {}
 	): ChunkSummary[] {
 
+		compressionInfo = ChunkCompressionInfo.ApplyWriteOptions(compressionInfo, writeOptions);
+		const saveBody = SaveWriter.CreateSaveBody(bufferArray, alignment, bodySizeOverhead);
+		onBinaryBeforeCompressing(saveBody.buffer);
+
+		// collect slices of chunks with help of compression info for max chunk size
+		const chunkSummary: ChunkSummary[] = [];
+		for (const uncompressedChunk of SaveWriter.SliceChunks(saveBody, compressionInfo)) {
+			const chunk = SaveWriter.CreateCompressedChunk(uncompressedChunk, compressionInfo, alignment, writeOptions);
+			onChunk(chunk);
+			chunkSummary.push({
+				uncompressedSize: uncompressedChunk.byteLength + compressionInfo.chunkHeaderSize,
+				compressedSize: chunk.byteLength
+			});
+		}
+
+		return chunkSummary;
+	}
+
+	/**
+	 * generates the compressed chunks like {@link GenerateCompressedChunksFromData}, but lets them be compressed asynchronously, for example in a pool of workers.
+	 * Chunks are still emitted in order.
+	 * @param compressChunk creates a compressed chunk from an uncompressed one, like {@link CreateCompressedChunk} does. It receives the compression info with the write options applied.
+	 * @param maxPendingChunks how many chunks may be compressed at the same time, before waiting for the next chunk in order.
+	 * @param writeOptions control the compression. Options that are not given are taken from the compression info.
+	 */
+	public static async GenerateCompressedChunksFromDataAsync(
+		bufferArray: ArrayBuffer,
+		compressionInfo: ChunkCompressionInfo,
+		onBinaryBeforeCompressing: (binary: ArrayBuffer) => void,
+		onChunk: (chunk: Uint8Array) => void,
+		compressChunk: (uncompressedChunk: ArrayBuffer, compressionInfo: ChunkCompressionInfo) => Promise<Uint8Array>,
+		maxPendingChunks: number,
+		alignment: Alignment = Alignment.LITTLE_ENDIAN,
+		bodySizeOverhead: number = 8,
+		writeOptions: Partial<ChunkWriteOptions> = {}
+	): Promise<ChunkSummary[]> {
+
+		compressionInfo = ChunkCompressionInfo.ApplyWriteOptions(compressionInfo, writeOptions);
+		const saveBody = SaveWriter.CreateSaveBody(bufferArray, alignment, bodySizeOverhead);
+		onBinaryBeforeCompressing(saveBody.buffer);
+
+		const chunkSummary: ChunkSummary[] = [];
+		const pendingChunks: { uncompressedSize: number, chunk: Promise<Uint8Array> }[] = [];
+		const emitNextChunk = async () => {
+			const pending = pendingChunks.shift()!;
+			const chunk = await pending.chunk;
+			onChunk(chunk);
+			chunkSummary.push({
+				uncompressedSize: pending.uncompressedSize + compressionInfo.chunkHeaderSize,
+				compressedSize: chunk.byteLength
+			});
+		};
+
+		try {
+			for (const uncompressedChunk of SaveWriter.SliceChunks(saveBody, compressionInfo)) {
+				pendingChunks.push({ uncompressedSize: uncompressedChunk.byteLength, chunk: compressChunk(uncompressedChunk, compressionInfo) });
+				if (pendingChunks.length >= maxPendingChunks) {
+					await emitNextChunk();
+				}
+			}
+			while (pendingChunks.length > 0) {
+				await emitNextChunk();
+			}
+		} catch (error) {
+			// the chunks that are still pending are of no use anymore, but should not end up as unhandled rejections.
+			pendingChunks.forEach(pending => pending.chunk.catch(() => { }));
+			throw error;
+		}
+
+		return chunkSummary;
+	}
+
+	/**
+	 * prepends the size of the save body and appends the overhead.
+	 */
+	private static CreateSaveBody(bufferArray: ArrayBuffer, alignment: Alignment, bodySizeOverhead: number): Uint8Array {
 		const totalUncompressedSize = bufferArray.byteLength;
 
-		const saveBody = new Uint8Array(bufferArray.byteLength + 8);
+		const saveBody = new Uint8Array(bufferArray.byteLength + bodySizeOverhead);
 		saveBody.set(new Uint8Array(bufferArray), 4);
 		const miniView = new DataView(saveBody.buffer);
 		miniView.setInt32(0, totalUncompressedSize, alignment === Alignment.LITTLE_ENDIAN);
-		onBinaryBeforeCompressing(saveBody.buffer);
+		return saveBody;
+	}
 
-		// collect slices of chunks with help of compression info for max chunk size
+	private static *SliceChunks(saveBody: Uint8Array, compressionInfo: ChunkCompressionInfo): Generator<ArrayBuffer> {
 		let handledByte = 0;
-		const chunkSummary: {
-			uncompressedSize: number,
-			compressedSize: number
-		}[] = [];
 		while (handledByte < saveBody.byteLength) {
-
-			// create uncompressed chunk.
 			const uncompressedContentSize = Math.min(compressionInfo.maxUncompressedChunkContentSize, saveBody.byteLength - handledByte);
-			const uncompressedChunk = saveBody.buffer.slice(handledByte, handledByte + uncompressedContentSize);
+			yield saveBody.buffer.slice(handledByte, handledByte + uncompressedContentSize);
+			handledByte += uncompressedContentSize;
+		}
+	}
 
-			// deflate chunk while we're at it.
-			let compressedChunk: Uint8Array = new Uint8Array(0);
-			try {
-				compressedChunk = Pako.deflate(uncompressedChunk);
-			}
-			catch (err) {
-				throw new CompressionLibraryError("Could not compress save data. " + err);
-			}
+	/**
+	 * compresses a part of the save body and prepends the chunk header.
+	 * @param deflateOptions the compression level and the deflate function to use instead of pako.
+	 */
+	public static CreateCompressedChunk(uncompressedChunk: ArrayBuffer, compressionInfo: ChunkCompressionInfo, alignment: Alignment = Alignment.LITTLE_ENDIAN, deflateOptions: Partial<Pick<ChunkWriteOptions, 'compressionLevel' | 'deflate'>> = {}): Uint8Array {
+		const uncompressedContentSize = uncompressedChunk.byteLength;
 
-			const chunk = new Uint8Array(compressionInfo.chunkHeaderSize + compressedChunk.byteLength);
-			chunk.set(compressedChunk, compressionInfo.chunkHeaderSize);
+		// deflate chunk while we're at it.
+		let compressedChunk: Uint8Array = new Uint8Array(0);
+		try {
+			compressedChunk = (deflateOptions.deflate ?? PakoDeflate)(new Uint8Array(uncompressedChunk), deflateOptions.compressionLevel);
+		}
+		catch (err) {
+			throw new CompressionLibraryError("Could not compress save data. " + err);
+		}
 
-			// write header
-			const view = new DataView(chunk.buffer);
-			view.setInt32(0, compressionInfo.packageFileTag, alignment === Alignment.LITTLE_ENDIAN);
-			view.setInt32(4, 0x22222222, alignment === Alignment.LITTLE_ENDIAN);		//v1 header is 0x00000000, v2 is 0x22222222
-			view.setInt32(8, compressionInfo.maxUncompressedChunkContentSize, alignment === Alignment.LITTLE_ENDIAN);
-			view.setInt32(12, 0, alignment === Alignment.LITTLE_ENDIAN);
-			view.setUint8(16, CompressionAlgorithmCode.ZLIB);	// compression algo, came with U8, only present if header v2. Which means the header is actually 48 bytes long if header is not v2
-			view.setInt32(17, compressedChunk.byteLength, alignment === Alignment.LITTLE_ENDIAN); // E0 3A 00 00 / 03 78 64 00
-			view.setInt32(21, 0, alignment === Alignment.LITTLE_ENDIAN);
-			view.setInt32(25, uncompressedContentSize, alignment === Alignment.LITTLE_ENDIAN);
-			view.setInt32(29, 0, alignment === Alignment.LITTLE_ENDIAN);
-			view.setInt32(33, compressedChunk.byteLength, alignment === Alignment.LITTLE_ENDIAN);
-			view.setInt32(37, 0, alignment === Alignment.LITTLE_ENDIAN);
-			view.setInt32(41, uncompressedContentSize, alignment === Alignment.LITTLE_ENDIAN);
-			view.setInt32(45, 0, alignment === Alignment.LITTLE_ENDIAN);
+		const chunk = new Uint8Array(compressionInfo.chunkHeaderSize + compressedChunk.byteLength);
+		chunk.set(compressedChunk, compressionInfo.chunkHeaderSize);
 
-			onChunk(chunk);
-			chunkSummary.push({
-				uncompressedSize: uncompressedContentSize + compressionInfo.chunkHeaderSize,
-				compressedSize: compressedChunk.byteLength + compressionInfo.chunkHeaderSize
-			});
-			handledByte += uncompressedContentSize;
+		// write header. v1 headers (before U8) have no byte for the compression algorithm and 64 bit max chunk size.
+		const view = new DataView(chunk.buffer);
+		const isV2Header = compressionInfo.chunkHeaderSize > 48;
+		const sizesOffset = isV2Header ? 17 : 16;
+		view.setInt32(0, compressionInfo.packageFileTag, alignment === Alignment.LITTLE_ENDIAN);
+		view.setInt32(4, isV2Header ? 0x22222222 : 0, alignment === Alignment.LITTLE_ENDIAN);		//v1 header is 0x00000000, v2 is 0x22222222
+		view.setInt32(8, compressionInfo.maxUncompressedChunkContentSize, alignment === Alignment.LITTLE_ENDIAN);
+		view.setInt32(12, 0, alignment === Alignment.LITTLE_ENDIAN);
+		if (isV2Header) {
+			view.setUint8(16, CompressionAlgorithmCode.ZLIB);	// compression algo, came with U8, only present if header v2. Which means the header is actually 48 bytes long if header is not v2
 		}
+		view.setInt32(sizesOffset, compressedChunk.byteLength, alignment === Alignment.LITTLE_ENDIAN); // E0 3A 00 00 / 03 78 64 00
+		view.setInt32(sizesOffset + 4, 0, alignment === Alignment.LITTLE_ENDIAN);
+		view.setInt32(sizesOffset + 8, uncompressedContentSize, alignment === Alignment.LITTLE_ENDIAN);
+		view.setInt32(sizesOffset + 12, 0, alignment === Alignment.LITTLE_ENDIAN);
+		view.setInt32(sizesOffset + 16, compressedChunk.byteLength, alignment === Alignment.LITTLE_ENDIAN);
+		view.setInt32(sizesOffset + 20, 0, alignment === Alignment.LITTLE_ENDIAN);
+		view.setInt32(sizesOffset + 24, uncompressedContentSize, alignment === Alignment.LITTLE_ENDIAN);
+		view.setInt32(sizesOffset + 28, 0, alignment === Alignment.LITTLE_ENDIAN);
 
-		return chunkSummary;
+		return chunk;
 	}
 
 	public generateChunks(
@@ -172,7 +254,9 @@ export class SaveWriter extends ByteWriter {
 
 		onBinaryBeforeCompressing: (binary: ArrayBuffer) => void,
 		onHeader: (header: Uint8Array) => void,
-		onChunk: (chunk: Uint8Array) => void
+		onChunk: (chunk: Uint8Array) => void,
+		bodySizeOverhead: number = 8,
+		writeOptions: Partial<ChunkWriteOptions> = {}
 	): ChunkSummary[] {
 
 		if (posAfterHeader <= 0) {
@@ -185,8 +269,37 @@ export class SaveWriter extends ByteWriter {
 
 		// create save body
 		this.bufferArray = this.bufferArray.slice(posAfterHeader);
-		const chunkSummary = SaveWriter.GenerateCompressedChunksFromData(this.bufferArray, compressionInfo, onBinaryBeforeCompressing, onChunk, this.alignment);
+		const chunkSummary = SaveWriter.GenerateCompressedChunksFromData(this.bufferArray, compressionInfo, onBinaryBeforeCompressing, onChunk, this.alignment, bodySizeOverhead, writeOptions);
 
 		return chunkSummary;
 	}
+
+	/**
+	 * generates the chunks like {@link generateChunks}, but lets them be compressed asynchronously. See {@link SaveWriter.GenerateCompressedChunksFromDataAsync}.
+	 */
+	public async generateChunksAsync(
+		compressionInfo: ChunkCompressionInfo,
+		posAfterHeader: number,
+
+		onBinaryBeforeCompressing: (binary: ArrayBuffer) => void,
+		onHeader: (header: Uint8Array) => void,
+		onChunk: (chunk: Uint8Array) => void,
+		compressChunk: (uncompressedChunk: ArrayBuffer, compressionInfo: ChunkCompressionInfo) => Promise<Uint8Array>,
+		maxPendingChunks: number,
+		bodySizeOverhead: number = 8,
+		writeOptions: Partial<ChunkWriteOptions> = {}
+	): Promise<ChunkSummary[]> {
+
+		if (posAfterHeader <= 0) {
+			throw new ParserError('ParserError', 'Seems like this buffer has no header. Please write the header first before you can generate chunks.');
+		}
+
+		// send plain header first.
+		const header = new Uint8Array(this.bufferArray.slice(0, posAfterHeader));
+		onHeader(header);
+
+		// create save body
+		this.bufferArray = this.bufferArray.slice(posAfterHeader);
+		return SaveWriter.GenerateCompressedChunksFromDataAsync(this.bufferArray, compressionInfo, onBinaryBeforeCompressing, onChunk, compressChunk, maxPendingChunks, this.alignment, bodySizeOverhead, writeOptions);
+	}
 }
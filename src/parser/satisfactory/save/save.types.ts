@@ -35,5 +35,31 @@ export interface SatisfactorySaveHeader {
     creativeModeEnabled?: boolean;
 }
 
+/**
+ * A cheap overview of a save. The objects are counted, but not parsed.
+ */
+export type SaveSummary = {
+    header: SatisfactorySaveHeader;
+    levelCount: number;
+    objectCount: number;
+    levels: {
+        name: string;
+        objectCount: number;
+    }[];
+};
+
 /** @public */
-export type RoughSaveVersion = '<U6' | 'U6/U7' | 'U8' | 'U1.0+';
\ No newline at end of file
+export type RoughSaveVersion = '<U6' | 'U6/U7' | 'U8' | 'U1.0+';
+
+/**
+ * Describes an object whose data could not be parsed in tolerant mode. Its raw bytes are kept in `unparsedData` of the object.
+ * @offset the position of the object data in the decompressed save body.
+ */
+export type SkippedObjectDiagnostic = {
+    levelName: string;
+    instanceName: string;
+    typePath: string;
+    offset: number;
+    binarySize: number;
+    error: string;
+};
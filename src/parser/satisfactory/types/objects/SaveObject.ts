@@ -15,9 +15,12 @@ export interface SaveObjectHeader {
 export abstract class SaveObject implements SaveObjectHeader {
 
 	public properties: PropertiesMap = {};
-	public specialProperties: SpecialAnyProperties = {};
+	public specialProperties: SpecialAnyProperties = { type: 'EmptySpecialProperties' };
 	public trailingData: number[] = [];
 
+	/** the raw object data, only set if the object could not be parsed in tolerant mode. */
+	public unparsedData?: number[];
+
 	public objectVersion: number = 0;
 	public unknownType2: number = 0;
 
@@ -45,7 +48,7 @@ export abstract class SaveObject implements SaveObjectHeader {
 		reader.readInt32(); // 0
 
 		let remainingSize = length - (reader.getBufferPosition() - start);
-		obj.specialProperties = SpecialProperties.ParseClassSpecificSpecialProperties(reader, typePath, remainingSize);
+		obj.specialProperties = SpecialProperties.ParseClassSpecificSpecialProperties(reader, typePath, remainingSize, buildVersion);
 
 		remainingSize = length - (reader.getBufferPosition() - start);
 		if (remainingSize > 0) {
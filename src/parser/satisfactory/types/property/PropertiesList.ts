@@ -1,6 +1,6 @@
 import { BinaryReadable } from '../../../byte/binary-readable.interface';
 import { ByteWriter } from '../../../byte/byte-writer.class';
-import { ParserError } from '../../../error/parser.error';
+import { ParserError, UnimplementedError } from '../../../error/parser.error';
 import { ArrayProperty } from './generic/ArrayProperty';
 import { AbstractBaseProperty, PropertiesMap } from './generic/BasicProperty';
 import { BoolProperty } from './generic/BoolProperty';
@@ -13,6 +13,7 @@ import { Int64Property } from './generic/Int64Property';
 import { Int8Property } from './generic/Int8Property';
 import { MapProperty } from './generic/MapProperty';
 import { ObjectProperty } from './generic/ObjectProperty';
+import { isRawProperty, RawProperty } from './generic/RawProperty';
 import { SetProperty } from './generic/SetProperty';
 import { SoftObjectProperty } from './generic/SoftObjectProperty';
 import { StrProperty } from './generic/StrProperty';
@@ -21,8 +22,15 @@ import { TextProperty } from './generic/TextProperty';
 import { Uint32Property } from './generic/Uint32Property';
 import { Uint64Property } from './generic/Uint64Property';
 import { Uint8Property } from './generic/Uint8Property';
+import { PropertyTypeHandler, PropertyTypeRegistry } from './PropertyTypeRegistry';
 
 
+const RAW_PROPERTY_HANDLER: PropertyTypeHandler<RawProperty> = {
+	parse: (reader, context) => RawProperty.Parse(reader, context.ueType, context.index, context.binarySize),
+	serialize: (writer, property) => RawProperty.Serialize(writer, property),
+	calcOverhead: (property) => RawProperty.CalcOverhead(property)
+};
+
 export namespace PropertiesList {
 
 	export const ParseList = (reader: BinaryReadable, buildVersion: number): PropertiesMap => {
@@ -57,133 +65,42 @@ export namespace PropertiesList {
 	}
 
 	export const ParseSingleProperty = (reader: BinaryReadable, buildVersion: number, propertyName: string): AbstractBaseProperty => {
-		let currentProperty: any = {};
 
-		//TODO assign type and index after parsing.
+		reader.context.push('property', propertyName);
 		const propertyType = reader.readString();
 		const binarySize = reader.readInt32();
 
 		const index = reader.readInt32();
 		const before = reader.getBufferPosition();
 
-		let overhead = 0;
-		switch (propertyType) {
-			case 'BoolProperty':
-				currentProperty = BoolProperty.Parse(reader, propertyType, index);
-				overhead = BoolProperty.CalcOverhead(currentProperty);
-				break;
-
-			case 'ByteProperty':
-				currentProperty = ByteProperty.Parse(reader, propertyType, index);
-				overhead = ByteProperty.CalcOverhead(currentProperty);
-				break;
-
-			case 'Int8Property':
-				currentProperty = Int8Property.Parse(reader, propertyType, index);
-				overhead = Int8Property.CalcOverhead(currentProperty);
-				break;
-
-
-			case 'UInt8Property':
-				currentProperty = Uint8Property.Parse(reader, propertyType, index);
-				overhead = Uint8Property.CalcOverhead(currentProperty);
-				break;
-
-			case 'IntProperty':
-			case 'Int32Property':
-				currentProperty = Int32Property.Parse(reader, propertyType, index);
-				overhead = Int32Property.CalcOverhead(currentProperty);
-				break;
-
-			case 'UInt32Property':
-				currentProperty = Uint32Property.Parse(reader, propertyType, index);
-				overhead = Uint32Property.CalcOverhead(currentProperty);
-				break;
-
-			case 'Int64Property':
-				currentProperty = Int64Property.Parse(reader, propertyType, index);
-				overhead = Int64Property.CalcOverhead(currentProperty);
-				break;
-
-			case 'UInt64Property':
-				currentProperty = Uint64Property.Parse(reader, propertyType, index);
-				break;
-
-			case 'SingleProperty':
-			case 'FloatProperty':
-				currentProperty = FloatProperty.Parse(reader, propertyType, index);
-				overhead = FloatProperty.CalcOverhead(currentProperty);
-				break;
-
-			case 'DoubleProperty':
-				currentProperty = DoubleProperty.Parse(reader, propertyType, index);
-				overhead = DoubleProperty.CalcOverhead(currentProperty);
-				break;
-
-			case 'StrProperty':
-			case 'NameProperty':
-				currentProperty = StrProperty.Parse(reader, propertyType, index);
-				overhead = StrProperty.CalcOverhead(currentProperty);
-				break;
-
-			case 'ObjectProperty':
-			case 'InterfaceProperty':
-				currentProperty = ObjectProperty.Parse(reader, propertyType, index);
-				overhead = ObjectProperty.CalcOverhead(currentProperty);
-				break;
-
-			case 'SoftObjectProperty':
-				currentProperty = SoftObjectProperty.Parse(reader, propertyType, index);
-				overhead = SoftObjectProperty.CalcOverhead(currentProperty);
-				break;
-
-			case 'EnumProperty':
-				currentProperty = EnumProperty.Parse(reader, propertyType, index);
-				overhead = EnumProperty.CalcOverhead(currentProperty);
-				break;
-
-			case 'StructProperty':
-				currentProperty = StructProperty.Parse(reader, propertyType, index, binarySize);
-				overhead = StructProperty.CalcOverhead(currentProperty);
-				break;
-
-			case 'ArrayProperty':
-				currentProperty = ArrayProperty.Parse(reader, propertyType, index, propertyName);
-				overhead = ArrayProperty.CalcOverhead(currentProperty);
-				break;
-
-			case 'MapProperty':
-				currentProperty = MapProperty.Parse(reader, propertyName, buildVersion, binarySize);
-				overhead = MapProperty.CalcOverhead(currentProperty);
-				break;
-
-			case 'TextProperty':
-				currentProperty = TextProperty.Parse(reader, propertyType, index);
-				overhead = TextProperty.CalcOverhead(currentProperty);
-				break;
-
-			case 'SetProperty':
-				currentProperty = SetProperty.Parse(reader, propertyType, index, propertyName);
-				overhead = SetProperty.CalcOverhead(currentProperty);
-				break;
-
-			default:
-				throw new Error(`Unimplemented type ${propertyType}`);
+		// unknown types are kept as raw bytes.
+		const handler = PropertyTypeRegistry.Get(propertyType) ?? RAW_PROPERTY_HANDLER;
+		const currentProperty = handler.parse(reader, { propertyName, ueType: propertyType, index, binarySize, buildVersion });
+
+		// containers with unsupported subtypes fall back to raw properties as well.
+		const overhead = handler.calcOverhead(currentProperty);
+		if (isRawProperty(currentProperty)) {
+			reader.diagnostics.report('RAW_PROPERTY', `${propertyType} ${propertyName} is not supported and kept as raw bytes.`, before, reader.context);
 		}
 
 		currentProperty.name = propertyName;
 
 		const readBytes = reader.getBufferPosition() - before - overhead;
 		if (readBytes !== binarySize) {
-			console.warn(`possibly corrupt. Read ${readBytes} for ${propertyType} ${propertyName}, but ${binarySize} were indicated.`);
 			throw new ParserError('ParserError', `possibly corrupt. Read ${readBytes} bytes for ${propertyType} ${propertyName}, but ${binarySize} bytes were indicated.`);
 		}
 
+		reader.context.pop();
 		return currentProperty;
 	}
 
 	export const SerializeSingleProperty = (writer: ByteWriter, property: AbstractBaseProperty, propertyName: string, buildVersion: number): void => {
 
+		const handler: PropertyTypeHandler | undefined = isRawProperty(property) ? RAW_PROPERTY_HANDLER : PropertyTypeRegistry.Get(property.ueType);
+		if (handler === undefined) {
+			throw new UnimplementedError(`Unimplemented type ${property.ueType}`);
+		}
+
 		writer.writeString(property.ueType);
 
 		// binary length indicator
@@ -194,118 +111,127 @@ export namespace PropertiesList {
 		writer.writeInt32(property.index ?? 0);
 
 		const start = writer.getBufferPosition();
-		let overhead = 0;
-		switch (property.ueType) {
-			case 'BoolProperty':
-				overhead = BoolProperty.CalcOverhead(property as BoolProperty);
-				BoolProperty.Serialize(writer, property as BoolProperty);
-				break;
-
-			case 'ByteProperty':
-				overhead = ByteProperty.CalcOverhead(property as ByteProperty);
-				ByteProperty.Serialize(writer, property as ByteProperty);
-				break;
-
-			case 'Int8Property':
-				overhead = Int8Property.CalcOverhead(property as Int8Property);
-				Int8Property.Serialize(writer, property as Int8Property);
-				break;
-
-			case 'UInt8Property':
-				overhead = Uint8Property.CalcOverhead(property as Uint8Property);
-				Uint8Property.Serialize(writer, property as Uint8Property);
-				break;
-
-			case 'IntProperty':
-			case 'Int32Property':
-				overhead = Int32Property.CalcOverhead(property as Int32Property);
-				Int32Property.Serialize(writer, property as Int32Property);
-				break;
-
-			case 'UInt32Property':
-				overhead = Uint32Property.CalcOverhead(property as Uint32Property);
-				Uint32Property.Serialize(writer, property as Uint32Property);
-				break;
-
-			case 'Int64Property':
-				overhead = Int64Property.CalcOverhead(property as Int64Property);
-				Int64Property.Serialize(writer, property as Int64Property);
-				break;
-
-			case 'UInt64PRoperty':
-				overhead = Uint64Property.CalcOverhead(property as Int64Property);
-				Uint64Property.Serialize(writer, property as Int64Property);
-				break;
-
-			case 'SingleProperty':
-			case 'FloatProperty':
-				overhead = FloatProperty.CalcOverhead(property as FloatProperty);
-				FloatProperty.Serialize(writer, property as FloatProperty);
-				break;
-
-			case 'DoubleProperty':
-				overhead = DoubleProperty.CalcOverhead(property as DoubleProperty);
-				DoubleProperty.Serialize(writer, property as DoubleProperty);
-				break;
-
-			case 'StrProperty':
-			case 'NameProperty':
-				overhead = StrProperty.CalcOverhead(property as StrProperty);
-				StrProperty.Serialize(writer, property as StrProperty);
-				break;
-
-			case 'ObjectProperty':
-			case 'InterfaceProperty':
-				overhead = ObjectProperty.CalcOverhead(property as ObjectProperty);
-				ObjectProperty.Serialize(writer, property as ObjectProperty);
-				break;
-
-			case 'SoftObjectProperty':
-				overhead = SoftObjectProperty.CalcOverhead(property as SoftObjectProperty);
-				SoftObjectProperty.Serialize(writer, property as SoftObjectProperty);
-				break;
-
-			case 'EnumProperty':
-				overhead = EnumProperty.CalcOverhead(property as EnumProperty);
-				EnumProperty.Serialize(writer, property as EnumProperty);
-				break;
-
-			case 'ByteProperty':
-				overhead = ByteProperty.CalcOverhead(property as ByteProperty);
-				ByteProperty.Serialize(writer, property as ByteProperty);
-				break;
-
-			case 'StructProperty':
-				overhead = StructProperty.CalcOverhead(property as StructProperty);
-				StructProperty.Serialize(writer, property as StructProperty);
-				break;
-
-			case 'ArrayProperty':
-				overhead = ArrayProperty.CalcOverhead(property as ArrayProperty<any>);
-				ArrayProperty.Serialize(writer, property as ArrayProperty<any>, propertyName);
-				break;
-
-			case 'MapProperty':
-				overhead = MapProperty.CalcOverhead(property as MapProperty);
-				MapProperty.Serialize(writer, property as MapProperty);
-				break;
-
-			case 'TextProperty':
-				overhead = TextProperty.CalcOverhead(property as TextProperty);
-				TextProperty.Serialize(writer, property as TextProperty);
-				break;
-
-			case 'SetProperty':
-				overhead = SetProperty.CalcOverhead(property as SetProperty<any>);
-				SetProperty.Serialize(writer, property as SetProperty<any>);
-				break;
-
-			default:
-				throw new Error(`Unimplemented type ${property.type}`);
-		}
+		const overhead = handler.calcOverhead(property);
+		handler.serialize(writer, property, { propertyName, buildVersion });
 
 		// replace len indicator.
 		writer.writeBinarySizeFromPosition(lenIndicator, start + overhead);
 	}
 }
 
+
+// built-in property types. They go through the same registry as custom ones.
+PropertyTypeRegistry.Register<BoolProperty>('BoolProperty', {
+	parse: (reader, context) => BoolProperty.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => BoolProperty.Serialize(writer, property),
+	calcOverhead: (property) => BoolProperty.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<ByteProperty>('ByteProperty', {
+	parse: (reader, context) => ByteProperty.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => ByteProperty.Serialize(writer, property),
+	calcOverhead: (property) => ByteProperty.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<Int8Property>('Int8Property', {
+	parse: (reader, context) => Int8Property.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => Int8Property.Serialize(writer, property),
+	calcOverhead: (property) => Int8Property.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<Uint8Property>('UInt8Property', {
+	parse: (reader, context) => Uint8Property.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => Uint8Property.Serialize(writer, property),
+	calcOverhead: (property) => Uint8Property.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<Int32Property>(['IntProperty', 'Int32Property'], {
+	parse: (reader, context) => Int32Property.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => Int32Property.Serialize(writer, property),
+	calcOverhead: (property) => Int32Property.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<Uint32Property>('UInt32Property', {
+	parse: (reader, context) => Uint32Property.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => Uint32Property.Serialize(writer, property),
+	calcOverhead: (property) => Uint32Property.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<Int64Property>('Int64Property', {
+	parse: (reader, context) => Int64Property.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => Int64Property.Serialize(writer, property),
+	calcOverhead: (property) => Int64Property.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<Uint64Property>('UInt64Property', {
+	parse: (reader, context) => Uint64Property.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => Uint64Property.Serialize(writer, property),
+	calcOverhead: (property) => Uint64Property.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<FloatProperty>(['SingleProperty', 'FloatProperty'], {
+	parse: (reader, context) => FloatProperty.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => FloatProperty.Serialize(writer, property),
+	calcOverhead: (property) => FloatProperty.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<DoubleProperty>('DoubleProperty', {
+	parse: (reader, context) => DoubleProperty.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => DoubleProperty.Serialize(writer, property),
+	calcOverhead: (property) => DoubleProperty.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<StrProperty>(['StrProperty', 'NameProperty'], {
+	parse: (reader, context) => StrProperty.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => StrProperty.Serialize(writer, property),
+	calcOverhead: (property) => StrProperty.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<ObjectProperty>(['ObjectProperty', 'InterfaceProperty'], {
+	parse: (reader, context) => ObjectProperty.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => ObjectProperty.Serialize(writer, property),
+	calcOverhead: (property) => ObjectProperty.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<SoftObjectProperty>('SoftObjectProperty', {
+	parse: (reader, context) => SoftObjectProperty.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => SoftObjectProperty.Serialize(writer, property),
+	calcOverhead: (property) => SoftObjectProperty.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<EnumProperty>('EnumProperty', {
+	parse: (reader, context) => EnumProperty.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => EnumProperty.Serialize(writer, property),
+	calcOverhead: (property) => EnumProperty.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<StructProperty>('StructProperty', {
+	parse: (reader, context) => StructProperty.Parse(reader, context.ueType, context.index, context.binarySize),
+	serialize: (writer, property) => StructProperty.Serialize(writer, property),
+	calcOverhead: (property) => StructProperty.CalcOverhead(property)
+});
+
+// containers fall back to raw properties for subtypes they do not know.
+PropertyTypeRegistry.Register<ArrayProperty<any> | RawProperty>('ArrayProperty', {
+	parse: (reader, context) => ArrayProperty.Parse(reader, context.ueType, context.index, context.propertyName, context.binarySize),
+	serialize: (writer, property, context) => isRawProperty(property) ? RawProperty.Serialize(writer, property) : ArrayProperty.Serialize(writer, property, context.propertyName),
+	calcOverhead: (property) => isRawProperty(property) ? RawProperty.CalcOverhead(property) : ArrayProperty.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<MapProperty | RawProperty>('MapProperty', {
+	parse: (reader, context) => MapProperty.Parse(reader, context.propertyName, context.buildVersion, context.binarySize, context.ueType, context.index),
+	serialize: (writer, property) => isRawProperty(property) ? RawProperty.Serialize(writer, property) : MapProperty.Serialize(writer, property),
+	calcOverhead: (property) => isRawProperty(property) ? RawProperty.CalcOverhead(property) : MapProperty.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<TextProperty>('TextProperty', {
+	parse: (reader, context) => TextProperty.Parse(reader, context.ueType, context.index),
+	serialize: (writer, property) => TextProperty.Serialize(writer, property),
+	calcOverhead: (property) => TextProperty.CalcOverhead(property)
+});
+
+PropertyTypeRegistry.Register<SetProperty<any> | RawProperty>('SetProperty', {
+	parse: (reader, context) => SetProperty.Parse(reader, context.ueType, context.index, context.propertyName, context.binarySize),
+	serialize: (writer, property) => isRawProperty(property) ? RawProperty.Serialize(writer, property) : SetProperty.Serialize(writer, property),
+	calcOverhead: (property) => isRawProperty(property) ? RawProperty.CalcOverhead(property) : SetProperty.CalcOverhead(property)
+});
@@ -0,0 +1,52 @@
+import { BinaryReadable } from '../../../byte/binary-readable.interface';
+import { ByteWriter } from '../../../byte/byte-writer.class';
+import { AbstractBaseProperty } from './generic/BasicProperty';
+
+
+/**
+ * Everything that is known about a property from its tag, before its value is parsed.
+ * @binarySize the indicated binary size of the value, without the type-specific overhead.
+ */
+export type PropertyParseContext = {
+	propertyName: string;
+	ueType: string;
+	index: number;
+	binarySize: number;
+	buildVersion: number;
+};
+
+export type PropertySerializeContext = {
+	propertyName: string;
+	buildVersion: number;
+};
+
+/**
+ * Describes how a property type gets parsed and serialized.
+ * @calcOverhead returns the count of bytes that are written as part of the property, but are not included in its indicated binary size.
+ */
+export type PropertyTypeHandler<T extends AbstractBaseProperty = any> = {
+	parse: (reader: BinaryReadable, context: PropertyParseContext) => T;
+	serialize: (writer: ByteWriter, property: T, context: PropertySerializeContext) => void;
+	calcOverhead: (property: T) => number;
+};
+
+/**
+ * Maps the property types like Unreal Engine calls them (e.g. `IntProperty`) to their handlers.
+ * The built-in properties are registered the same way, so registering an already known type replaces the built-in handling.
+ */
+export namespace PropertyTypeRegistry {
+
+	const handlers = new Map<string, PropertyTypeHandler>();
+
+	export const Register = <T extends AbstractBaseProperty>(ueTypes: string | string[], handler: PropertyTypeHandler<T>): void => {
+		for (const ueType of Array.isArray(ueTypes) ? ueTypes : [ueTypes]) {
+			handlers.set(ueType, handler);
+		}
+	}
+
+	export const Unregister = (ueType: string): boolean => handlers.delete(ueType);
+
+	export const Get = (ueType: string): PropertyTypeHandler | undefined => handlers.get(ueType);
+
+	export const GetRegisteredTypes = (): string[] => Array.from(handlers.keys());
+}
@@ -0,0 +1,36 @@
+import { BinaryReadable } from '../../../byte/binary-readable.interface';
+import { ByteWriter } from '../../../byte/byte-writer.class';
+
+
+/**
+ * Describes how the value of a struct subtype gets parsed and serialized.
+ * @read gets the indicated binary size of the value, which some structs need to tell their variants apart.
+ * @size optional. Returns the binary size of a value. If given, serialized values are checked against it.
+ */
+export type StructTypeHandler<T = any> = {
+	read: (reader: BinaryReadable, size: number, subtype: string) => T;
+	write: (writer: ByteWriter, value: T, subtype: string) => void;
+	size?: (value: T) => number;
+};
+
+/**
+ * Maps struct subtypes (e.g. `Vector` or a mod's struct like `FICFrameRange`) to their handlers.
+ * Subtypes without a handler are parsed as tagged property lists (`DynamicStructPropertyValue`).
+ * The built-in structs are registered the same way, so registering an already known subtype replaces the built-in handling.
+ */
+export namespace StructTypeRegistry {
+
+	const handlers = new Map<string, StructTypeHandler>();
+
+	export const Register = <T>(subtypes: string | string[], handler: StructTypeHandler<T>): void => {
+		for (const subtype of Array.isArray(subtypes) ? subtypes : [subtypes]) {
+			handlers.set(subtype, handler);
+		}
+	}
+
+	export const Unregister = (subtype: string): boolean => handlers.delete(subtype);
+
+	export const Get = (subtype: string): StructTypeHandler | undefined => handlers.get(subtype);
+
+	export const GetRegisteredTypes = (): string[] => Array.from(handlers.keys());
+}
@@ -1,6 +1,6 @@
 import { BinaryReadable } from '../../../../byte/binary-readable.interface';
 import { ByteWriter } from '../../../../byte/byte-writer.class';
-import { UnimplementedError } from '../../../../error/parser.error';
+import { CorruptSaveError } from '../../../../error/parser.error';
 import { ObjectReference } from '../../structs/ObjectReference';
 import { SoftObjectReference } from '../../structs/SoftObjectReference';
 import { BasicProperty } from './BasicProperty';
@@ -12,6 +12,7 @@ import { FloatProperty } from './FloatProperty';
 import { Int32Property } from './Int32Property';
 import { Int64Property } from './Int64Property';
 import { ObjectProperty } from './ObjectProperty';
+import { RawProperty } from './RawProperty';
 import { SoftObjectProperty } from './SoftObjectProperty';
 import { StrProperty } from './StrProperty';
 import { StructProperty } from './StructProperty';
@@ -36,9 +37,11 @@ export class ArrayProperty<T> extends BasicProperty {
         super({ type: 'ArrayProperty', ueType, index });
     }
 
-    public static Parse(reader: BinaryReadable, ueType: string, index: number, propertyName: string): ArrayProperty<any> {
+    public static Parse(reader: BinaryReadable, ueType: string, index: number, propertyName: string, size: number): ArrayProperty<any> | RawProperty {
+        const start = reader.getBufferPosition();
         const subtype = reader.readString();
         reader.skipBytes(1); // 0
+        const tagLength = reader.getBufferPosition() - start;
 
         let property;
         const elementCount = reader.readInt32();
@@ -121,17 +124,19 @@ export class ArrayProperty<T> extends BasicProperty {
 
 
                 const before = reader.getBufferPosition();
-                const maArr = new Array(elementCount).fill(0).map(() => {
+                const maArr = new Array(elementCount).fill(0).map((_, i) => {
 
                     const struct = new StructProperty(allStructType, type, allIndex, allGuid);
 
                     // we do NOT assign individual unk's here. Since they are only serialized always on ArrayProperty's Level once for all elements.
+                    reader.context.push('index', i);
                     struct.value = StructProperty.ParseValue(reader, allStructType, binarySize);
+                    reader.context.pop();
                     return struct;
                 });
                 const readBytes = reader.getBufferPosition() - before;
                 if (readBytes !== binarySize) {
-                    throw new Error('possibly corrupt in array of struct.');
+                    throw new CorruptSaveError(`possibly corrupt in array of struct. Read ${readBytes} bytes, but ${binarySize} bytes were indicated.`);
                 }
 
                 // Array Properties with struct values have some more properties.
@@ -139,7 +144,9 @@ export class ArrayProperty<T> extends BasicProperty {
                 break;
 
             default:
-                throw new UnimplementedError(`Unknown subtype ${subtype} for ${ueType}. Not implemented.`);
+                // unknown subtype, keep the raw bytes.
+                reader.skipBytes(start - reader.getBufferPosition());
+                return RawProperty.ParseWithTag(reader, ueType, index, tagLength, size);
 
         }
 
@@ -8,6 +8,7 @@ import { EnumProperty } from './EnumProperty';
 import { Int32Property } from './Int32Property';
 import { Int64Property } from './Int64Property';
 import { ObjectProperty } from './ObjectProperty';
+import { RawProperty } from './RawProperty';
 import { StrProperty } from './StrProperty';
 import { GENERIC_STRUCT_PROPERTY_VALUE } from './StructProperty';
 
@@ -16,6 +17,9 @@ export type MAP_STRUCT_KEY_PROXY = [number, number, number, number, number, numb
 export type GENERIC_MAP_KEY_TYPE = number | ObjectReference | boolean | GENERIC_STRUCT_PROPERTY_VALUE | MAP_STRUCT_KEY_PROXY;
 export type GENERIC_MAP_VALUE_TYPE = number | ObjectReference | boolean | GENERIC_STRUCT_PROPERTY_VALUE;
 
+const SUPPORTED_KEY_TYPES = ['StructProperty', 'ObjectProperty', 'StrProperty', 'NameProperty', 'EnumProperty', 'IntProperty', 'Int32Property', 'Int64Property', 'ByteProperty'];
+const SUPPORTED_VALUE_TYPES = ['StructProperty', 'ObjectProperty', 'StrProperty', 'NameProperty', 'EnumProperty', 'IntProperty', 'Int32Property', 'Int64Property', 'ByteProperty'];
+
 export const isMapProperty = (property: BasicProperty): property is MapProperty => property.type === 'MapProperty';
 
 export class MapProperty extends BasicProperty {
@@ -31,17 +35,25 @@ export class MapProperty extends BasicProperty {
         super({ type: 'MapProperty', ueType, index });
     }
 
-    public static Parse(reader: BinaryReadable, propertyName: string, buildVersion: number, size: number, ueType: string = 'MapProperty', index: number = 0): MapProperty {
+    public static Parse(reader: BinaryReadable, propertyName: string, buildVersion: number, size: number, ueType: string = 'MapProperty', index: number = 0): MapProperty | RawProperty {
         const start = reader.getBufferPosition();
         const property = new MapProperty(
             reader.readString(), reader.readString(), ueType, index
         );
 
         const unk = reader.readByte(); //0
+
+        if (!SUPPORTED_KEY_TYPES.includes(property.keyType) || !SUPPORTED_VALUE_TYPES.includes(property.valueType)) {
+            // unknown key or value type, keep the raw bytes.
+            const tagLength = reader.getBufferPosition() - start;
+            reader.skipBytes(start - reader.getBufferPosition());
+            return RawProperty.ParseWithTag(reader, ueType, index, tagLength, size);
+        }
         property.modeType = reader.readInt32(); //0
 
         const elementCount = reader.readInt32();
         for (let i = 0; i < elementCount; i++) {
+            reader.context.push('index', i);
             let key: GENERIC_MAP_KEY_TYPE;
             let value: GENERIC_MAP_VALUE_TYPE;
             // buffer position 698975
@@ -114,6 +126,7 @@ export class MapProperty extends BasicProperty {
             }
 
             property.values.push([key, value]);
+            reader.context.pop();
         }
 
         return property;
@@ -0,0 +1,48 @@
+import { BinaryReadable } from '../../../../byte/binary-readable.interface';
+import { ByteWriter } from '../../../../byte/byte-writer.class';
+import { AbstractBaseProperty, BasicProperty } from './BasicProperty';
+
+export const isRawProperty = (property: AbstractBaseProperty): property is RawProperty => property.type === 'RawProperty';
+
+/**
+ * Fallback for properties that the parser does not understand. Their bytes are kept as they are and written back unchanged.
+ * @tag the bytes between the property index and the value, that are not included in the binary size.
+ * @value the bytes of the value, as indicated by the binary size.
+ */
+export class RawProperty extends BasicProperty {
+
+    constructor(public tag: number[], public value: number[], ueType: string, index: number = 0) {
+        super({ type: 'RawProperty', ueType, index });
+    }
+
+    /**
+     * Reads an unknown property after its index. Since the layout of the tag is unknown, it is assumed to be just the guid info.
+     */
+    public static Parse(reader: BinaryReadable, ueType: string, index: number, size: number): RawProperty {
+        const hasGuid = reader.readByte();
+        const tag = [hasGuid];
+        if (hasGuid === 1) {
+            tag.push(...Array.from(reader.readBytes(16)));
+        }
+
+        return new RawProperty(tag, Array.from(reader.readBytes(size)), ueType, index);
+    }
+
+    /**
+     * Reads a property of known type with an unknown layout, like a container of unsupported subtype.
+     * The reader has to be positioned at the start of the tag, whose length is known.
+     */
+    public static ParseWithTag(reader: BinaryReadable, ueType: string, index: number, tagLength: number, size: number): RawProperty {
+        const tag = Array.from(reader.readBytes(tagLength));
+        return new RawProperty(tag, Array.from(reader.readBytes(size)), ueType, index);
+    }
+
+    public static CalcOverhead(property: RawProperty): number {
+        return property.tag.length;
+    }
+
+    public static Serialize(writer: ByteWriter, property: RawProperty): void {
+        writer.writeBytesArray(property.tag);
+        writer.writeBytesArray(property.value);
+    }
+}
@@ -6,6 +6,7 @@ import { vec3 } from '../../structs/vec3';
 import { BasicProperty } from './BasicProperty';
 import { Int32Property } from './Int32Property';
 import { ObjectProperty } from './ObjectProperty';
+import { RawProperty } from './RawProperty';
 import { StrProperty } from './StrProperty';
 import { Uint32Property } from './Uint32Property';
 
@@ -17,10 +18,12 @@ export class SetProperty<T> extends BasicProperty {
         super({ type: 'SetProperty', ueType, index });
     }
 
-    public static Parse(reader: BinaryReadable, ueType: string, index: number, propertyName: string): SetProperty<any> {
+    public static Parse(reader: BinaryReadable, ueType: string, index: number, propertyName: string, size: number): SetProperty<any> | RawProperty {
 
+        const start = reader.getBufferPosition();
         const subtype = reader.readString();
         reader.skipBytes(1); // 0
+        const tagLength = reader.getBufferPosition() - start;
         reader.skipBytes(4); // 0
         const elementCount = reader.readInt32();
 
@@ -47,17 +50,19 @@ export class SetProperty<T> extends BasicProperty {
 
                 if (propertyName === 'mRemovalLocations') {
                     property = new SetProperty<vec3>(subtype, new Array(elementCount).fill(0).map(() => vec3.ParseF(reader)), ueType, index);
-                }
-
-                if (propertyName === 'mDestroyedPickups' || propertyName === 'mLootedDropPods') {
+                } else if (propertyName === 'mDestroyedPickups' || propertyName === 'mLootedDropPods') {
                     property = new SetProperty<GUID>(subtype, new Array(elementCount).fill(0).map(() => GUID.read(reader)), ueType, index);
                 } else {
-                    throw new Error(`Not Implemented SetProperty of StructProperty for property ${propertyName}.`);
+                    // unknown struct layout, keep the raw bytes.
+                    reader.skipBytes(start - reader.getBufferPosition());
+                    return RawProperty.ParseWithTag(reader, ueType, index, tagLength, size);
                 }
                 break;
 
             default:
-                throw new Error(`Not Implemented SetProperty of ${subtype}.`);
+                // unknown subtype, keep the raw bytes.
+                reader.skipBytes(start - reader.getBufferPosition());
+                return RawProperty.ParseWithTag(reader, ueType, index, tagLength, size);
         }
 
         return property!;
@@ -1,11 +1,12 @@
 import { BinaryReadable } from '../../../../byte/binary-readable.interface';
 import { ByteWriter } from '../../../../byte/byte-writer.class';
-import { CorruptSaveError } from '../../../../error/parser.error';
+import { CorruptSaveError, ParserError } from '../../../../error/parser.error';
 import { col4 } from '../../structs/col4';
 import { DynamicStructPropertyValue } from '../../structs/DynamicStructPropertyValue';
 import { FICFrameRange } from '../../structs/mods/FicsItCam/FICFrameRange';
 import { vec3 } from '../../structs/vec3';
 import { vec4 } from '../../structs/vec4';
+import { StructTypeRegistry } from '../StructTypeRegistry';
 import { AbstractBaseProperty } from './BasicProperty';
 
 
@@ -114,138 +115,15 @@ export class StructProperty extends AbstractBaseProperty {
     }
 
     public static ParseValue(reader: BinaryReadable, subtype: string, size: number): GENERIC_STRUCT_PROPERTY_VALUE {
+        reader.context.push('struct', subtype);
 
-        let value: GENERIC_STRUCT_PROPERTY_VALUE;
-
-        switch (subtype) {
-            case 'Color':
-                value = col4.ParseBGRA(reader);
-                break;
-
-            case 'IntPoint':
-                value = reader.readInt64().toString();
-                break;
-
-            case 'LinearColor':
-                value = col4.ParseRGBA(reader);
-                break;
-
-            case 'Vector':
-            case 'Rotator':
-            case 'Vector2D':
-                value = (size === 12) ? vec3.ParseF(reader) : vec3.Parse(reader);
-                break;
-
-            case 'Quat':
-            case 'Vector4':
-            case 'Vector4D':
-                value = (size === 16) ? vec4.ParseF(reader) : vec4.Parse(reader);
-                break;
-
-            case 'Box':
-                value = ((size === 25) ? {
-                    min: vec3.ParseF(reader),
-                    max: vec3.ParseF(reader),
-                    isValid: reader.readByte() >= 1
-                } : {
-                    min: vec3.Parse(reader),
-                    max: vec3.Parse(reader),
-                    isValid: reader.readByte() >= 1
-                }) satisfies BoxStructPropertyValue;
-                break;
-
-            case 'RailroadTrackPosition':
-                value = {
-                    root: reader.readString(),
-                    instanceName: reader.readString(),
-                    offset: reader.readFloat32(),
-                    forward: reader.readFloat32()
-                };
-                break;
-
-            case 'TimerHandle':
-                value = reader.readString();
-                break;
-
-            case 'Guid':
-                value = reader.readString();
-                break;
-
-            case 'ClientIdentityInfo':
-                const offlineId = reader.readString();
-                const numAccountIds = reader.readInt32();
-
-                const accountIds: Record<number, number[]> = {};
-                for (let i = 0; i < numAccountIds; i++) {
-                    const platformFlagMaybe = reader.readByte();    // 1 for Epic, 6 for steam ? Only seen 1s and 6s so far.
-                    const idSize = reader.readInt32();
-                    const accountId = Array.from(reader.readBytes(idSize));
-                    accountIds[platformFlagMaybe] = accountId;
-                }
-
-                value = {
-                    offlineId,
-                    accountIds
-                } satisfies ClientIdentityInfo;
-                break;
-
-            case 'InventoryItem':
-                const before = reader.getBufferPosition();
-
-                value = {
-                    unk1: reader.readInt32(),
-                    itemName: reader.readString(),
-                    hasItemState: reader.readInt32(), // this indicates whether more properties follow
-                } satisfies InventoryItemStructPropertyValue;
-
-                if (value.hasItemState >= 1) {
-                    const stateUnk = reader.readInt32(); // 0
-                    const statePathName = reader.readString();
-                    const stateBinarySize = reader.readInt32();
-                    const itemStateRaw = Array.from(reader.readBytes(stateBinarySize)); // TODO: learn to parse these properties
-
-                    value.itemState = {
-                        unk: stateUnk,
-                        pathName: statePathName,
-                        binarySize: stateBinarySize,
-                        itemStateRaw: itemStateRaw
-                    };
-                }
-
-                // some have a 0 here. Only applies to ported saves from U8 i think.
-                const bytesLeft = size - (reader.getBufferPosition() - before);
-                if (bytesLeft === 0 || (bytesLeft === 4 && reader.readInt32() === 0)) {
-                    // fine
-                } else {
-                    throw new CorruptSaveError(`save may be corrupt. InventoryItem has weird format that was not seen so far and therefore not implemented. Could be that the save is ported from way before U8.`);
-                }
-
-                break;
-
-            case 'FluidBox':
-                value = {
-                    value: reader.readFloat32()
-                };
-                break;
-
-            case 'SlateBrush':
-                value = reader.readString();
-                break;
-
-            case 'DateTime':
-                value = reader.readInt64().toString();
-                break;
-
-            // MODS
-            case 'FICFrameRange': // https://github.com/Panakotta00/FicsIt-Cam/blob/master/Source/FicsItCam/Public/Data/FICTypes.h#35
-                value = FICFrameRange.Parse(reader);
-                break;
-
-            default:
-                //TODO: use buildversion
-                value = DynamicStructPropertyValue.read(reader, 0, subtype);
-        }
+        const handler = StructTypeRegistry.Get(subtype);
+        //TODO: use buildversion
+        const value = handler !== undefined
+            ? handler.read(reader, size, subtype)
+            : DynamicStructPropertyValue.read(reader, 0, subtype);
 
+        reader.context.pop();
         return value;
     }
 
@@ -266,114 +144,182 @@ export class StructProperty extends AbstractBaseProperty {
     }
 
     public static SerializeValue(writer: ByteWriter, subtype: string, value: GENERIC_STRUCT_PROPERTY_VALUE): void {
+        const handler = StructTypeRegistry.Get(subtype);
+        if (handler === undefined) {
+            //TODO: use buildversion
+            DynamicStructPropertyValue.write(writer, 0, value as DynamicStructPropertyValue);
+            return;
+        }
+
+        const before = writer.getBufferPosition();
+        handler.write(writer, value, subtype);
 
-        switch (subtype) {
-            case 'Color':
-                value = value as col4;
-                col4.SerializeBGRA(writer, value);
-                break;
-
-            case 'IntPoint':
-                writer.writeInt64(BigInt(value as string))
-                break;
-
-            case 'LinearColor':
-                value = value as col4;
-                col4.SerializeRGBA(writer, value);
-                break;
-
-            case 'Vector':
-            case 'Rotator':
-            case 'Vector2D':
-                value = value as vec3;
-                vec3.Serialize(writer, value);
-                break;
-
-            case 'Quat':
-            case 'Vector4':
-            case 'Vector4D':
-                value = value as vec4;
-                vec4.Serialize(writer, value as vec4);
-                break;
-
-            case 'Box':
-                value = value as BoxStructPropertyValue;
-                vec3.Serialize(writer, value.min);
-                vec3.Serialize(writer, value.max);
-                writer.writeByte(value.isValid ? 1 : 0);
-                break;
-
-            case 'RailroadTrackPosition':
-                value = value as RailroadTrackPositionStructPropertyValue;
-                writer.writeString(value.root);
-                writer.writeString(value.instanceName);
-                writer.writeFloat32(value.offset);
-                writer.writeFloat32(value.forward);
-                break;
-
-            case 'TimerHandle':
-                value = value as string;
-                writer.writeString(value);
-                break;
-
-            case 'Guid':
-                value = value as string;
-                writer.writeString(value);
-                break;
-
-            case 'ClientIdentityInfo':
-                value = value as ClientIdentityInfo;
-                writer.writeString(value.offlineId);
-                writer.writeInt32(Object.values(value.accountIds).length);
-                for (const [platformFlagMaybe, accountId] of Object.entries(value.accountIds)) {
-                    writer.writeByte(Number(platformFlagMaybe));
-                    writer.writeInt32(accountId.length);
-                    writer.writeBytesArray(accountId);
-                }
-
-                break;
-
-            case 'InventoryItem':
-                value = value as InventoryItemStructPropertyValue;
-                writer.writeInt32(value.unk1);
-                writer.writeString(value.itemName);
-                writer.writeInt32(value.hasItemState);
-
-                if (value.hasItemState >= 1) {
-                    writer.writeInt32(value.itemState!.unk);
-                    writer.writeString(value.itemState!.pathName);
-                    writer.writeInt32(value.itemState!.binarySize);
-                    writer.writeBytesArray(value.itemState!.itemStateRaw);
-                }
-                break;
-
-            case 'FluidBox':
-                value = value as BasicStructPropertyValue;
-                writer.writeFloat32(value.value);
-                break;
-
-            case 'SlateBrush':
-                value = value as string;
-                writer.writeString(value);
-                break;
-
-            case 'DateTime':
-                value = value as string;
-                writer.writeInt64(BigInt(value));
-                break;
-
-            // MODS
-            case 'FICFrameRange': // https://github.com/Panakotta00/FicsIt-Cam/blob/master/Source/FicsItCam/Public/Data/FICTypes.h#35
-                value = value as FICFrameRange;
-                FICFrameRange.Serialize(writer, value);
-                break;
-
-            default:
-                //TODO: use buildversion
-                value = value as DynamicStructPropertyValue;
-                DynamicStructPropertyValue.write(writer, 0, value);
+        if (handler.size !== undefined) {
+            const expectedSize = handler.size(value);
+            const writtenBytes = writer.getBufferPosition() - before;
+            if (writtenBytes !== expectedSize) {
+                throw new ParserError('ParserError', `Wrote ${writtenBytes} bytes for struct ${subtype}, but its handler indicated ${expectedSize} bytes.`);
+            }
         }
     }
 }
 
 
+// built-in struct types. They go through the same registry as mod structs.
+StructTypeRegistry.Register<col4>('Color', {
+    read: (reader) => col4.ParseBGRA(reader),
+    write: (writer, value) => col4.SerializeBGRA(writer, value),
+    size: () => 4
+});
+
+StructTypeRegistry.Register<string>(['IntPoint', 'DateTime'], {
+    read: (reader) => reader.readInt64().toString(),
+    write: (writer, value) => writer.writeInt64(BigInt(value)),
+    size: () => 8
+});
+
+StructTypeRegistry.Register<col4>('LinearColor', {
+    read: (reader) => col4.ParseRGBA(reader),
+    write: (writer, value) => col4.SerializeRGBA(writer, value),
+    size: () => 16
+});
+
+StructTypeRegistry.Register<vec3>(['Vector', 'Rotator', 'Vector2D'], {
+    read: (reader, size) => (size === 12) ? vec3.ParseF(reader) : vec3.Parse(reader),
+    write: (writer, value) => writer.singlePrecisionStructs ? vec3.SerializeF(writer, value) : vec3.Serialize(writer, value)
+});
+
+StructTypeRegistry.Register<vec4>(['Quat', 'Vector4', 'Vector4D'], {
+    read: (reader, size) => (size === 16) ? vec4.ParseF(reader) : vec4.Parse(reader),
+    write: (writer, value) => writer.singlePrecisionStructs ? vec4.SerializeF(writer, value) : vec4.Serialize(writer, value)
+});
+
+StructTypeRegistry.Register<BoxStructPropertyValue>('Box', {
+    read: (reader, size) => (size === 25) ? {
+        min: vec3.ParseF(reader),
+        max: vec3.ParseF(reader),
+        isValid: reader.readByte() >= 1
+    } : {
+        min: vec3.Parse(reader),
+        max: vec3.Parse(reader),
+        isValid: reader.readByte() >= 1
+    },
+    write: (writer, value) => {
+        if (writer.singlePrecisionStructs) {
+            vec3.SerializeF(writer, value.min);
+            vec3.SerializeF(writer, value.max);
+        } else {
+            vec3.Serialize(writer, value.min);
+            vec3.Serialize(writer, value.max);
+        }
+        writer.writeByte(value.isValid ? 1 : 0);
+    }
+});
+
+StructTypeRegistry.Register<RailroadTrackPositionStructPropertyValue>('RailroadTrackPosition', {
+    read: (reader) => ({
+        root: reader.readString(),
+        instanceName: reader.readString(),
+        offset: reader.readFloat32(),
+        forward: reader.readFloat32()
+    }),
+    write: (writer, value) => {
+        writer.writeString(value.root);
+        writer.writeString(value.instanceName);
+        writer.writeFloat32(value.offset);
+        writer.writeFloat32(value.forward);
+    }
+});
+
+StructTypeRegistry.Register<string>(['TimerHandle', 'Guid', 'SlateBrush'], {
+    read: (reader) => reader.readString(),
+    write: (writer, value) => writer.writeString(value)
+});
+
+StructTypeRegistry.Register<ClientIdentityInfo>('ClientIdentityInfo', {
+    read: (reader) => {
+        const offlineId = reader.readString();
+        const numAccountIds = reader.readInt32();
+
+        const accountIds: Record<number, number[]> = {};
+        for (let i = 0; i < numAccountIds; i++) {
+            const platformFlagMaybe = reader.readByte();    // 1 for Epic, 6 for steam ? Only seen 1s and 6s so far.
+            const idSize = reader.readInt32();
+            const accountId = Array.from(reader.readBytes(idSize));
+            accountIds[platformFlagMaybe] = accountId;
+        }
+
+        return {
+            offlineId,
+            accountIds
+        };
+    },
+    write: (writer, value) => {
+        writer.writeString(value.offlineId);
+        writer.writeInt32(Object.values(value.accountIds).length);
+        for (const [platformFlagMaybe, accountId] of Object.entries(value.accountIds)) {
+            writer.writeByte(Number(platformFlagMaybe));
+            writer.writeInt32(accountId.length);
+            writer.writeBytesArray(accountId);
+        }
+    }
+});
+
+StructTypeRegistry.Register<InventoryItemStructPropertyValue>('InventoryItem', {
+    read: (reader, size) => {
+        const before = reader.getBufferPosition();
+
+        const value: InventoryItemStructPropertyValue = {
+            unk1: reader.readInt32(),
+            itemName: reader.readString(),
+            hasItemState: reader.readInt32(), // this indicates whether more properties follow
+        };
+
+        if (value.hasItemState >= 1) {
+            const stateUnk = reader.readInt32(); // 0
+            const statePathName = reader.readString();
+            const stateBinarySize = reader.readInt32();
+            const itemStateRaw = Array.from(reader.readBytes(stateBinarySize)); // TODO: learn to parse these properties
+
+            value.itemState = {
+                unk: stateUnk,
+                pathName: statePathName,
+                binarySize: stateBinarySize,
+                itemStateRaw: itemStateRaw
+            };
+        }
+
+        // some have a 0 here. Only applies to ported saves from U8 i think.
+        const bytesLeft = size - (reader.getBufferPosition() - before);
+        if (bytesLeft === 0 || (bytesLeft === 4 && reader.readInt32() === 0)) {
+            // fine
+        } else {
+            throw new CorruptSaveError(`save may be corrupt. InventoryItem has weird format that was not seen so far and therefore not implemented. Could be that the save is ported from way before U8.`);
+        }
+
+        return value;
+    },
+    write: (writer, value) => {
+        writer.writeInt32(value.unk1);
+        writer.writeString(value.itemName);
+        writer.writeInt32(value.hasItemState);
+
+        if (value.hasItemState >= 1) {
+            writer.writeInt32(value.itemState!.unk);
+            writer.writeString(value.itemState!.pathName);
+            writer.writeInt32(value.itemState!.binarySize);
+            writer.writeBytesArray(value.itemState!.itemStateRaw);
+        }
+    }
+});
+
+StructTypeRegistry.Register<BasicStructPropertyValue>('FluidBox', {
+    read: (reader) => ({
+        value: reader.readFloat32()
+    }),
+    write: (writer, value) => writer.writeFloat32(value.value),
+    size: () => 4
+});
+
+// MODS
+StructTypeRegistry.Register<FICFrameRange>('FICFrameRange', FICFrameRange.StructHandler);
@@ -1,11 +1,11 @@
-import { ByteReader } from '../../../../byte/byte-reader.class';
+import { BinaryReadable } from '../../../../byte/binary-readable.interface';
 import { ByteWriter } from '../../../../byte/byte-writer.class';
 import { ObjectReference } from '../../structs/ObjectReference';
 import { vec3 } from '../../structs/vec3';
 
 
 
-export const isConveyorChainActorSpecialProperties = (obj: any): obj is ConveyorChainActorSpecialProperties => obj.type === 'CircuiConveyorChainActorSpecialPropertiestSpecialProperties';
+export const isConveyorChainActorSpecialProperties = (obj: any): obj is ConveyorChainActorSpecialProperties => obj.type === 'ConveyorChainActorSpecialProperties';
 
 export type ConveyorChainActorSpecialProperties = {
     type: 'ConveyorChainActorSpecialProperties';
@@ -20,7 +20,7 @@ export type ConveyorChainActorSpecialProperties = {
 };
 
 export namespace ConveyorChainActorSpecialProperties {
-    export const Parse = (reader: ByteReader): ConveyorChainActorSpecialProperties => {
+    export const Parse = (reader: BinaryReadable): ConveyorChainActorSpecialProperties => {
 
         const lastBelt = ObjectReference.read(reader);
         const firstBelt = ObjectReference.read(reader);
@@ -116,7 +116,7 @@ export namespace ConveyorChainActorSpecialProperties {
             writer.writeInt32(belt.beltIndexInChain);
         }
 
-        writer.writeInt32(property.totalLength);
+        writer.writeFloat32(property.totalLength);
         writer.writeInt32(property.totalNumberItemsMaybe);
         writer.writeInt32(property.firstChainItemIndex);
         writer.writeInt32(property.lastChainItemIndex);
@@ -1,23 +1,64 @@
-import { ByteReader } from '../../../../byte/byte-reader.class';
+import { BinaryReadable } from '../../../../byte/binary-readable.interface';
 import { ByteWriter } from '../../../../byte/byte-writer.class';
+import { ObjectReference } from '../../structs/ObjectReference';
 
 
 
 export const isConveyorSpecialProperties = (obj: any): obj is ConveyorSpecialProperties => obj.type === 'ConveyorSpecialProperties';
 
+/**
+ * @items only present in saves before 1.0. Since then, the items are in the conveyor chain actor.
+ */
 export type ConveyorSpecialProperties = {
     type: 'ConveyorSpecialProperties';
+    items?: LegacyConveyorItemSpecialProperties[];
+};
+
+/**
+ * An item on a conveyor belt in saves before 1.0.
+ * @position the position of the item on the belt.
+ */
+export type LegacyConveyorItemSpecialProperties = {
+    length: number;
+    name: string;
+    itemReference: ObjectReference;
+    position: number;
 };
 
 export namespace ConveyorSpecialProperties {
-    export const Parse = (reader: ByteReader): ConveyorSpecialProperties => {
+    export const Parse = (reader: BinaryReadable, remainingLen: number = 4): ConveyorSpecialProperties => {
         reader.readInt32(); // 0
-        return {
+        const property: ConveyorSpecialProperties = {
             type: 'ConveyorSpecialProperties',
         };
+
+        // before 1.0, the items are listed here.
+        if (remainingLen > 4) {
+            const itemCount = reader.readInt32();
+            property.items = [];
+            for (let i = 0; i < itemCount; i++) {
+                const length = reader.readInt32();
+                const name = reader.readString();
+                const itemReference = ObjectReference.read(reader);
+                const position = reader.readFloat32();
+                property.items.push({ length, name, itemReference, position });
+            }
+        }
+
+        return property;
     };
 
     export const Serialize = (writer: ByteWriter, property: ConveyorSpecialProperties) => {
         writer.writeInt32(0);
+
+        if (property.items !== undefined) {
+            writer.writeInt32(property.items.length);
+            for (const item of property.items) {
+                writer.writeInt32(item.length);
+                writer.writeString(item.name);
+                ObjectReference.write(writer, item.itemReference);
+                writer.writeFloat32(item.position);
+            }
+        }
     };
 }
@@ -1,4 +1,4 @@
-import { ByteReader } from '../../../../byte/byte-reader.class';
+import { BinaryReadable } from '../../../../byte/binary-readable.interface';
 import { ByteWriter } from '../../../../byte/byte-writer.class';
 import { ObjectReference } from '../../structs/ObjectReference';
 import { vec3 } from '../../structs/vec3';
@@ -16,12 +16,13 @@ export type PowerLineSpecialProperties = {
 };
 
 export namespace PowerLineSpecialProperties {
-    export const Parse = (reader: ByteReader, remainingLen: number): PowerLineSpecialProperties => {
+    export const Parse = (reader: BinaryReadable, remainingLen: number): PowerLineSpecialProperties => {
         const start = reader.getBufferPosition();
         const property: PowerLineSpecialProperties = {
+            type: 'PowerLineSpecialProperties',
             source: ObjectReference.read(reader),
             target: ObjectReference.read(reader)
-        } as PowerLineSpecialProperties;
+        };
 
         if (remainingLen - (reader.getBufferPosition() - start) >= 24) {
             property.sourceTranslation = vec3.ParseF(reader);
@@ -34,5 +35,10 @@ export namespace PowerLineSpecialProperties {
     export const Serialize = (writer: ByteWriter, property: PowerLineSpecialProperties) => {
         ObjectReference.write(writer, property.source);
         ObjectReference.write(writer, property.target);
+
+        if (property.sourceTranslation !== undefined && property.targetTranslation !== undefined) {
+            vec3.SerializeF(writer, property.sourceTranslation);
+            vec3.SerializeF(writer, property.targetTranslation);
+        }
     };
 }
@@ -0,0 +1,21 @@
+import { BuildableSubsystemSpecialProperties } from './BuildableSubsystemSpecialProperties';
+import { CircuitSpecialProperties } from './CircuitSpecialProperties';
+import { ConveyorChainActorSpecialProperties } from './ConveyorChainActorSpecialProperties';
+import { ConveyorSpecialProperties } from './ConveyorSpecialProperties';
+import { EmptySpecialProperties } from './EmptySpecialProperties';
+import { ObjectsListSpecialProperties } from './ObjectsListSpecialProperties';
+import { PlayerSpecialProperties } from './PlayerSpecialProperties';
+import { PowerLineSpecialProperties } from './PowerLineSpecialProperties';
+import { SpecialDroneActionProperties } from './SpecialDroneActionProperties';
+import { VehicleSpecialProperties } from './VehicleSpecialProperties';
+
+export type SpecialAnyProperties = BuildableSubsystemSpecialProperties
+    | CircuitSpecialProperties
+    | ConveyorChainActorSpecialProperties
+    | ConveyorSpecialProperties
+    | EmptySpecialProperties
+    | ObjectsListSpecialProperties
+    | PlayerSpecialProperties
+    | PowerLineSpecialProperties
+    | SpecialDroneActionProperties
+    | VehicleSpecialProperties;
@@ -1,205 +1,124 @@
-import { ByteReader } from '../../../../byte/byte-reader.class';
+import { BinaryReadable } from '../../../../byte/binary-readable.interface';
 import { ByteWriter } from '../../../../byte/byte-writer.class';
-import { BuildableSubsystemSpecialProperties, isBuildableSubsystemSpecialProperties } from './BuildableSubsystemSpecialProperties';
-import { CircuitSpecialProperties, isCircuitSpecialProperties } from './CircuitSpecialProperties';
-import { ConveyorChainActorSpecialProperties, isConveyorChainActorSpecialProperties } from './ConveyorChainActorSpecialProperties';
-import { ConveyorSpecialProperties, isConveyorSpecialProperties } from './ConveyorSpecialProperties';
-import { EmptySpecialProperties, isEmptySpecialProperties } from './EmptySpecialProperties';
-import { isObjectsListSpecialProperties, ObjectsListSpecialProperties } from './ObjectsListSpecialProperties';
-import { isPlayerSpecialProperties, PlayerSpecialProperties } from './PlayerSpecialProperties';
-import { isPowerLineSpecialProperties, PowerLineSpecialProperties } from './PowerLineSpecialProperties';
-import { isSpecialDroneActionProperties, SpecialDroneActionProperties } from './SpecialDroneActionProperties';
-import { isVehicleSpecialProperties, VehicleSpecialProperties } from './VehicleSpecialProperties';
+import { BuildableSubsystemSpecialProperties } from './BuildableSubsystemSpecialProperties';
+import { CircuitSpecialProperties } from './CircuitSpecialProperties';
+import { ConveyorChainActorSpecialProperties } from './ConveyorChainActorSpecialProperties';
+import { ConveyorSpecialProperties } from './ConveyorSpecialProperties';
+import { EmptySpecialProperties } from './EmptySpecialProperties';
+import { ObjectsListSpecialProperties } from './ObjectsListSpecialProperties';
+import { PlayerSpecialProperties } from './PlayerSpecialProperties';
+import { PowerLineSpecialProperties } from './PowerLineSpecialProperties';
+import { SpecialAnyProperties } from './SpecialAnyProperties';
+import { SpecialDroneActionProperties } from './SpecialDroneActionProperties';
+import { SpecialPropertiesRegistry } from './SpecialPropertiesRegistry';
+import { VehicleSpecialProperties } from './VehicleSpecialProperties';
 
 
 
 export namespace SpecialProperties {
 
-    export type AvailableSpecialPropertiesTypes = ReturnType<typeof ParseClassSpecificSpecialProperties>;
-
-    export const ParseClassSpecificSpecialProperties = (reader: ByteReader, typePath: string, remainingLen: number) => {
-        let property;
-
-        switch (typePath) {
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk1/Build_ConveyorBeltMk1.Build_ConveyorBeltMk1_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk2/Build_ConveyorBeltMk2.Build_ConveyorBeltMk2_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk3/Build_ConveyorBeltMk3.Build_ConveyorBeltMk3_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk4/Build_ConveyorBeltMk4.Build_ConveyorBeltMk4_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk5/Build_ConveyorBeltMk5.Build_ConveyorBeltMk5_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk6/Build_ConveyorBeltMk6.Build_ConveyorBeltMk6_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk1/Build_ConveyorLiftMk1.Build_ConveyorLiftMk1_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk2/Build_ConveyorLiftMk2.Build_ConveyorLiftMk2_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk3/Build_ConveyorLiftMk3.Build_ConveyorLiftMk3_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk4/Build_ConveyorLiftMk4.Build_ConveyorLiftMk4_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk5/Build_ConveyorLiftMk5.Build_ConveyorLiftMk5_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk6/Build_ConveyorLiftMk6.Build_ConveyorLiftMk6_C':
-                // since U1.0 the conveyor items are now in ConveyorChainActor.
-                property = ConveyorSpecialProperties.Parse(reader);
-                break;
-
-            case '/Game/FactoryGame/-Shared/Blueprint/BP_CircuitSubsystem.BP_CircuitSubsystem_C':
-                property = CircuitSpecialProperties.Parse(reader);
-                break;
-
-            case '/Game/FactoryGame/-Shared/Blueprint/BP_GameState.BP_GameState_C':
-            case '/Game/FactoryGame/-Shared/Blueprint/BP_GameMode.BP_GameMode_C':
-                property = ObjectsListSpecialProperties.Parse(reader);
-                break;
-
-            case '/Script/FactoryGame.FGConveyorChainActor':
-            case '/Script/FactoryGame.FGConveyorChainActor_RepSizeMedium':
-            case '/Script/FactoryGame.FGConveyorChainActor_RepSizeLarge':
-            case '/Script/FactoryGame.FGConveyorChainActor_RepSizeHuge':
-            case '/Script/FactoryGame.FGConveyorChainActor_RepSizeNoCull':
-                property = ConveyorChainActorSpecialProperties.Parse(reader);
-                break;
-
-            case '/Game/FactoryGame/Buildable/Factory/PowerLine/Build_PowerLine.Build_PowerLine_C':
-            case '/Game/FactoryGame/Events/Christmas/Buildings/PowerLineLights/Build_XmassLightsLine.Build_XmassLightsLine_C':
-                property = PowerLineSpecialProperties.Parse(reader, remainingLen);
-                break;
-
-            case '/Game/FactoryGame/Buildable/Vehicle/Tractor/BP_Tractor.BP_Tractor_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Truck/BP_Truck.BP_Truck_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Explorer/BP_Explorer.BP_Explorer_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Cyberwagon/Testa_BP_WB.Testa_BP_WB_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Golfcart/BP_Golfcart.BP_Golfcart_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Golfcart/BP_GolfcartGold.BP_GolfcartGold_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Train/Locomotive/BP_Locomotive.BP_Locomotive_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Train/Wagon/BP_FreightWagon.BP_FreightWagon_C':
-                property = VehicleSpecialProperties.Parse(reader, remainingLen, typePath);
-                break;
-
-            case '/Game/FactoryGame/Buildable/Factory/DroneStation/BP_DroneTransport.BP_DroneTransport_C':
-                property = SpecialDroneActionProperties.Parse(reader);
-                break;
-
-            case '/Game/FactoryGame/Character/Player/BP_PlayerState.BP_PlayerState_C':
-                property = PlayerSpecialProperties.Parse(reader);
-                break;
-
-            //buildables like foundations are now here since 1.0
-            case '/Script/FactoryGame.FGLightweightBuildableSubsystem':
-                property = BuildableSubsystemSpecialProperties.Parse(reader);
-                break;
-
-            default:
-                // ignore / empty. Rest will land in trailing data anyway.
-                property = EmptySpecialProperties.Parse(reader);
-                break;
+    export type AvailableSpecialPropertiesTypes = SpecialAnyProperties;
+
+    export const ParseClassSpecificSpecialProperties = (reader: BinaryReadable, typePath: string, remainingLen: number, buildVersion: number = 0): SpecialAnyProperties => {
+        const handler = SpecialPropertiesRegistry.Get(typePath);
+        if (handler === undefined) {
+            // ignore / empty. Rest will land in trailing data anyway.
+            return EmptySpecialProperties.Parse(reader);
         }
 
-        return property;
+        return handler.parse(reader, { typePath, remainingLen, buildVersion });
     }
 
-    export const SerializeClassSpecificSpecialProperties = (writer: ByteWriter, typePath: string, property: AvailableSpecialPropertiesTypes): void => {
-        if (isConveyorSpecialProperties(property)) {
-            ConveyorSpecialProperties.Serialize(writer, property);
-        } else if (isCircuitSpecialProperties(property)) {
-            CircuitSpecialProperties.Serialize(writer, property);
-        } else if (isConveyorSpecialProperties(property)) {
-            ConveyorSpecialProperties.Serialize(writer, property);
-        } else if (isConveyorChainActorSpecialProperties(property)) {
-            ConveyorChainActorSpecialProperties.Serialize(writer, property);
-        } else if (isPowerLineSpecialProperties(property)) {
-            PowerLineSpecialProperties.Serialize(writer, property);
-        } else if (isObjectsListSpecialProperties(property)) {
-            ObjectsListSpecialProperties.Serialize(writer, property);
-        } else if (isVehicleSpecialProperties(property)) {
-            VehicleSpecialProperties.Serialize(writer, property);
-        } else if (isSpecialDroneActionProperties(property)) {
-            SpecialDroneActionProperties.Serialize(writer, property);
-        } else if (isPlayerSpecialProperties(property)) {
-            PlayerSpecialProperties.Serialize(writer, property);
-        } else if (isBuildableSubsystemSpecialProperties(property)) {
-            BuildableSubsystemSpecialProperties.Serialize(writer, property);
-        } else if (isEmptySpecialProperties(property)) {
-            EmptySpecialProperties.Serialize(writer, property);
-        } else {
-            console.warn(`Parser is not serializing special property ${JSON.stringify(property)} of object with type ${typePath}. Unimplemented.`);
-        }
-        /*
-        switch (typePath) {
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk1/Build_ConveyorBeltMk1.Build_ConveyorBeltMk1_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk2/Build_ConveyorBeltMk2.Build_ConveyorBeltMk2_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk3/Build_ConveyorBeltMk3.Build_ConveyorBeltMk3_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk4/Build_ConveyorBeltMk4.Build_ConveyorBeltMk4_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk5/Build_ConveyorBeltMk5.Build_ConveyorBeltMk5_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk6/Build_ConveyorBeltMk6.Build_ConveyorBeltMk6_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk1/Build_ConveyorLiftMk1.Build_ConveyorLiftMk1_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk2/Build_ConveyorLiftMk2.Build_ConveyorLiftMk2_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk3/Build_ConveyorLiftMk3.Build_ConveyorLiftMk3_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk4/Build_ConveyorLiftMk4.Build_ConveyorLiftMk4_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk5/Build_ConveyorLiftMk5.Build_ConveyorLiftMk5_C':
-            case '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk6/Build_ConveyorLiftMk6.Build_ConveyorLiftMk6_C':
-                if (isConveyorSpecialProperties(property)) {
-                    ConveyorSpecialProperties.Serialize(writer, property);
-                }
-                break;
-
-
-            case '/Game/FactoryGame/-Shared/Blueprint/BP_CircuitSubsystem.BP_CircuitSubsystem_C':
-                if (isCircuitSpecialProperties(property)) {
-                    CircuitSpecialProperties.Serialize(writer, property);
-                }
-                break;
-
-            case '/Script/FactoryGame.FGConveyorChainActor':
-            case '/Script/FactoryGame.FGConveyorChainActor_RepSizeMedium':
-            case '/Script/FactoryGame.FGConveyorChainActor_RepSizeLarge':
-            case '/Script/FactoryGame.FGConveyorChainActor_RepSizeHuge':
-            case '/Script/FactoryGame.FGConveyorChainActor_RepSizeNoCull':
-                if (isConveyorChainActorSpecialProperties(property)) {
-                    ConveyorChainActorSpecialProperties.Serialize(writer, property);
-                }
-                break;
-
-            case '/Game/FactoryGame/Buildable/Factory/PowerLine/Build_PowerLine.Build_PowerLine_C':
-            case '/Game/FactoryGame/Events/Christmas/Buildings/PowerLineLights/Build_XmassLightsLine.Build_XmassLightsLine_C':
-
-                if (isPowerLineSpecialProperties(property)) {
-                    PowerLineSpecialProperties.Serialize(writer, property);
-                }
-                break;
-
-            case '/Game/FactoryGame/-Shared/Blueprint/BP_GameState.BP_GameState_C':
-            case '/Game/FactoryGame/-Shared/Blueprint/BP_GameMode.BP_GameMode_C':
-                if (isObjectsListSpecialProperties(property)) {
-                    ObjectsListSpecialProperties.Serialize(writer, property);
-                }
-                break;
-
-            case '/Game/FactoryGame/Buildable/Vehicle/Tractor/BP_Tractor.BP_Tractor_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Truck/BP_Truck.BP_Truck_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Explorer/BP_Explorer.BP_Explorer_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Cyberwagon/Testa_BP_WB.Testa_BP_WB_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Golfcart/BP_Golfcart.BP_Golfcart_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Golfcart/BP_GolfcartGold.BP_GolfcartGold_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Train/Locomotive/BP_Locomotive.BP_Locomotive_C':
-            case '/Game/FactoryGame/Buildable/Vehicle/Train/Wagon/BP_FreightWagon.BP_FreightWagon_C':
-                if (isVehicleSpecialProperties(property)) {
-                    VehicleSpecialProperties.Serialize(writer, property);
-                }
-                break;
-
-            case '/Game/FactoryGame/Buildable/Factory/DroneStation/BP_DroneTransport.BP_DroneTransport_C':
-                if (isSpecialDroneActionProperties(property)) {
-                    SpecialDroneActionProperties.Serialize(writer, property);
-                }
-                break;
-
-            case '/Game/FactoryGame/Character/Player/BP_PlayerState.BP_PlayerState_C':
-                if (isPlayerSpecialProperties(property)) {
-                    PlayerSpecialProperties.Serialize(writer, property);
-                }
-                break;
-
-            case '/Script/FactoryGame.FGLightweightBuildableSubsystem':
-                if (isBuildableSubsystemSpecialProperties(property)) {
-                    BuildableSubsystemSpecialProperties.Serialize(writer, property);
-                }
-                break;
+    export const SerializeClassSpecificSpecialProperties = (writer: ByteWriter, typePath: string, property: SpecialAnyProperties): void => {
+        const handler = SpecialPropertiesRegistry.Get(typePath);
+        if (handler === undefined) {
+            // empty. Rest is written from trailing data.
+            return;
         }
-        */
+
+        handler.serialize(writer, property, typePath);
     }
 }
+
+
+// built-in special properties. They go through the same registry as modded ones.
+SpecialPropertiesRegistry.Register<ConveyorSpecialProperties>([
+    '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk1/Build_ConveyorBeltMk1.Build_ConveyorBeltMk1_C',
+    '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk2/Build_ConveyorBeltMk2.Build_ConveyorBeltMk2_C',
+    '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk3/Build_ConveyorBeltMk3.Build_ConveyorBeltMk3_C',
+    '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk4/Build_ConveyorBeltMk4.Build_ConveyorBeltMk4_C',
+    '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk5/Build_ConveyorBeltMk5.Build_ConveyorBeltMk5_C',
+    '/Game/FactoryGame/Buildable/Factory/ConveyorBeltMk6/Build_ConveyorBeltMk6.Build_ConveyorBeltMk6_C',
+    '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk1/Build_ConveyorLiftMk1.Build_ConveyorLiftMk1_C',
+    '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk2/Build_ConveyorLiftMk2.Build_ConveyorLiftMk2_C',
+    '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk3/Build_ConveyorLiftMk3.Build_ConveyorLiftMk3_C',
+    '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk4/Build_ConveyorLiftMk4.Build_ConveyorLiftMk4_C',
+    '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk5/Build_ConveyorLiftMk5.Build_ConveyorLiftMk5_C',
+    '/Game/FactoryGame/Buildable/Factory/ConveyorLiftMk6/Build_ConveyorLiftMk6.Build_ConveyorLiftMk6_C',
+], {
+    // since U1.0 the conveyor items are now in ConveyorChainActor.
+    parse: (reader, context) => ConveyorSpecialProperties.Parse(reader, context.remainingLen),
+    serialize: (writer, property) => ConveyorSpecialProperties.Serialize(writer, property)
+});
+
+SpecialPropertiesRegistry.Register<CircuitSpecialProperties>('/Game/FactoryGame/-Shared/Blueprint/BP_CircuitSubsystem.BP_CircuitSubsystem_C', {
+    parse: (reader) => CircuitSpecialProperties.Parse(reader),
+    serialize: (writer, property) => CircuitSpecialProperties.Serialize(writer, property)
+});
+
+SpecialPropertiesRegistry.Register<ObjectsListSpecialProperties>([
+    '/Game/FactoryGame/-Shared/Blueprint/BP_GameState.BP_GameState_C',
+    '/Game/FactoryGame/-Shared/Blueprint/BP_GameMode.BP_GameMode_C',
+], {
+    parse: (reader) => ObjectsListSpecialProperties.Parse(reader),
+    serialize: (writer, property) => ObjectsListSpecialProperties.Serialize(writer, property)
+});
+
+SpecialPropertiesRegistry.Register<ConveyorChainActorSpecialProperties>([
+    '/Script/FactoryGame.FGConveyorChainActor',
+    '/Script/FactoryGame.FGConveyorChainActor_RepSizeMedium',
+    '/Script/FactoryGame.FGConveyorChainActor_RepSizeLarge',
+    '/Script/FactoryGame.FGConveyorChainActor_RepSizeHuge',
+    '/Script/FactoryGame.FGConveyorChainActor_RepSizeNoCull',
+], {
+    parse: (reader) => ConveyorChainActorSpecialProperties.Parse(reader),
+    serialize: (writer, property) => ConveyorChainActorSpecialProperties.Serialize(writer, property)
+});
+
+SpecialPropertiesRegistry.Register<PowerLineSpecialProperties>([
+    '/Game/FactoryGame/Buildable/Factory/PowerLine/Build_PowerLine.Build_PowerLine_C',
+    '/Game/FactoryGame/Events/Christmas/Buildings/PowerLineLights/Build_XmassLightsLine.Build_XmassLightsLine_C',
+], {
+    parse: (reader, context) => PowerLineSpecialProperties.Parse(reader, context.remainingLen),
+    serialize: (writer, property) => PowerLineSpecialProperties.Serialize(writer, property)
+});
+
+SpecialPropertiesRegistry.Register<VehicleSpecialProperties>([
+    '/Game/FactoryGame/Buildable/Vehicle/Tractor/BP_Tractor.BP_Tractor_C',
+    '/Game/FactoryGame/Buildable/Vehicle/Truck/BP_Truck.BP_Truck_C',
+    '/Game/FactoryGame/Buildable/Vehicle/Explorer/BP_Explorer.BP_Explorer_C',
+    '/Game/FactoryGame/Buildable/Vehicle/Cyberwagon/Testa_BP_WB.Testa_BP_WB_C',
+    '/Game/FactoryGame/Buildable/Vehicle/Golfcart/BP_Golfcart.BP_Golfcart_C',
+    '/Game/FactoryGame/Buildable/Vehicle/Golfcart/BP_GolfcartGold.BP_GolfcartGold_C',
+    '/Game/FactoryGame/Buildable/Vehicle/Train/Locomotive/BP_Locomotive.BP_Locomotive_C',
+    '/Game/FactoryGame/Buildable/Vehicle/Train/Wagon/BP_FreightWagon.BP_FreightWagon_C',
+], {
+    parse: (reader, context) => VehicleSpecialProperties.Parse(reader, context.remainingLen, context.typePath),
+    serialize: (writer, property) => VehicleSpecialProperties.Serialize(writer, property)
+});
+
+SpecialPropertiesRegistry.Register<SpecialDroneActionProperties>('/Game/FactoryGame/Buildable/Factory/DroneStation/BP_DroneTransport.BP_DroneTransport_C', {
+    parse: (reader) => SpecialDroneActionProperties.Parse(reader),
+    serialize: (writer, property) => SpecialDroneActionProperties.Serialize(writer, property)
+});
+
+SpecialPropertiesRegistry.Register<PlayerSpecialProperties>('/Game/FactoryGame/Character/Player/BP_PlayerState.BP_PlayerState_C', {
+    parse: (reader) => PlayerSpecialProperties.Parse(reader),
+    serialize: (writer, property) => PlayerSpecialProperties.Serialize(writer, property)
+});
+
+//buildables like foundations are now here since 1.0
+SpecialPropertiesRegistry.Register<BuildableSubsystemSpecialProperties>('/Script/FactoryGame.FGLightweightBuildableSubsystem', {
+    parse: (reader) => BuildableSubsystemSpecialProperties.Parse(reader),
+    serialize: (writer, property) => BuildableSubsystemSpecialProperties.Serialize(writer, property)
+});
@@ -0,0 +1,69 @@
+import { BinaryReadable } from '../../../../byte/binary-readable.interface';
+import { ByteWriter } from '../../../../byte/byte-writer.class';
+
+
+/**
+ * Everything that is known about an object when its special properties are parsed.
+ * @remainingLen the count of bytes left in the object data after its properties list.
+ */
+export type SpecialPropertiesParseContext = {
+    typePath: string;
+    remainingLen: number;
+    buildVersion: number;
+};
+
+/**
+ * Describes how the class-specific special properties of a type path get parsed and serialized.
+ */
+export type SpecialPropertiesHandler<T = any> = {
+    parse: (reader: BinaryReadable, context: SpecialPropertiesParseContext) => T;
+    serialize: (writer: ByteWriter, property: T, typePath: string) => void;
+};
+
+/**
+ * A type path matches either exactly (string), by prefix or by a regular expression.
+ */
+export type TypePathMatcher = string | { prefix: string } | RegExp;
+
+/**
+ * Maps type paths to the handlers of their special properties. Parsing and serializing both look up the handler by type path.
+ * Exact type paths are looked up first. After that, prefixes and regular expressions are tested, the latest registered first.
+ */
+export namespace SpecialPropertiesRegistry {
+
+    const exactHandlers = new Map<string, SpecialPropertiesHandler>();
+    let patternHandlers: { matcher: { prefix: string } | RegExp, handler: SpecialPropertiesHandler }[] = [];
+
+    const matches = (matcher: { prefix: string } | RegExp, typePath: string): boolean => matcher instanceof RegExp
+        ? matcher.test(typePath)
+        : typePath.startsWith(matcher.prefix);
+
+    const isSameMatcher = (a: { prefix: string } | RegExp, b: { prefix: string } | RegExp): boolean => (a instanceof RegExp || b instanceof RegExp)
+        ? a instanceof RegExp && b instanceof RegExp && a.source === b.source && a.flags === b.flags
+        : a.prefix === b.prefix;
+
+    export const Register = <T>(matchers: TypePathMatcher | TypePathMatcher[], handler: SpecialPropertiesHandler<T>): void => {
+        for (const matcher of Array.isArray(matchers) ? matchers : [matchers]) {
+            if (typeof matcher === 'string') {
+                exactHandlers.set(matcher, handler);
+            } else {
+                patternHandlers = patternHandlers.filter(entry => !isSameMatcher(entry.matcher, matcher));
+                patternHandlers.unshift({ matcher, handler });
+            }
+        }
+    }
+
+    export const Unregister = (matcher: TypePathMatcher): boolean => {
+        if (typeof matcher === 'string') {
+            return exactHandlers.delete(matcher);
+        }
+
+        const count = patternHandlers.length;
+        patternHandlers = patternHandlers.filter(entry => !isSameMatcher(entry.matcher, matcher));
+        return patternHandlers.length !== count;
+    }
+
+    export const Get = (typePath: string): SpecialPropertiesHandler | undefined => {
+        return exactHandlers.get(typePath) ?? patternHandlers.find(entry => matches(entry.matcher, typePath))?.handler;
+    }
+}
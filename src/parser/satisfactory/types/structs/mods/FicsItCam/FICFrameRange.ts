@@ -1,5 +1,6 @@
 import { BinaryReadable } from '../../../../../byte/binary-readable.interface';
 import { BinaryWritable } from '../../../../../byte/binary-writable.interface';
+import { StructTypeHandler } from '../../../property/StructTypeRegistry';
 
 export type FICFrameRange = {
     begin: string;
@@ -19,4 +20,13 @@ export namespace FICFrameRange {
         writer.writeInt64(BigInt(value.begin));
         writer.writeInt64(BigInt(value.end));
     };
+
+    /**
+     * https://github.com/Panakotta00/FicsIt-Cam/blob/master/Source/FicsItCam/Public/Data/FICTypes.h#35
+     */
+    export const StructHandler: StructTypeHandler<FICFrameRange> = {
+        read: (reader) => Parse(reader),
+        write: (writer, value) => Serialize(writer, value),
+        size: () => 16
+    };
 }
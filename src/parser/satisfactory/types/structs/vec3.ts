@@ -52,5 +52,6 @@ export namespace vec3 {
     export const length = (vec: vec3): number => Math.sqrt(vec.x ** 2 + vec.y ** 2 + vec.z ** 2);
     export const mult = (vec: vec3, scale: number): vec3 => ({ x: vec.x * scale, y: vec.y * scale, z: vec.z * scale });
     export const norm = (vec: vec3): vec3 => mult(vec, 1. / length(vec));
+    export const cross = (vec: vec3, other: vec3): vec3 => ({ x: vec.y * other.z - vec.z * other.y, y: vec.z * other.x - vec.x * other.z, z: vec.x * other.y - vec.y * other.x });
 
 }
@@ -31,4 +31,24 @@ export namespace vec4 {
         vec3.SerializeF(writer, vec as vec3);
         writer.writeFloat32(vec.w);
     };
+
+
+    /**
+     * the hamilton product of two quaternions, which rotates by `other` first and then by `quat`.
+     */
+    export const quatMult = (quat: vec4, other: vec4): vec4 => ({
+        x: quat.w * other.x + quat.x * other.w + quat.y * other.z - quat.z * other.y,
+        y: quat.w * other.y - quat.x * other.z + quat.y * other.w + quat.z * other.x,
+        z: quat.w * other.z + quat.x * other.y - quat.y * other.x + quat.z * other.w,
+        w: quat.w * other.w - quat.x * other.x - quat.y * other.y - quat.z * other.z
+    });
+
+    /**
+     * rotates the vector by the unit quaternion, as v + 2w(q x v) + 2q x (q x v).
+     */
+    export const quatRotate = (quat: vec4, vec: vec3): vec3 => {
+        const axis: vec3 = { x: quat.x, y: quat.y, z: quat.z };
+        const t = vec3.mult(vec3.cross(axis, vec), 2);
+        return vec3.add(vec3.add(vec, vec3.mult(t, quat.w)), vec3.cross(axis, t));
+    };
 }
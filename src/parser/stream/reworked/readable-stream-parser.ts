@@ -1,11 +1,20 @@
 import { QueuingStrategy, ReadableStream, ReadableStreamDefaultController } from "stream/web";
-import { UnsupportedVersionError } from '../../error/parser.error';
-import { ChunkCompressionInfo } from "../../file.types";
+import { DiagnosticsReporter, ParserDiagnostic } from '../../diagnostics/parser.diagnostic';
+import { CorruptSaveError, ParserError } from '../../error/parser.error';
 import { Level } from '../../satisfactory/save/level.class';
 import { ObjectReferencesList } from '../../satisfactory/save/object-references-list';
 import { SatisfactorySave } from "../../satisfactory/save/satisfactory-save";
-import { Grids, SaveBodyValidation, SaveReader } from "../../satisfactory/save/save-reader";
-import { SatisfactorySaveHeader } from "../../satisfactory/save/save.types";
+import { SaveReader } from "../../satisfactory/save/save-reader";
+import { SaveVersionAdapter } from '../../satisfactory/save/save-version-adapter';
+import { SaveComponent } from '../../satisfactory/types/objects/SaveComponent';
+import { SaveEntity } from '../../satisfactory/types/objects/SaveEntity';
+import { SaveStreamFormat, SaveStreamFormatter } from './save-stream-formatter';
+import { SaveStreamReader } from './save-stream-reader.class';
+
+/**
+ * decides by the header of an object, whether the object gets parsed and emitted.
+ */
+export type StreamObjectFilter = (object: { typePath: string, instanceName: string, levelName: string }) => boolean;
 
 const DEFAULT_BYTE_HIGHWATERMARK = 1024 * 1024 * 200;	// 200MiB
 const createStringLengthQueuingStrategy = (highWaterMark: number = DEFAULT_BYTE_HIGHWATERMARK / 4): QueuingStrategy<string> => ({
@@ -88,21 +97,9 @@ export class ReadableStreamParser {
 	};
 
 	/**
-	 * the more elegant way to parse saves, instead of using the plain ParseSave. Since streaming will not hold the converted JSON in memory at once.
-	 * @param name the save name
-	 * @param bytes the save file as UInt8Array
-	 * @param onDecompressedSaveBody a callback to report back on the decompressed binary save body.
-	 * @param onProgress a callback to report back on the parsing progress. Optionally contains a message.
-	 * @returns a WHATWG compliant readable stream of strings (They are valid JSON and represent a {@link SatisfactorySave} object). And a method to actually start the streaming for more precise control.
+	 * Creates the readable stream of strings, together with a write function that waits for the consumer to catch up.
 	 */
-	public static CreateReadableStreamFromSaveToJson = (
-		name: string,
-		bytes: Uint8Array,
-		options?: Partial<{
-			onDecompressedSaveBody: (buffer: ArrayBuffer) => void,
-			onProgress: (progress: number, message?: string) => void
-		}>
-	) => {
+	private static CreateSyncedReadableStream = () => {
 
 		// create a simple lock to sync with consumer of the stream. Aka handle backpressure.
 		const waitForConsumerLock = new SimpleWaitForConsumerLock();
@@ -135,24 +132,44 @@ export class ReadableStreamParser {
 			controller.enqueue(value);
 		}
 
+		return { stream, write, finish };
+	};
+
+	/**
+	 * the more elegant way to parse saves, instead of using the plain ParseSave. Since streaming will not hold the converted JSON in memory at once.
+	 * @param name the save name
+	 * @param bytes the save file as UInt8Array
+	 * @param onDecompressedSaveBody a callback to report back on the decompressed binary save body.
+	 * @param onProgress a callback to report back on the parsing progress. Optionally contains a message.
+	 * @param onDiagnostic a callback to receive warnings that came up during parsing. If not given, they are printed to the console. A summary of them is appended to the save object.
+	 * @param filter decides by the header of an object, whether it gets parsed and emitted. The contents of other objects are skipped. If not given, all objects are emitted.
+	 * @param format the output format. By default 'json'. With 'ndjson', every line is a self-describing {@link NdjsonSaveRecord}.
+	 * @returns a WHATWG compliant readable stream of strings (By default, they are valid JSON and represent a {@link SatisfactorySave} object). And a method to actually start the streaming for more precise control.
+	 */
+	public static CreateReadableStreamFromSaveToJson = (
+		name: string,
+		bytes: Uint8Array,
+		options?: Partial<{
+			onDecompressedSaveBody: (buffer: ArrayBuffer) => void,
+			onProgress: (progress: number, message?: string) => void,
+			onDiagnostic: (diagnostic: ParserDiagnostic) => void,
+			filter: StreamObjectFilter,
+			format: SaveStreamFormat
+		}>
+	) => {
+
+		const { stream, write, finish } = ReadableStreamParser.CreateSyncedReadableStream();
+
 		const startStreaming = async (): Promise<void> => {
 
+			const formatter = SaveStreamFormatter.Get(options?.format ?? 'json');
 			const reader = new SaveReader(bytes.buffer, options?.onProgress);
+			reader.diagnostics = new DiagnosticsReporter(options?.onDiagnostic);
 
 			// read header
 			const header = reader.readHeader();
 			const save = new SatisfactorySave(name, header);
 
-			// guard save version
-			const roughSaveVersion = SaveReader.GetRoughSaveVersion(header.saveVersion, header.saveHeaderType);
-			if (roughSaveVersion === '<U6') {
-				throw new UnsupportedVersionError('Game Version < U6 is not supported.');
-			} else if (roughSaveVersion === 'U6/U7') {
-				throw new UnsupportedVersionError('Game Version U6/U7 is not supported in this package version. Consider downgrading to the latest package version supporting it, which is 0.0.34');
-			} else if (roughSaveVersion === 'U8') {
-				throw new UnsupportedVersionError('Game Version U8 is not supported in this package version. Consider downgrading to the latest package version supporting it, which is 0.3.7');
-			}
-
 			// inflate chunks
 			const inflateResult = reader.inflateChunks();
 
@@ -161,46 +178,114 @@ export class ReadableStreamParser {
 				options.onDecompressedSaveBody(reader.getBuffer());
 			}
 
-			// grid hash i guess
-			const gridHash = reader.readSaveBodyHash();
+			// grid hash i guess, since 1.0
+			if (reader.versionAdapter.hasSaveBodyHash) {
+				save.gridHash = reader.readSaveBodyHash();
+			}
 
-			// parse grids
-			const grids = reader.readGrids();
+			// parse grids, since 1.0
+			if (reader.versionAdapter.hasGrids) {
+				save.grids = reader.readGrids();
+			}
 
-			await ReadableStreamParser.WriteHeaderAndGrids(write, name, reader.compressionInfo, header, grids, gridHash);
+			await write(formatter.header(name, reader.compressionInfo, header, save.grids, save.gridHash), false);
 
 			// parse levels
-			await ReadableStreamParser.ReadWriteLevels(write, reader, save.header.mapName, save.header.buildVersion);
+			try {
+				await ReadableStreamParser.ReadWriteLevels(write, formatter, reader, save.header.mapName, save.header.buildVersion, options?.filter);
+			} catch (error) {
+				throw ParserError.WithContext(error, reader.context, reader.getBufferPosition());
+			}
 
 			if (options?.onProgress !== undefined) {
 				options.onProgress(1, 'finished parsing.');
 			}
 
 			// close the levels and save object.
-			await write(`]}`,);
+			const diagnosticsSummary = reader.diagnostics.getSummary();
+			await write(formatter.end(diagnosticsSummary));
 			finish();
 		};
 
 		return { stream, startStreaming };
 	}
 
-
-	private static WriteHeaderAndGrids = async (
-		write: (value: string, waitTilConsumingEndIsReady?: boolean) => Promise<void>,
+	/**
+	 * parses a save incrementally from a stream of its bytes. Unlike {@link CreateReadableStreamFromSaveToJson}, neither the file nor the decompressed save body has to be in memory at once.
+	 * The chunks get inflated one after another, only once the parsing needs more data.
+	 * @param name the save name
+	 * @param byteStream the save file as readable stream of bytes. In Node, a file stream can be converted via `Readable.toWeb()`.
+	 * @param onProgress a callback to report back on the parsing progress. Optionally contains a message.
+	 * @param onDiagnostic a callback to receive warnings that came up during parsing. If not given, they are printed to the console. A summary of them is appended to the save object.
+	 * @param filter decides by the header of an object, whether it gets parsed and emitted. The contents of other objects are skipped. If not given, all objects are emitted.
+	 * @param format the output format. By default 'json'. With 'ndjson', every line is a self-describing {@link NdjsonSaveRecord}.
+	 * @returns a WHATWG compliant readable stream of strings (By default, they are valid JSON and represent a {@link SatisfactorySave} object). And a method to actually start the streaming for more precise control.
+	 */
+	public static CreateReadableStreamFromByteStreamToJson = (
 		name: string,
-		compressionInfo: ChunkCompressionInfo,
-		header: SatisfactorySaveHeader,
-		grids: Grids,
-		gridHash: SaveBodyValidation
+		byteStream: ReadableStream<Uint8Array>,
+		options?: Partial<{
+			onProgress: (progress: number, message?: string) => void,
+			onDiagnostic: (diagnostic: ParserDiagnostic) => void,
+			filter: StreamObjectFilter,
+			format: SaveStreamFormat
+		}>
 	) => {
-		return write(`{"header": ${JSON.stringify(header)}, "name": "${name}", "compressionInfo": ${JSON.stringify(compressionInfo)}, "gridHash": ${JSON.stringify(gridHash)}, "grids": ${JSON.stringify(grids)}, "levels": [`, false);
+
+		const { stream, write, finish } = ReadableStreamParser.CreateSyncedReadableStream();
+
+		const startStreaming = async (): Promise<void> => {
+
+			const formatter = SaveStreamFormatter.Get(options?.format ?? 'json');
+			const reader = new SaveStreamReader(byteStream.getReader(), options?.onProgress);
+			reader.diagnostics = new DiagnosticsReporter(options?.onDiagnostic);
+
+			// read header
+			const header = await reader.readHeaderFromStream();
+			const save = new SatisfactorySave(name, header);
+
+			try {
+				await reader.readBodySize();
+
+				// grid hash i guess, since 1.0
+				if (reader.versionAdapter.hasSaveBodyHash) {
+					save.gridHash = await reader.readAsSoonAsAvailable(() => reader.readSaveBodyHash());
+				}
+
+				// parse grids, since 1.0
+				if (reader.versionAdapter.hasGrids) {
+					save.grids = await reader.readAsSoonAsAvailable(() => reader.readGrids());
+				}
+
+				await write(formatter.header(name, reader.compressionInfo, header, save.grids, save.gridHash), false);
+
+				// parse levels
+				await ReadableStreamParser.ReadWriteLevelsIncrementally(write, formatter, reader, save.header.mapName, save.header.buildVersion, options?.filter);
+				await reader.finishBody();
+			} catch (error) {
+				throw ParserError.WithContext(error, reader.context, reader.getBufferPosition());
+			}
+
+			if (options?.onProgress !== undefined) {
+				options.onProgress(1, 'finished parsing.');
+			}
+
+			// close the levels and save object.
+			const diagnosticsSummary = reader.diagnostics.getSummary();
+			await write(formatter.end(diagnosticsSummary));
+			finish();
+		};
+
+		return { stream, startStreaming };
 	}
 
 	private static async ReadWriteLevels(
 		write: (value: string, waitTilConsumingEndIsReady?: boolean) => Promise<void>,
+		formatter: SaveStreamFormatter,
 		reader: SaveReader,
 		mapName: string,
 		buildVersion: number,
+		filter?: StreamObjectFilter
 	): Promise<void> {
 
 		const batchingSizeOfObjects = 1000;
@@ -212,18 +297,18 @@ export class ReadableStreamParser {
 		let writtenTotalObjectsSinceConsumerSync = 0;
 		for (let j = 0; j <= levelCount; j++) {
 			let levelName = (j === levelCount) ? '' + mapName : reader.readString();
+			reader.context.push('level', levelName);
 
 			if (j % 500 === 0) {
 				reader.onProgressCallback(reader.getBufferProgress(), `reading level [${(j + 1)}/${(levelCount + 1)}] ${levelName}`);
 			}
 
 			// we will intentionally NOT wait for next pull request, since these few characters don't make waiting useful.
-			await write(`${j > 0 ? ', ' : ''}{"name": "${levelName}", "objects": [`, false);
+			await write(formatter.openLevel(levelName, j), false);
 
 
 			// object headers
-			const headersBinLen = reader.readInt32(); // object headers + destroyed colelctables
-			reader.readInt32();	// 0
+			const headersBinLen = SaveVersionAdapter.ReadLevelSectionSize(reader, reader.versionAdapter); // object headers + destroyed colelctables
 			const posBeforeHeaders = reader.getBufferPosition();
 			const afterAllHeaders = posBeforeHeaders + headersBinLen;
 			let countObjectHeaders = reader.readInt32();
@@ -260,8 +345,7 @@ export class ReadableStreamParser {
 					// jump to after all headers
 					reader.skipBytes(afterAllHeaders - reader.getBufferPosition());
 
-					const objectContentsBinLen = reader.readInt32();
-					reader.readInt32();	// 0
+					const objectContentsBinLen = SaveVersionAdapter.ReadLevelSectionSize(reader, reader.versionAdapter);
 					const posBeforeContents = reader.getBufferPosition();
 					const countEntities = reader.readInt32();
 					afterObjectsOfBatch = reader.getBufferPosition();	// at first no batch is read.
@@ -269,7 +353,12 @@ export class ReadableStreamParser {
 					reader.skipBytes(afterObjectsOfBatch - reader.getBufferPosition());
 				}
 
-				Level.ReadNObjectContents(reader, objectCountToRead, objects, 0, buildVersion);
+				const includedObjects: (SaveEntity | SaveComponent)[] = [];
+				for (let i = 0; i < objects.length; i++) {
+					if (ReadableStreamParser.ReadObjectContentsIfIncluded(reader, objects, i, levelName, buildVersion, filter)) {
+						includedObjects.push(objects[i]);
+					}
+				}
 				afterObjectsOfBatch = reader.getBufferPosition();
 
 				totalReadObjectsInLevel += objectCountToRead;
@@ -284,20 +373,120 @@ export class ReadableStreamParser {
 					shouldWait = true;
 					writtenTotalObjectsSinceConsumerSync = 0;
 				}
-				await write(`${writtenObjectsInLevel > 0 ? ', ' : ''}${objects.map(obj => JSON.stringify(obj)).join(', ')}`, shouldWait);
-				writtenTotalObjectsSinceConsumerSync += objectCountToRead;
-				writtenObjectsInLevel += objectCountToRead;
+				if (includedObjects.length > 0) {
+					await write(formatter.objects(levelName, includedObjects, writtenObjectsInLevel), shouldWait);
+				}
+				writtenTotalObjectsSinceConsumerSync += includedObjects.length;
+				writtenObjectsInLevel += includedObjects.length;
 
 			} while (totalReadObjectsInLevel < countObjectHeaders)
 
-			await write('], "collectables": [', false);
+			await write(formatter.switchToCollectables(levelName), false);
 
 			const collectables = ObjectReferencesList.ReadList(reader);
 
-			await write(`${collectables.map(obj => JSON.stringify(obj)).join(', ')}`, true);
+			await write(formatter.collectables(levelName, collectables), true);
 
-			await write(']', false);
-			await write('}', false);
+			await write(formatter.closeLevel(levelName), false);
+			reader.context.pop();
 		}
 	}
-}
\ No newline at end of file
+
+	/**
+	 * reads the levels while inflating the save body on demand.
+	 * The object headers of a level are kept as bytes, so they can be parsed in batches alongside the streamed object contents.
+	 */
+	private static async ReadWriteLevelsIncrementally(
+		write: (value: string, waitTilConsumingEndIsReady?: boolean) => Promise<void>,
+		formatter: SaveStreamFormatter,
+		reader: SaveStreamReader,
+		mapName: string,
+		buildVersion: number,
+		filter?: StreamObjectFilter
+	): Promise<void> {
+
+		const batchingSizeOfObjects = 1000;
+		const thresholdOfWrittenObjectsUntilWaitingForConsumerAgain = 3 * batchingSizeOfObjects;
+
+		const levelCount = await reader.readAsSoonAsAvailable(() => reader.readInt32());
+		reader.onProgressCallback(reader.getBufferProgress(), `reading pack of ${levelCount + 1} levels.`);
+
+		let writtenTotalObjectsSinceConsumerSync = 0;
+		for (let j = 0; j <= levelCount; j++) {
+			let levelName = (j === levelCount) ? '' + mapName : await reader.readAsSoonAsAvailable(() => reader.readString());
+			reader.context.push('level', levelName);
+
+			if (j % 500 === 0) {
+				reader.onProgressCallback(reader.getBufferProgress(), `reading level [${(j + 1)}/${(levelCount + 1)}] ${levelName}`);
+			}
+
+			await write(formatter.openLevel(levelName, j), false);
+
+			// object headers + destroyed collectables. The collectables are listed again after the object contents, so they are ignored here.
+			const headersBinLen = await reader.readAsSoonAsAvailable(() => SaveVersionAdapter.ReadLevelSectionSize(reader, reader.versionAdapter));
+			const headersReader = await reader.readSection(headersBinLen);
+			const countObjectHeaders = headersReader.readInt32();
+
+			await reader.readAsSoonAsAvailable(() => SaveVersionAdapter.ReadLevelSectionSize(reader, reader.versionAdapter));
+			const countEntities = await reader.readAsSoonAsAvailable(() => reader.readInt32());
+			if (countEntities !== countObjectHeaders) {
+				throw new CorruptSaveError(`possibly corrupt. entity content count ${countEntities} does not equal object count of ${countObjectHeaders}`);
+			}
+
+			let totalReadObjectsInLevel = 0;
+			let writtenObjectsInLevel = 0;
+			while (totalReadObjectsInLevel < countObjectHeaders) {
+
+				const objects = Level.ReadNObjectHeaders(headersReader, Math.min(countObjectHeaders - totalReadObjectsInLevel, batchingSizeOfObjects));
+				const includedObjects: (SaveEntity | SaveComponent)[] = [];
+				for (let i = 0; i < objects.length; i++) {
+					await reader.ensureNextObjectAvailable();
+					if (ReadableStreamParser.ReadObjectContentsIfIncluded(reader, objects, i, levelName, buildVersion, filter)) {
+						includedObjects.push(objects[i]);
+					}
+				}
+				totalReadObjectsInLevel += objects.length;
+
+				// we should wait even if the objects of many levels accumulate to several hundred.
+				let shouldWait = false;
+				if (writtenTotalObjectsSinceConsumerSync >= thresholdOfWrittenObjectsUntilWaitingForConsumerAgain) {
+					shouldWait = true;
+					writtenTotalObjectsSinceConsumerSync = 0;
+				}
+				if (includedObjects.length > 0) {
+					await write(formatter.objects(levelName, includedObjects, writtenObjectsInLevel), shouldWait);
+				}
+				writtenTotalObjectsSinceConsumerSync += includedObjects.length;
+				writtenObjectsInLevel += includedObjects.length;
+
+				if (countObjectHeaders > 10000 && totalReadObjectsInLevel % 10000 === 0) {
+					reader.onProgressCallback(reader.getBufferProgress(), `read object count [${(totalReadObjectsInLevel + 1)}/${(countObjectHeaders + 1)}] in level ${levelName}`);
+				}
+			}
+
+			await write(formatter.switchToCollectables(levelName), false);
+
+			const collectables = await reader.readAsSoonAsAvailable(() => ObjectReferencesList.ReadList(reader));
+
+			await write(formatter.collectables(levelName, collectables), true);
+
+			await write(formatter.closeLevel(levelName), false);
+			reader.context.pop();
+		}
+	}
+
+	/**
+	 * reads the contents of an object, if the object passes the filter. Otherwise its contents are skipped.
+	 * @returns whether the object passed the filter.
+	 */
+	private static ReadObjectContentsIfIncluded(reader: SaveReader, objects: (SaveEntity | SaveComponent)[], index: number, levelName: string, buildVersion: number, filter?: StreamObjectFilter): boolean {
+		const obj = objects[index];
+		if (filter !== undefined && !filter({ typePath: obj.typePath, instanceName: obj.instanceName, levelName })) {
+			Level.SkipObjectContents(reader, reader.versionAdapter);
+			return false;
+		}
+
+		Level.ReadNObjectContents(reader, 1, objects, index, buildVersion, undefined, reader.versionAdapter);
+		return true;
+	}
+}
@@ -0,0 +1,320 @@
+import { Alignment } from '../../byte/alignment.enum';
+import { ParserError } from '../../error/parser.error';
+import { ChunkCompressionInfo, ChunkSummary, ChunkWriteOptions } from '../../file.types';
+import { Level } from '../../satisfactory/save/level.class';
+import { ObjectReferencesList } from '../../satisfactory/save/object-references-list';
+import { Grids, SaveBodyValidation, SaveReader } from '../../satisfactory/save/save-reader';
+import { SaveVersionAdapter } from '../../satisfactory/save/save-version-adapter';
+import { SaveWriter } from '../../satisfactory/save/save-writer';
+import { SatisfactorySaveHeader } from '../../satisfactory/save/save.types';
+import { SaveComponent } from '../../satisfactory/types/objects/SaveComponent';
+import { SaveEntity } from '../../satisfactory/types/objects/SaveEntity';
+import { ObjectReference } from '../../satisfactory/types/structs/ObjectReference';
+import { Mode, ModeStateTracker } from './save-stream-writer.class';
+
+/**
+ * Writes a save to binary while it is handed over piece by piece, like {@link SaveStreamWriter} does to JSON.
+ * Compressed chunks get emitted as soon as they are full, so the whole save never has to be in memory.
+ * Only the binary of the level that is currently written is kept, since a level lists all object headers before the object contents.
+ *
+ * The save body starts with its own size, so the first chunk can only be generated at the very end.
+ * That is why it has its own callback, which is called last. The first chunk belongs between the header and the second chunk.
+ */
+export class SaveStreamBinaryWriter {
+
+	private tracker: ModeStateTracker;
+
+	private header: SatisfactorySaveHeader | undefined;
+	private adapter: SaveVersionAdapter = SaveVersionAdapter.U1_0;
+	private compressionInfo: ChunkCompressionInfo | undefined;
+
+	// the save body that is not compressed yet.
+	private pendingBody: Uint8Array[] = [];
+	private pendingBodyLength = 0;
+	private bodyLength = 0;
+	private chunkIndex = 0;
+	private firstChunk: Uint8Array | undefined;
+	private chunkSummary: ChunkSummary[] = [];
+
+	private levelCount = 0;
+	private writtenLevelCount = 0;
+	private currentLevel: {
+		name: string;
+		objectCount: number;
+		headers: SaveWriter;
+		contents: SaveWriter;
+		collectables: ObjectReference[];
+	} | undefined;
+
+	/**
+	 * @param onChunk gets called with the chunks from the second one on, in order, as soon as they are full.
+	 * @param onFirstChunk gets called with the first chunk at the end of the save, after all other chunks.
+	 * @param writeOptions control the compression. Options that are not given are taken from the compression info.
+	 */
+	constructor(
+		private onHeader: (header: Uint8Array) => void,
+		private onChunk: (chunk: Uint8Array, chunkIndex: number) => void,
+		private onFirstChunk: (chunk: Uint8Array) => void,
+		private writeOptions: Partial<ChunkWriteOptions> = {}
+	) {
+		this.tracker = new ModeStateTracker('BEFORE_START');
+	}
+
+	private createExecutionFunction = (allowedInputModes: Mode[], fn: () => void, targetMode: Mode): void => {
+		this.tracker.checkIsComingFrom(...allowedInputModes);
+		fn();
+		this.tracker.advance(targetMode);
+	}
+
+	public beginSave = () => this.createExecutionFunction(
+		['BEFORE_START'],
+		() => { },
+		'OPENED_SAVE'
+	);
+
+	public writeHeader = (header: SatisfactorySaveHeader) => this.createExecutionFunction(
+		['OPENED_SAVE'],
+		() => {
+			this.header = header;
+			this.adapter = SaveVersionAdapter.Get(SaveReader.GetRoughSaveVersion(header.saveVersion, header.saveHeaderType));
+
+			const writer = this.createWriter();
+			SaveWriter.WriteHeader(writer, header);
+			this.onHeader(new Uint8Array(writer.endWriting()));
+		},
+		'FINISHED_HEADER'
+	);
+
+	public writeCompressionInfo = (compressionInfo: ChunkCompressionInfo) => this.createExecutionFunction(
+		['FINISHED_HEADER'],
+		() => {
+			this.compressionInfo = ChunkCompressionInfo.ApplyWriteOptions(compressionInfo, this.writeOptions);
+
+			// the size of the save body, which is replaced at the end.
+			this.appendToBody(new Uint8Array(4));
+			this.bodyLength = 0;
+		},
+		'WROTE_COMPRESSION_INFO'
+	);
+
+	/**
+	 * writes the grid hash. Saves before 1.0 have none, so it is ignored for them.
+	 */
+	public writeGridHash = (gridHash: SaveBodyValidation) => this.createExecutionFunction(
+		['WROTE_COMPRESSION_INFO'],
+		() => {
+			if (this.adapter.hasSaveBodyHash) {
+				const writer = this.createWriter();
+				SaveWriter.WriteSaveBodyHash(writer, gridHash);
+				this.appendToBody(new Uint8Array(writer.endWriting()));
+			}
+		},
+		'WROTE_GRID_HASH'
+	);
+
+	/**
+	 * writes the grids. Saves before 1.0 have none, so they are ignored for them.
+	 */
+	public writeGrids = (grids: Grids) => this.createExecutionFunction(
+		['WROTE_GRID_HASH'],
+		() => {
+			if (this.adapter.hasGrids) {
+				const writer = this.createWriter();
+				SaveWriter.WriteGrids(writer, grids);
+				this.appendToBody(new Uint8Array(writer.endWriting()));
+			}
+		},
+		'WROTE_GRIDS'
+	);
+
+	/**
+	 * @param levelCount the count of all levels, including the persistent level. The persistent level has to be the last one.
+	 */
+	public openLevels = (levelCount: number) => this.createExecutionFunction(
+		['WROTE_COMPRESSION_INFO', 'WROTE_GRIDS'],
+		() => {
+			this.levelCount = levelCount;
+			const writer = this.createWriter();
+			writer.writeInt32(levelCount - 1);
+			this.appendToBody(new Uint8Array(writer.endWriting()));
+		},
+		'OPENED_LEVELS'
+	);
+
+	public openLevel = (levelName: string) => this.createExecutionFunction(
+		['OPENED_LEVELS', 'FINISHED_LEVEL'],
+		() => {
+			if (this.writtenLevelCount >= this.levelCount) {
+				throw new ParserError('ParserError', `Cannot open level ${levelName}, since all ${this.levelCount} levels are written already.`);
+			}
+			this.currentLevel = {
+				name: levelName,
+				objectCount: 0,
+				headers: this.createWriter(),
+				contents: this.createWriter(),
+				collectables: []
+			};
+		},
+		'OPENED_LEVEL'
+	);
+
+	public writeObjects = (...objects: (SaveEntity | SaveComponent)[]) => this.createExecutionFunction(
+		['OPENED_LEVEL', 'WROTE_OBJECT'],
+		() => {
+			const level = this.currentLevel!;
+			for (const obj of objects) {
+				Level.SerializeObjectHeader(level.headers, obj);
+				Level.SerializeObjectContents(level.contents, obj, this.header!.buildVersion, this.adapter);
+				level.objectCount++;
+			}
+		},
+		'WROTE_OBJECT'
+	);
+
+	public switchInLevelToCollectables = () => this.createExecutionFunction(
+		['OPENED_LEVEL', 'WROTE_OBJECT'],
+		() => { },
+		'SWITCH_TO_COLLECTABLES'
+	);
+
+	public writeCollectables = (...collectables: ObjectReference[]) => this.createExecutionFunction(
+		['SWITCH_TO_COLLECTABLES', 'WROTE_COLLECTABLE'],
+		() => {
+			this.currentLevel!.collectables.push(...collectables);
+		},
+		'WROTE_COLLECTABLE'
+	);
+
+	/**
+	 * writes the level that was handed over into the save body.
+	 */
+	public endLevel = () => this.createExecutionFunction(
+		['SWITCH_TO_COLLECTABLES', 'WROTE_COLLECTABLE'],
+		() => {
+			const level = this.currentLevel!;
+			const headers = new Uint8Array(level.headers.endWriting());
+			const contents = new Uint8Array(level.contents.endWriting());
+			const collectablesWriter = this.createWriter();
+			ObjectReferencesList.SerializeList(collectablesWriter, level.collectables);
+			const collectables = new Uint8Array(collectablesWriter.endWriting());
+
+			// the persistent level is the last one and has no name.
+			const beforeHeaders = this.createWriter();
+			if (this.writtenLevelCount < this.levelCount - 1) {
+				beforeHeaders.writeString(level.name);
+			}
+			const headersBinLen = 4 + headers.byteLength + (this.adapter.hasCollectablesInHeaders ? collectables.byteLength : 0);
+			SaveVersionAdapter.WriteLevelSectionSize(beforeHeaders, this.adapter, headersBinLen);
+			beforeHeaders.writeInt32(level.objectCount);
+			this.appendToBody(new Uint8Array(beforeHeaders.endWriting()));
+			this.appendToBody(headers);
+
+			// <--- destroyed actors is the same as collectables list.
+			if (this.adapter.hasCollectablesInHeaders) {
+				this.appendToBody(collectables);
+			}
+
+			const beforeContents = this.createWriter();
+			SaveVersionAdapter.WriteLevelSectionSize(beforeContents, this.adapter, 4 + contents.byteLength);
+			beforeContents.writeInt32(level.objectCount);
+			this.appendToBody(new Uint8Array(beforeContents.endWriting()));
+			this.appendToBody(contents);
+
+			this.appendToBody(collectables);
+
+			this.currentLevel = undefined;
+			this.writtenLevelCount++;
+		},
+		'FINISHED_LEVEL'
+	);
+
+	public endLevels = () => this.createExecutionFunction(
+		['OPENED_LEVELS', 'FINISHED_LEVEL'],
+		() => {
+			if (this.writtenLevelCount !== this.levelCount) {
+				throw new ParserError('ParserError', `${this.writtenLevelCount} levels were written, but ${this.levelCount} levels were announced.`);
+			}
+		},
+		'FINISHED_LEVELS'
+	);
+
+	/**
+	 * compresses the rest of the save body and emits the last chunks. Then it emits the first chunk to {@link onFirstChunk}.
+	 * @returns a summary of the generated chunks, in the order of the chunk index.
+	 */
+	public endSave = (): ChunkSummary[] => {
+		this.createExecutionFunction(
+			['FINISHED_LEVELS'],
+			() => {
+				const bodyLength = this.bodyLength;
+				this.appendToBody(new Uint8Array(this.adapter.bodySizeOverhead - 4));
+				this.emitFullChunks(true);
+
+				new DataView(this.firstChunk!.buffer, this.firstChunk!.byteOffset).setInt32(0, bodyLength, true);
+				this.onFirstChunk(this.compressChunk(this.firstChunk!, 0));
+				this.firstChunk = undefined;
+			},
+			'FINISHED_SAVE'
+		);
+		return this.chunkSummary;
+	};
+
+	private createWriter(): SaveWriter {
+		const writer = new SaveWriter();
+		writer.singlePrecisionStructs = this.adapter.singlePrecisionStructs;
+		return writer;
+	}
+
+	private appendToBody(bytes: Uint8Array): void {
+		this.pendingBody.push(bytes);
+		this.pendingBodyLength += bytes.byteLength;
+		this.bodyLength += bytes.byteLength;
+		this.emitFullChunks();
+	}
+
+	/**
+	 * compresses and emits the pending save body, as long as it fills whole chunks.
+	 * @param includeRest whether the rest that does not fill a whole chunk is emitted as well.
+	 */
+	private emitFullChunks(includeRest: boolean = false): void {
+		const maxChunkSize = this.compressionInfo!.maxUncompressedChunkContentSize;
+		while (this.pendingBodyLength >= maxChunkSize || (includeRest && this.pendingBodyLength > 0)) {
+			const chunk = this.takeFromPendingBody(Math.min(maxChunkSize, this.pendingBodyLength));
+
+			// the first chunk is kept until the size of the body is known.
+			if (this.chunkIndex === 0) {
+				this.firstChunk = chunk;
+			} else {
+				this.onChunk(this.compressChunk(chunk, this.chunkIndex), this.chunkIndex);
+			}
+			this.chunkIndex++;
+		}
+	}
+
+	private takeFromPendingBody(byteLength: number): Uint8Array {
+		const taken = new Uint8Array(byteLength);
+		let offset = 0;
+		while (offset < byteLength) {
+			const part = this.pendingBody[0];
+			const count = Math.min(part.byteLength, byteLength - offset);
+			taken.set(part.subarray(0, count), offset);
+			offset += count;
+			if (count === part.byteLength) {
+				this.pendingBody.shift();
+			} else {
+				this.pendingBody[0] = part.subarray(count);
+			}
+		}
+		this.pendingBodyLength -= byteLength;
+		return taken;
+	}
+
+	private compressChunk(uncompressedChunk: Uint8Array, chunkIndex: number): Uint8Array {
+		const chunk = SaveWriter.CreateCompressedChunk(uncompressedChunk.buffer, this.compressionInfo!, Alignment.LITTLE_ENDIAN, this.writeOptions);
+		this.chunkSummary[chunkIndex] = {
+			uncompressedSize: uncompressedChunk.byteLength + this.compressionInfo!.chunkHeaderSize,
+			compressedSize: chunk.byteLength
+		};
+		return chunk;
+	}
+}
@@ -0,0 +1,70 @@
+import { DiagnosticsSummary } from '../../diagnostics/parser.diagnostic';
+import { ChunkCompressionInfo } from '../../file.types';
+import { Grids, SaveBodyValidation } from '../../satisfactory/save/save-reader';
+import { SatisfactorySaveHeader } from '../../satisfactory/save/save.types';
+import { SaveComponent } from '../../satisfactory/types/objects/SaveComponent';
+import { SaveEntity } from '../../satisfactory/types/objects/SaveEntity';
+import { ObjectReference } from '../../satisfactory/types/structs/ObjectReference';
+
+/**
+ * @json one JSON document that represents a {@link SatisfactorySave} object.
+ * @ndjson one {@link NdjsonSaveRecord} per line.
+ */
+export type SaveStreamFormat = 'json' | 'ndjson';
+
+/**
+ * A line of the ndjson output. Every record describes itself by its kind.
+ * Objects and collectables additionally name their level.
+ */
+export type NdjsonSaveRecord = { kind: 'header', name: string, header: SatisfactorySaveHeader, compressionInfo: ChunkCompressionInfo, gridHash: SaveBodyValidation, grids: Grids }
+	| { kind: 'level', name: string }
+	| ({ kind: 'object', level: string } & (SaveEntity | SaveComponent))
+	| ({ kind: 'collectable', level: string } & ObjectReference)
+	| ({ kind: 'diagnostics' } & DiagnosticsSummary);
+
+/**
+ * Turns the parts of a save into the strings of a streamed output format.
+ */
+export type SaveStreamFormatter = {
+	header: (name: string, compressionInfo: ChunkCompressionInfo, header: SatisfactorySaveHeader, grids: Grids, gridHash: SaveBodyValidation) => string;
+	openLevel: (levelName: string, levelIndex: number) => string;
+	objects: (levelName: string, objects: (SaveEntity | SaveComponent)[], writtenObjectsInLevel: number) => string;
+	switchToCollectables: (levelName: string) => string;
+	collectables: (levelName: string, collectables: ObjectReference[]) => string;
+	closeLevel: (levelName: string) => string;
+	end: (diagnosticsSummary?: DiagnosticsSummary) => string;
+};
+
+export namespace SaveStreamFormatter {
+
+	export const JSON_FORMATTER: SaveStreamFormatter = {
+		header: (name, compressionInfo, header, grids, gridHash) => `{"header": ${JSON.stringify(header)}, "name": "${name}", "compressionInfo": ${JSON.stringify(compressionInfo)}, "gridHash": ${JSON.stringify(gridHash)}, "grids": ${JSON.stringify(grids)}, "levels": [`,
+		openLevel: (levelName, levelIndex) => `${levelIndex > 0 ? ', ' : ''}{"name": "${levelName}", "objects": [`,
+		objects: (levelName, objects, writtenObjectsInLevel) => `${writtenObjectsInLevel > 0 ? ', ' : ''}${objects.map(obj => JSON.stringify(obj)).join(', ')}`,
+		switchToCollectables: () => '], "collectables": [',
+		collectables: (levelName, collectables) => `${collectables.map(obj => JSON.stringify(obj)).join(', ')}`,
+		closeLevel: () => ']}',
+		end: (diagnosticsSummary) => `]${diagnosticsSummary !== undefined ? `, "diagnostics": ${JSON.stringify(diagnosticsSummary)}` : ''}}`
+	};
+
+	const toLines = (records: NdjsonSaveRecord[]): string => records.map(record => JSON.stringify(record) + '\n').join('');
+
+	export const NDJSON_FORMATTER: SaveStreamFormatter = {
+		header: (name, compressionInfo, header, grids, gridHash) => toLines([{ kind: 'header', name, header, compressionInfo, gridHash, grids }]),
+		openLevel: (levelName) => toLines([{ kind: 'level', name: levelName }]),
+		objects: (levelName, objects) => toLines(objects.map(obj => ({ kind: 'object', level: levelName, ...obj }))),
+		switchToCollectables: () => '',
+		collectables: (levelName, collectables) => toLines(collectables.map(collectable => ({ kind: 'collectable', level: levelName, ...collectable }))),
+		closeLevel: () => '',
+		end: (diagnosticsSummary) => diagnosticsSummary !== undefined ? toLines([{ kind: 'diagnostics', ...diagnosticsSummary }]) : ''
+	};
+
+	export const Get = (format: SaveStreamFormat): SaveStreamFormatter => {
+		switch (format) {
+			case 'json':
+				return JSON_FORMATTER;
+			case 'ndjson':
+				return NDJSON_FORMATTER;
+		}
+	}
+}
@@ -0,0 +1,264 @@
+import Pako from "pako";
+import { ReadableStreamDefaultReader } from "stream/web";
+import { Alignment } from '../../byte/alignment.enum';
+import { CompressionLibraryError, CorruptSaveError, UnsupportedVersionError } from '../../error/parser.error';
+import { SaveReader } from '../../satisfactory/save/save-reader';
+import { SatisfactorySaveHeader } from '../../satisfactory/save/save.types';
+
+/**
+ * Reads a save incrementally from a stream of its bytes, instead of from the whole file.
+ * Chunks get inflated one at a time, only once the parsing needs more data. Bytes that were already read get dropped.
+ * So besides the not yet read rest of the current chunk, only the section or object that is currently read is kept in memory.
+ */
+export class SaveStreamReader extends SaveReader {
+
+	// compressed bytes from the source, that were not inflated yet.
+	private input = new Uint8Array(0);
+	private sourceDone = false;
+
+	// the position of the current buffer in the decompressed save body.
+	private bufferStart = 0;
+	private indicatedBodySize = 0;
+	private totalUncompressedBodySize = 0;
+	private numChunks = 0;
+
+	constructor(private source: ReadableStreamDefaultReader<Uint8Array>, onProgressCallback?: (progress: number, msg?: string) => void) {
+		super(new ArrayBuffer(0), onProgressCallback);
+	}
+
+	public getBufferPosition = (): number => this.bufferStart + this.currentByte;
+
+	public getBufferProgress = (): number => this.indicatedBodySize > 0 ? this.getBufferPosition() / this.indicatedBodySize : 0;
+
+	/**
+	 * reads the uncompressed header of the save, pulling as many bytes from the source as it needs.
+	 */
+	public async readHeaderFromStream(): Promise<SatisfactorySaveHeader> {
+		while (true) {
+			this.reset(this.input.slice().buffer);
+			try {
+				this.readHeader();
+				this.input = this.input.slice(this.currentByte);
+				break;
+			} catch (error) {
+				if (!this.ranOutOfData(error) || !await this.pullInput(this.input.length + 1)) {
+					throw error;
+				}
+			}
+		}
+
+		if (SaveReader.GetRoughSaveVersion(this.header!.saveVersion, this.header!.saveHeaderType) === '<U6') {
+			throw new UnsupportedVersionError('Game Version < U6 is not supported.');
+		}
+
+		// from now on, the buffer is the decompressed save body.
+		this.reset(new ArrayBuffer(0));
+		this.bufferStart = 0;
+		return this.header!;
+	}
+
+	/**
+	 * reads the indicated size of the save body, which starts it.
+	 */
+	public async readBodySize(): Promise<number> {
+		this.indicatedBodySize = await this.readAsSoonAsAvailable(() => this.readInt32());
+		return this.indicatedBodySize;
+	}
+
+	/**
+	 * makes sure that the next bytes are inflated, by inflating as many chunks as needed.
+	 * @returns false if the save body ends before.
+	 */
+	public async ensureAvailable(byteLength: number): Promise<boolean> {
+		const chunks: Uint8Array[] = [];
+		let available = this.maxByte - this.currentByte;
+		while (available < byteLength) {
+			const chunk = await this.inflateNextChunk();
+			if (chunk === undefined) {
+				break;
+			}
+			chunks.push(chunk);
+			available += chunk.length;
+		}
+
+		if (chunks.length > 0) {
+			this.appendToBuffer(chunks);
+		}
+		return available >= byteLength;
+	}
+
+	/**
+	 * executes a read of unknown length. If the read runs out of data, it gets repeated with the next chunk inflated.
+	 * Any other error is thrown right away.
+	 */
+	public async readAsSoonAsAvailable<T>(read: () => T): Promise<T> {
+		const contextDepth = this.context.getDepth();
+		while (true) {
+			// inflating more data moves the unread bytes to the start of the buffer.
+			const start = this.currentByte;
+			this.failedReadEnd = 0;
+			try {
+				return read();
+			} catch (error) {
+				if (!this.ranOutOfData(error)) {
+					throw error;
+				}
+				this.currentByte = start;
+				this.context.truncate(contextDepth);
+				if (!await this.ensureAvailable(this.maxByte - this.currentByte + 1)) {
+					throw error;
+				}
+			}
+		}
+	}
+
+	/**
+	 * makes sure that the contents of the next object are inflated, using their binary size.
+	 */
+	public async ensureNextObjectAvailable(): Promise<void> {
+		const prefixLength = this.versionAdapter.hasObjectVersion ? 12 : 4;
+		if (await this.ensureAvailable(prefixLength)) {
+			const binarySize = this.bufferView.getInt32(this.currentByte + prefixLength - 4, this.alignment === Alignment.LITTLE_ENDIAN);
+			if (await this.ensureAvailable(prefixLength + binarySize)) {
+				return;
+			}
+		}
+		throw new CorruptSaveError(`Save body ended unexpectedly at position ${this.getBufferPosition()} while reading an object.`);
+	}
+
+	/**
+	 * reads the next bytes as a section of known size.
+	 * @returns a reader on a copy of the section. It shares the context and the diagnostics with this reader.
+	 */
+	public async readSection(byteLength: number): Promise<SaveReader> {
+		if (!await this.ensureAvailable(byteLength)) {
+			throw new CorruptSaveError(`Save body ended unexpectedly at position ${this.getBufferPosition()} while reading a section of ${byteLength} bytes.`);
+		}
+
+		const section = new SaveReader(this.fileBuffer.slice(this.currentByte, this.currentByte + byteLength), this.onProgressCallback);
+		section.header = this.header;
+		section.compressionInfo = this.compressionInfo;
+		section.versionAdapter = this.versionAdapter;
+		section.diagnostics = this.diagnostics;
+		section.context = this.context;
+		this.currentByte += byteLength;
+		return section;
+	}
+
+	/**
+	 * inflates the rest of the source, which is usually nothing, and checks whether the save body had the indicated size.
+	 */
+	public async finishBody(): Promise<{ concatenatedChunkLength: number, numChunks: number }> {
+		while (await this.inflateNextChunk() !== undefined) { }
+
+		const bodySizeOverhead = this.versionAdapter.bodySizeOverhead;
+		if (this.totalUncompressedBodySize !== this.indicatedBodySize + bodySizeOverhead) {
+			throw new CorruptSaveError(`Possibly corrupt. Indicated size of total save body (${this.indicatedBodySize + bodySizeOverhead}) does not match the uncompressed real size of ${this.totalUncompressedBodySize}.`);
+		}
+
+		return {
+			concatenatedChunkLength: this.totalUncompressedBodySize,
+			numChunks: this.numChunks
+		};
+	}
+
+	/**
+	 * pulls from the source until there are enough compressed bytes.
+	 * @returns false if the source ends before.
+	 */
+	private async pullInput(byteLength: number): Promise<boolean> {
+		while (this.input.length < byteLength && !this.sourceDone) {
+			const { done, value } = await this.source.read();
+			if (done) {
+				this.sourceDone = true;
+			} else {
+				const input = new Uint8Array(this.input.length + value.length);
+				input.set(this.input);
+				input.set(value, this.input.length);
+				this.input = input;
+			}
+		}
+		return this.input.length >= byteLength;
+	}
+
+	/**
+	 * @returns the next inflated chunk, or undefined if there are no more chunks.
+	 */
+	private async inflateNextChunk(): Promise<Uint8Array | undefined> {
+		if (!await this.pullInput(1)) {
+			return undefined;
+		}
+
+		// v2 chunk headers are marked with 0x22222222 and have an additional byte for the compression algorithm.
+		if (this.numChunks === 0 && await this.pullInput(8)) {
+			const isV2Header = new DataView(this.input.buffer, this.input.byteOffset).getUint32(4, this.alignment === Alignment.LITTLE_ENDIAN) === 0x22222222;
+			this.compressionInfo.chunkHeaderSize = isV2Header ? 49 : 48;
+		}
+		const chunkHeaderSize = this.compressionInfo.chunkHeaderSize;
+		const sizesOffset = chunkHeaderSize - 48;
+
+		if (!await this.pullInput(chunkHeaderSize)) {
+			throw new CorruptSaveError(`Save ended unexpectedly within the header of chunk ${this.numChunks}.`);
+		}
+		const chunkHeader = new DataView(this.input.buffer, this.input.byteOffset, chunkHeaderSize);
+
+		if (this.compressionInfo.packageFileTag <= 0) {
+			// Should always be 0xC1832A9E in LE
+			this.compressionInfo.packageFileTag = chunkHeader.getUint32(0, this.alignment === Alignment.LITTLE_ENDIAN);
+		}
+		if (this.compressionInfo.maxUncompressedChunkContentSize <= 0) {
+			// should always be 0x00000200 in LE
+			this.compressionInfo.maxUncompressedChunkContentSize = chunkHeader.getInt32(8, this.alignment === Alignment.LITTLE_ENDIAN);
+		}
+		if (chunkHeaderSize > 48) {
+			// the compression algorithm, only present in v2 headers.
+			this.compressionInfo.compressionAlgorithm = chunkHeader.getUint8(16);
+		}
+
+		const chunkCompressedLength = chunkHeader.getInt32(32 + sizesOffset, this.alignment === Alignment.LITTLE_ENDIAN);
+		if (!await this.pullInput(chunkHeaderSize + chunkCompressedLength)) {
+			throw new CorruptSaveError(`Save ended unexpectedly within chunk ${this.numChunks}.`);
+		}
+
+		let inflatedChunk: Uint8Array;
+		try {
+			inflatedChunk = Pako.inflate(this.input.subarray(chunkHeaderSize, chunkHeaderSize + chunkCompressedLength));
+		}
+		catch (err: any) {
+			throw new CompressionLibraryError("Failed to inflate compressed save data. " + err);
+		}
+
+		this.input = this.input.slice(chunkHeaderSize + chunkCompressedLength);
+		this.totalUncompressedBodySize += inflatedChunk.length;
+		this.numChunks++;
+		return inflatedChunk;
+	}
+
+	/**
+	 * @returns whether a read failed because it went past the end of the buffer. Strings and bytes tell where they would have ended, reads of the DataView need at most 8 bytes and skipped bytes only move the position past the end.
+	 * Other RangeErrors, like of a corrupt count, are no matter of missing data.
+	 */
+	private ranOutOfData(error: unknown): boolean {
+		if (this.currentByte > this.maxByte || this.failedReadEnd > this.maxByte) {
+			return true;
+		}
+		return error instanceof Error && error.name === 'RangeError' && this.currentByte + 8 > this.maxByte;
+	}
+
+	/**
+	 * replaces the buffer with its unread rest and the given chunks.
+	 */
+	private appendToBuffer(chunks: Uint8Array[]): void {
+		const rest = new Uint8Array(this.fileBuffer, this.currentByte, this.maxByte - this.currentByte);
+		const buffer = new Uint8Array(rest.length + chunks.reduce((length, chunk) => length + chunk.length, 0));
+		buffer.set(rest);
+		let offset = rest.length;
+		for (const chunk of chunks) {
+			buffer.set(chunk, offset);
+			offset += chunk.length;
+		}
+
+		this.bufferStart += this.currentByte;
+		this.reset(buffer.buffer);
+	}
+}
@@ -5,10 +5,10 @@ import { SatisfactorySaveHeader } from '../../satisfactory/save/save.types';
 import { SaveObject } from "../../satisfactory/types/objects/SaveObject";
 import { ObjectReference } from '../../satisfactory/types/structs/ObjectReference';
 
-type Mode = 'BEFORE_START' | 'OPENED_SAVE' | 'FINISHED_HEADER' | 'OPENED_LEVELS' | 'FINISHED_LEVELS' | 'OPENED_LEVEL' | 'FINISHED_LEVEL' | 'FINISHED_SAVE'
+export type Mode = 'BEFORE_START' | 'OPENED_SAVE' | 'FINISHED_HEADER' | 'OPENED_LEVELS' | 'FINISHED_LEVELS' | 'OPENED_LEVEL' | 'FINISHED_LEVEL' | 'FINISHED_SAVE'
 	| 'WROTE_COMPRESSION_INFO' | 'WROTE_OBJECT' | 'SWITCH_TO_COLLECTABLES' | 'WROTE_COLLECTABLE' | 'WROTE_GRID_HASH' | 'WROTE_GRIDS';
 
-class ModeStateTracker {
+export class ModeStateTracker {
 	constructor(public mode: Mode) {
 
 	}
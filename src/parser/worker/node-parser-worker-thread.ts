@@ -0,0 +1,20 @@
+import { parentPort, workerData } from 'worker_threads';
+import { NodeDeflate } from '../node-deflate';
+import { NodeParserWorker } from './node-parser-worker';
+import { ParserWorkerTasks } from './parser-worker-tasks';
+import { ParserWorkerTask } from './parser-worker.types';
+
+// the entry file of the worker threads of NodeParserWorker. It is not exported, since it only runs in a worker thread.
+// chunks are compressed with node's zlib, which is faster than pako.
+if (parentPort !== null) {
+	// the registries of the main thread are not shared, so the setup modules register plugins here again.
+	for (const setupModule of (workerData as NodeParserWorker.ThreadData | undefined)?.setupModules ?? []) {
+		require(setupModule);
+	}
+
+	const port = parentPort;
+	port.on('message', (task: ParserWorkerTask) => {
+		const { result, transfer } = ParserWorkerTasks.Handle(task, NodeDeflate);
+		port.postMessage(result, transfer);
+	});
+}
@@ -0,0 +1,77 @@
+import { existsSync } from 'fs';
+import { cpus } from 'os';
+import { join } from 'path';
+import { Worker } from 'worker_threads';
+import { ParserError } from '../error/parser.error';
+import { ParserWorker, ParserWorkerResult } from './parser-worker.types';
+
+/**
+ * Runs parser tasks in node worker threads.
+ * The worker threads execute the compiled entry file `node-parser-worker-thread.js` next to this module. So when running the typescript sources or a bundle, pass the entry file yourself.
+ */
+export namespace NodeParserWorker {
+
+	export const DEFAULT_ENTRY_FILE = join(__dirname, 'node-parser-worker-thread.js');
+
+	/**
+	 * what the worker thread receives as `workerData`.
+	 * @setupModules the modules the thread requires before it handles tasks.
+	 */
+	export type ThreadData = {
+		setupModules: string[];
+	};
+
+	/**
+	 * @param entryFile the javascript file that the worker thread executes. It has to answer tasks like `node-parser-worker-thread.js`.
+	 * @param setupModules modules that the thread requires before it handles tasks, like modules that register plugins in the registries of the parser. Pass absolute paths or package names.
+	 * @throws {ParserError} if the entry file does not exist.
+	 */
+	export const Create = (entryFile: string = DEFAULT_ENTRY_FILE, setupModules: string[] = []): ParserWorker => {
+		if (!existsSync(entryFile)) {
+			throw new ParserError('ParserError', `Could not find the entry file of the worker thread at ${entryFile}. Pass createWorker, if you run the parser from its typescript sources or from a bundle.`);
+		}
+
+		const worker = new Worker(entryFile, { workerData: { setupModules } satisfies ThreadData });
+		let exitCode: number | undefined;
+		worker.once('exit', code => exitCode = code);
+
+		return {
+			run: (task, transfer) => new Promise<ParserWorkerResult>((resolve, reject) => {
+				if (exitCode !== undefined) {
+					reject(new ParserError('ParserError', `The worker thread already exited with code ${exitCode}.`));
+					return;
+				}
+
+				const removeListeners = () => {
+					worker.off('message', onMessage);
+					worker.off('error', onError);
+					worker.off('exit', onExit);
+				};
+				const onMessage = (result: ParserWorkerResult) => {
+					removeListeners();
+					resolve(result);
+				};
+				const onError = (error: Error) => {
+					removeListeners();
+					reject(error);
+				};
+				const onExit = (code: number) => {
+					removeListeners();
+					reject(new ParserError('ParserError', `The worker thread exited with code ${code} before it finished the task.`));
+				};
+				worker.once('message', onMessage);
+				worker.once('error', onError);
+				worker.once('exit', onExit);
+				worker.postMessage(task, transfer);
+			}),
+			terminate: async () => {
+				await worker.terminate();
+			}
+		};
+	}
+
+	/**
+	 * @returns one worker less than there are cpu cores, since the main thread keeps reading object headers.
+	 */
+	export const GetDefaultWorkerCount = (): number => Math.max(1, cpus().length - 1);
+}
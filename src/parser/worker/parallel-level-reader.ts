@@ -0,0 +1,162 @@
+import { CorruptSaveError } from '../error/parser.error';
+import { Level } from '../satisfactory/save/level.class';
+import { ObjectReferencesList } from '../satisfactory/save/object-references-list';
+import { SaveReader } from '../satisfactory/save/save-reader';
+import { SaveVersionAdapter } from '../satisfactory/save/save-version-adapter';
+import { ParserWorkerTasks } from './parser-worker-tasks';
+import { ObjectContentsSegment, ParserWorkerResult } from './parser-worker.types';
+import { WorkerPool } from './worker-pool.class';
+
+// where the parsed objects of a segment go.
+type SegmentTarget = {
+	level: Level;
+	firstObjectIndex: number;
+	count: number;
+};
+
+type PendingTask = {
+	targets: SegmentTarget[];
+	result: Promise<ParserWorkerResult>;
+};
+
+/**
+ * Reads the levels of a save like {@link SaveReader.readLevels}, but parses the object contents in a {@link WorkerPool}.
+ * Object contents are length-prefixed, so the main thread only reads the object headers and skips over the contents to find the byte ranges of the tasks.
+ * All objects are parsed in a worker, so they all are plain objects, like objects parsed from JSON.
+ */
+export namespace ParallelLevelReader {
+
+	/**
+	 * the count of objects that are parsed in one task. Big levels are split into several tasks, small levels are collected into one task, since sending every level to a worker costs more than it saves.
+	 */
+	export const OBJECTS_PER_TASK = 2000;
+
+	/**
+	 * collects segments of objects into tasks of about {@link OBJECTS_PER_TASK} objects, and runs them in the pool once they are full.
+	 */
+	class TaskCollector {
+
+		public readonly pendingTasks: PendingTask[] = [];
+		private segments: ObjectContentsSegment[] = [];
+		private targets: SegmentTarget[] = [];
+		private objectCount = 0;
+
+		constructor(private reader: SaveReader, private pool: WorkerPool, private objectsPerTask: number) { }
+
+		public add(level: Level, firstObjectIndex: number, segment: ObjectContentsSegment): void {
+			this.segments.push(segment);
+			this.targets.push({ level, firstObjectIndex, count: segment.objects.length });
+			this.objectCount += segment.objects.length;
+			if (this.objectCount >= this.objectsPerTask) {
+				this.flush();
+			}
+		}
+
+		public flush(): void {
+			if (this.segments.length === 0) {
+				return;
+			}
+			this.pendingTasks.push({
+				targets: this.targets,
+				result: this.pool.run({
+					kind: 'object-contents',
+					segments: this.segments,
+					buildVersion: this.reader.header!.buildVersion,
+					adapter: this.reader.versionAdapter,
+					tolerant: this.reader.tolerant
+				}, this.segments.map(segment => segment.buffer))
+			});
+			this.segments = [];
+			this.targets = [];
+			this.objectCount = 0;
+		}
+	}
+
+	export const ReadLevels = async (reader: SaveReader, pool: WorkerPool, objectsPerTask: number = OBJECTS_PER_TASK): Promise<Level[]> => {
+
+		const header = reader.header!;
+		const levels: Level[] = [];
+		const tasks = new TaskCollector(reader, pool, objectsPerTask);
+		const levelCount = reader.readInt32();
+		reader.onProgressCallback(reader.getBufferProgress(), `reading pack of ${levelCount + 1} levels.`);
+
+		for (let i = 0; i <= levelCount; i++) {
+			const levelName = i === levelCount ? header.mapName : reader.readString();
+			if (i % 500 === 0) {
+				reader.onProgressCallback(reader.getBufferProgress(), `reading level [${(i + 1)}/${(levelCount + 1)}] ${levelName}`);
+			}
+
+			const level = ReadLevel(reader, levelName, objectsPerTask, tasks);
+			levels.push(level);
+		}
+		tasks.flush();
+
+		reader.onProgressCallback(reader.getBufferProgress(), `waiting for ${tasks.pendingTasks.length} tasks of object contents.`);
+
+		// merge results in the order of the tasks, so diagnostics and skipped objects keep the order of the save.
+		for (const pending of tasks.pendingTasks) {
+			const result = ParserWorkerTasks.ThrowIfError(await pending.result, 'object-contents');
+			let resultIndex = 0;
+			for (const target of pending.targets) {
+				for (let j = 0; j < target.count; j++) {
+					target.level.objects[target.firstObjectIndex + j] = result.objects[resultIndex++];
+				}
+			}
+			for (const diagnostic of result.diagnostics) {
+				reader.diagnostics.add(diagnostic);
+			}
+			reader.skippedObjects.push(...result.skippedObjects);
+		}
+
+		reader.onProgressCallback(reader.getBufferProgress(), 'finished parsing.');
+
+		return levels;
+	}
+
+	/**
+	 * reads a level, but only hands out its object contents to the pool. They are read once the pending tasks finish.
+	 */
+	const ReadLevel = (reader: SaveReader, levelName: string, objectsPerTask: number, tasks: TaskCollector): Level => {
+		const level: Level = {
+			name: levelName,
+			objects: [],
+			collectables: []
+		};
+		reader.context.push('level', levelName);
+		const adapter = reader.versionAdapter;
+
+		Level.ReadObjectHeadersSection(reader, level.objects, adapter);
+
+		// checksum for object content size
+		const objectContentsBinLen = SaveVersionAdapter.ReadLevelSectionSize(reader, adapter);
+		const posBeforeContents = reader.getBufferPosition();
+
+		const countEntities = reader.readInt32();
+		if (countEntities !== level.objects.length) {
+			throw new CorruptSaveError(`possibly corrupt. entity content count ${countEntities} does not equal object count of ${level.objects.length}`);
+		}
+
+		for (let firstObjectIndex = 0; firstObjectIndex < countEntities; firstObjectIndex += objectsPerTask) {
+			const objects = level.objects.slice(firstObjectIndex, firstObjectIndex + objectsPerTask);
+
+			const start = reader.getBufferPosition();
+			for (let j = 0; j < objects.length; j++) {
+				Level.SkipObjectContents(reader, adapter);
+			}
+			const buffer = reader.getBuffer().slice(start, reader.getBufferPosition());
+
+			tasks.add(level, firstObjectIndex, { levelName, buffer, offset: start, objects });
+		}
+
+		const posAfterContents = reader.getBufferPosition();
+		if (posAfterContents - posBeforeContents !== objectContentsBinLen) {
+			reader.diagnostics.report('LEVEL_SIZE_MISMATCH', `read ${posAfterContents - posBeforeContents} bytes of object contents, but ${objectContentsBinLen} bytes were indicated. Save seems corrupt.`, posAfterContents, reader.context);
+		}
+
+		// collectables 2nd time. Listed here since < U8 and in U8 as well. So this is the best list you can rely on.
+		level.collectables = ObjectReferencesList.ReadList(reader);
+
+		reader.context.pop();
+		return level;
+	}
+}
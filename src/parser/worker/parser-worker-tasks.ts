@@ -0,0 +1,102 @@
+import { DiagnosticsReporter, ParserDiagnostic } from '../diagnostics/parser.diagnostic';
+import { ParserError } from '../error/parser.error';
+import { ChunkDeflate } from '../file.types';
+import { Level, ObjectRecoveryOptions } from '../satisfactory/save/level.class';
+import { SaveReader } from '../satisfactory/save/save-reader';
+import { SaveWriter } from '../satisfactory/save/save-writer';
+import { SkippedObjectDiagnostic } from '../satisfactory/save/save.types';
+import { CompressChunkResult, CompressChunkTask, ObjectContentsResult, ObjectContentsTask, ParserWorkerError, ParserWorkerResult, ParserWorkerTask } from './parser-worker.types';
+
+/**
+ * A reader on a part of the save body. Positions are reported relative to the whole save body, so diagnostics and errors point to the right place.
+ */
+class SaveSliceReader extends SaveReader {
+
+	constructor(buffer: ArrayBuffer, private offset: number) {
+		super(buffer);
+	}
+
+	public getBufferPosition = (): number => this.offset + this.currentByte;
+}
+
+/**
+ * What a worker does with the tasks it receives. Custom workers, like web workers, have to call {@link Handle} and post back the result and its transferables.
+ */
+export namespace ParserWorkerTasks {
+
+	/**
+	 * @param deflate compresses chunks instead of pako, since functions cannot be sent to workers with their tasks.
+	 */
+	export const Handle = (task: ParserWorkerTask, deflate?: ChunkDeflate): { result: ParserWorkerResult, transfer: ArrayBuffer[] } => {
+		try {
+			switch (task.kind) {
+				case 'object-contents':
+					return { result: ReadObjectContents(task), transfer: [] };
+				case 'compress-chunk': {
+					const compressed = CompressChunk(task, deflate);
+					return { result: compressed, transfer: [compressed.chunk.buffer as ArrayBuffer] };
+				}
+			}
+		} catch (error) {
+			return { result: ToWorkerError(error), transfer: [] };
+		}
+	}
+
+	/**
+	 * describes an error as plain object, so it can be posted from a worker.
+	 */
+	export const ToWorkerError = (error: unknown): ParserWorkerError => {
+		if (error instanceof ParserError) {
+			return { kind: 'error', name: error.name, message: error.message, context: error.context, offset: error.offset };
+		}
+		return { kind: 'error', name: 'ParserError', message: error instanceof Error ? error.message : String(error) };
+	}
+
+	/**
+	 * turns a result back into the error that was thrown in the worker, if it is one.
+	 * @param kind the kind of the task, that the result is expected to be of.
+	 */
+	export const ThrowIfError = <K extends ParserWorkerTask['kind']>(result: ParserWorkerResult, kind: K): Extract<ParserWorkerResult, { kind: K }> => {
+		if (result.kind === 'error') {
+			const error = new ParserError(result.name, result.message);
+			error.context = result.context;
+			error.offset = result.offset;
+			throw error;
+		}
+		if (result.kind !== kind) {
+			throw new ParserError('ParserError', `Expected a result of a ${kind} task from the worker, but got one of a ${result.kind} task.`);
+		}
+		return result as Extract<ParserWorkerResult, { kind: K }>;
+	}
+
+	const ReadObjectContents = (task: ObjectContentsTask): ObjectContentsResult => {
+		const diagnostics: ParserDiagnostic[] = [];
+		const reporter = new DiagnosticsReporter(diagnostic => diagnostics.push(diagnostic));
+		const skippedObjects: SkippedObjectDiagnostic[] = [];
+
+		for (const segment of task.segments) {
+			const reader = new SaveSliceReader(segment.buffer, segment.offset);
+			reader.versionAdapter = task.adapter;
+			reader.tolerant = task.tolerant;
+			reader.diagnostics = reporter;
+			const recovery: ObjectRecoveryOptions | undefined = task.tolerant ? {
+				levelName: segment.levelName,
+				onObjectSkipped: skipped => skippedObjects.push(skipped)
+			} : undefined;
+
+			reader.context.push('level', segment.levelName);
+			try {
+				Level.ReadNObjectContents(reader, segment.objects.length, segment.objects, 0, task.buildVersion, recovery, task.adapter);
+			} catch (error) {
+				throw ParserError.WithContext(error, reader.context, reader.getBufferPosition());
+			}
+		}
+
+		return { kind: 'object-contents', objects: task.segments.flatMap(segment => segment.objects), diagnostics, skippedObjects };
+	}
+
+	const CompressChunk = (task: CompressChunkTask, deflate?: ChunkDeflate): CompressChunkResult => ({
+		kind: 'compress-chunk',
+		chunk: SaveWriter.CreateCompressedChunk(task.buffer, task.compressionInfo, task.alignment, { ...task.deflateOptions, deflate })
+	});
+}
@@ -0,0 +1,88 @@
+import { Alignment } from '../byte/alignment.enum';
+import { ParserDiagnostic } from '../diagnostics/parser.diagnostic';
+import { ParseContextEntry } from '../error/parse-context';
+import { ChunkCompressionInfo, ChunkWriteOptions } from '../file.types';
+import { SkippedObjectDiagnostic } from '../satisfactory/save/save.types';
+import { SaveVersionAdapter } from '../satisfactory/save/save-version-adapter';
+import { SaveComponent } from '../satisfactory/types/objects/SaveComponent';
+import { SaveEntity } from '../satisfactory/types/objects/SaveEntity';
+
+/**
+ * Consecutive objects of a level.
+ * @buffer the object contents, starting with the first object.
+ * @offset the position of the buffer in the decompressed save body.
+ * @objects the objects with their headers already read.
+ */
+export type ObjectContentsSegment = {
+	levelName: string;
+	buffer: ArrayBuffer;
+	offset: number;
+	objects: (SaveEntity | SaveComponent)[];
+};
+
+/**
+ * Parses the contents of the objects of one or more levels. Small levels are parsed together in one task.
+ */
+export type ObjectContentsTask = {
+	kind: 'object-contents';
+	segments: ObjectContentsSegment[];
+	buildVersion: number;
+	adapter: SaveVersionAdapter;
+	tolerant: boolean;
+};
+
+/**
+ * @objects the objects of all segments of the task in their order, with their contents read. They are plain objects, like objects parsed from JSON.
+ */
+export type ObjectContentsResult = {
+	kind: 'object-contents';
+	objects: (SaveEntity | SaveComponent)[];
+	diagnostics: ParserDiagnostic[];
+	skippedObjects: SkippedObjectDiagnostic[];
+};
+
+/**
+ * Compresses a chunk of the save body.
+ * @buffer the uncompressed chunk.
+ */
+export type CompressChunkTask = {
+	kind: 'compress-chunk';
+	buffer: ArrayBuffer;
+	compressionInfo: ChunkCompressionInfo;
+	alignment: Alignment;
+	deflateOptions: Partial<Pick<ChunkWriteOptions, 'compressionLevel'>>;
+};
+
+/**
+ * @chunk the compressed chunk, including its chunk header.
+ */
+export type CompressChunkResult = {
+	kind: 'compress-chunk';
+	chunk: Uint8Array;
+};
+
+/**
+ * An error that was thrown in a worker. Errors are not passed between threads reliably, so it is described as plain object.
+ */
+export type ParserWorkerError = {
+	kind: 'error';
+	name: string;
+	message: string;
+	context?: ParseContextEntry[];
+	offset?: number;
+};
+
+export type ParserWorkerTask = ObjectContentsTask | CompressChunkTask;
+
+export type ParserWorkerResult = ObjectContentsResult | CompressChunkResult | ParserWorkerError;
+
+/**
+ * A worker that runs one task at a time, for example in a node worker thread or in a web worker.
+ * The worker has to answer every task with the result of {@link ParserWorkerTasks.Handle}.
+ */
+export type ParserWorker = {
+	run: (task: ParserWorkerTask, transfer: ArrayBuffer[]) => Promise<ParserWorkerResult>;
+	terminate: () => void | Promise<void>;
+};
+
+export type ParserWorkerFactory = () => ParserWorker;
@@ -0,0 +1,83 @@
+import { ParserError } from '../error/parser.error';
+import { ParserWorkerTasks } from './parser-worker-tasks';
+import { ParserWorker, ParserWorkerFactory, ParserWorkerResult, ParserWorkerTask } from './parser-worker.types';
+
+type QueuedTask = {
+	task: ParserWorkerTask;
+	transfer: ArrayBuffer[];
+	resolve: (result: ParserWorkerResult) => void;
+};
+
+/**
+ * Distributes tasks to a limited number of workers. Workers are only created once there is a task for them.
+ * Tasks are answered in the order they finish. A worker that fails is answered with an error result, so the returned promises never reject.
+ * The failed worker is terminated and replaced by a new one for the next task.
+ */
+export class WorkerPool {
+
+	private workers: ParserWorker[] = [];
+	private idleWorkers: ParserWorker[] = [];
+	private queue: QueuedTask[] = [];
+
+	constructor(private createWorker: ParserWorkerFactory, public readonly size: number) {
+		if (size < 1) {
+			throw new ParserError('ParserError', `A worker pool needs at least one worker, but was configured with ${size}.`);
+		}
+	}
+
+	public run(task: ParserWorkerTask, transfer: ArrayBuffer[] = []): Promise<ParserWorkerResult> {
+		return new Promise<ParserWorkerResult>(resolve => {
+			this.queue.push({ task, transfer, resolve });
+			this.runNext();
+		});
+	}
+
+	/**
+	 * terminates all workers. Tasks that are still queued are dropped.
+	 */
+	public async terminate(): Promise<void> {
+		this.queue = [];
+		const workers = this.workers;
+		this.workers = [];
+		this.idleWorkers = [];
+		await Promise.all(workers.map(worker => worker.terminate()));
+	}
+
+	private runNext(): void {
+		if (this.queue.length === 0) {
+			return;
+		}
+
+		let worker = this.idleWorkers.pop();
+		if (worker === undefined && this.workers.length < this.size) {
+			worker = this.createWorker();
+			this.workers.push(worker);
+		}
+		if (worker === undefined) {
+			return;
+		}
+
+		const { task, transfer, resolve } = this.queue.shift()!;
+		const runningWorker = worker;
+		runningWorker.run(task, transfer)
+			.then(result => {
+				if (this.workers.includes(runningWorker)) {
+					this.idleWorkers.push(runningWorker);
+				}
+				resolve(result);
+			}, error => {
+				// the worker failed instead of answering, like a crashed worker thread. So it is replaced by a new one.
+				this.removeWorker(runningWorker);
+				resolve(ParserWorkerTasks.ToWorkerError(error));
+			})
+			.then(() => this.runNext());
+	}
+
+	private removeWorker(worker: ParserWorker): void {
+		this.workers = this.workers.filter(other => other !== worker);
+		this.idleWorkers = this.idleWorkers.filter(other => other !== worker);
+		Promise.resolve()
+			.then(() => worker.terminate())
+			.catch(() => { });
+	}
+}
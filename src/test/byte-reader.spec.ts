@@ -0,0 +1,94 @@
+import { Alignment } from '../parser/byte/alignment.enum';
+import { Parser } from '../parser/parser';
+import { CreateTestEntity, CreateTestSave, FixtureSaveReader, FixtureSaveWriter, WriteTestSave } from './fixtures';
+
+const Write = (write: (writer: FixtureSaveWriter) => void): FixtureSaveReader => {
+	const writer = new FixtureSaveWriter();
+	write(writer);
+	return new FixtureSaveReader(writer.endWriting());
+};
+
+describe('ByteReader strings', () => {
+
+	it('reads empty strings, with and without a terminating character', () => {
+		const reader = Write(writer => {
+			writer.writeString('');
+			writer.writeInt32(1);
+			writer.writeByte(0);
+			writer.writeString('after');
+		});
+		expect(reader.readString()).toBe('');
+		expect(reader.readString()).toBe('');
+		expect(reader.readString()).toBe('after');
+	});
+
+	it('reads ANSI strings with characters beyond ASCII as latin1', () => {
+		const reader = Write(writer => {
+			writer.writeInt32(6);
+			writer.writeBytes(new Uint8Array([0x43, 0xE9, 0x74, 0xE9, 0xFF, 0x00]));
+			writer.writeString('ascii');
+		});
+		expect(reader.readString()).toBe('Cétéÿ');
+		expect(reader.readString()).toBe('ascii');
+	});
+
+	it('reads UTF-16 strings with surrogate pairs', () => {
+		const text = 'Fabrik 🏭 mit Förderband 🚂';
+		const reader = Write(writer => writer.writeString(text));
+		expect(reader.readString()).toBe(text);
+		expect(reader.getBufferPosition()).toBe(4 + (text.length + 1) * 2);
+	});
+
+	it('keeps unpaired surrogates of UTF-16 strings', () => {
+		const text = 'broken \uD83C pair and \uDFED';
+		const reader = Write(writer => writer.writeString(text));
+		expect(reader.readString()).toBe(text);
+	});
+
+	it('reads UTF-16 strings in big endian', () => {
+		const text = 'Grüße 🏭';
+		const writer = new FixtureSaveWriter();
+		writer.alignment = Alignment.BIG_ENDIAN;
+		writer.writeString(text);
+		const reader = new FixtureSaveReader(writer.endWriting());
+		reader.alignment = Alignment.BIG_ENDIAN;
+		expect(reader.readString()).toBe(text);
+	});
+
+	it('throws a RangeError for strings that exceed the buffer', () => {
+		const reader = Write(writer => {
+			writer.writeInt32(100);
+			writer.writeBytes(new Uint8Array(10));
+		});
+		expect(() => reader.readString()).toThrow(expect.objectContaining({ name: 'RangeError' }));
+	});
+});
+
+describe('ByteReader bytes', () => {
+
+	it('returns views on the buffer, that change with it', () => {
+		const reader = Write(writer => writer.writeBytes(new Uint8Array([1, 2, 3, 4, 5, 6])));
+		reader.skipBytes(2);
+		const bytes = reader.readBytes(3);
+		expect(Array.from(bytes)).toEqual([3, 4, 5]);
+		expect(bytes.buffer).toBe(reader.getBuffer());
+		expect(bytes.byteOffset).toBe(2);
+
+		const copy = bytes.slice();
+		new Uint8Array(reader.getBuffer())[2] = 42;
+		expect(bytes[0]).toBe(42);
+		expect(copy[0]).toBe(3);
+	});
+
+	it('reads bytes and strings from the inflated save body, not from the file', () => {
+		const entity = CreateTestEntity('Build_Test', 1);
+		const save = CreateTestSave([entity]);
+		save.header.sessionName = 'Sitzung über Förderbänder 🏭';
+
+		const parsed = Parser.ParseSave('TestSave', WriteTestSave(save));
+		expect(parsed.header.sessionName).toBe('Sitzung über Förderbänder 🏭');
+		expect(parsed.gridHash).toEqual(save.gridHash);
+		expect(Object.keys(parsed.grids)).toEqual(Object.keys(save.grids));
+		expect(parsed.levels[0].objects[0].instanceName).toBe(entity.instanceName);
+	});
+});
@@ -0,0 +1,135 @@
+import { ByteWriter } from '../parser/byte/byte-writer.class';
+import { SaveReader } from '../parser/satisfactory/save/save-reader';
+import { SaveWriter } from '../parser/satisfactory/save/save-writer';
+
+/*
+ * Benchmarks the byte primitives against the implementations they replaced. Run with `npm run bench`.
+ * The legacy implementations are kept here, so the speedup stays measurable.
+ */
+
+const Legacy = {
+	readByte: (view: DataView, pos: { at: number }) => parseInt(view.getUint8(pos.at++).toString()),
+	readBytes: (view: DataView, pos: { at: number }, count: number) => new Uint8Array(new Array(count).fill(0).map(() => view.getUint8(pos.at++))),
+	readString: (view: DataView, pos: { at: number }) => {
+		const strLength = view.getInt32(pos.at, true);
+		pos.at += 4;
+		if (strLength < 0) {
+			const string = new Array(-strLength - 1).fill('').map(() => { const c = view.getUint16(pos.at, true); pos.at += 2; return String.fromCharCode(c); });
+			pos.at += 2;
+			return string.join('');
+		}
+		const string = new Array(strLength - 1).fill('').map(() => String.fromCharCode(view.getUint8(pos.at++)));
+		pos.at += 1;
+		return string.join('');
+	},
+	writer: class extends SaveWriter {
+		public writeBytes(bytes: Uint8Array): void {
+			this.extendBufferIfNeeded(bytes.length);
+			bytes.forEach(byte => this.bufferView.setUint8(this.currentByte++, byte));
+		}
+		public writeString(value: string): void {
+			if (ByteWriter.IsASCIICompatible(value)) {
+				this.writeInt32(value.length + 1);
+				for (let i = 0; i < value.length; i++) {
+					this.writeByte(value.charCodeAt(i));
+				}
+				this.writeUint8(0);
+			} else {
+				this.writeInt32(-value.length - 1);
+				for (let i = 0; i < value.length; i++) {
+					this.writeUint16(value.charCodeAt(i));
+				}
+				this.writeUint16(0);
+			}
+		}
+		// the legacy growth, but with enough space for big writes. The original failed on them.
+		protected extendBufferIfNeeded(countNeededBytes: number): void {
+			if (this.currentByte + countNeededBytes > this.bufferView.byteLength) {
+				this.bufferArray = ByteWriter.AppendBuffer(this.bufferArray, new ArrayBuffer(Math.max(1.5 * this.bufferArray.byteLength, countNeededBytes)));
+				this.bufferView = new DataView(this.bufferArray);
+			}
+		}
+	}
+};
+
+const measure = (name: string, legacy: () => void, current: () => void): void => {
+	const time = (fn: () => void) => {
+		fn();	// warm up
+		const start = process.hrtime.bigint();
+		fn();
+		return Number(process.hrtime.bigint() - start) / 1e6;
+	};
+	const legacyMs = time(legacy);
+	const currentMs = time(current);
+	console.log(`${name.padEnd(28)} legacy ${legacyMs.toFixed(1).padStart(8)}ms   current ${currentMs.toFixed(1).padStart(8)}ms   speedup ${(legacyMs / currentMs).toFixed(1)}x`);
+};
+
+const STRING_COUNT = 200000;
+const asciiStrings = new Array(STRING_COUNT).fill(0).map((_, i) => `Persistent_Level:PersistentLevel.Build_ConveyorBeltMk1_C_${i}`);
+const utf16Strings = new Array(STRING_COUNT).fill(0).map((_, i) => `Fabrik für Schrauben ${i} ✓`);
+
+const writeStrings = (writer: SaveWriter, strings: string[]) => strings.forEach(string => writer.writeString(string));
+const stringBinary = (strings: string[]) => {
+	const writer = new SaveWriter();
+	writeStrings(writer, strings);
+	return writer.endWriting();
+};
+
+for (const [name, strings] of [['ascii', asciiStrings], ['utf16', utf16Strings]] as const) {
+	const binary = stringBinary(strings);
+	measure(`readString ${name}`, () => {
+		const view = new DataView(binary);
+		const pos = { at: 0 };
+		for (let i = 0; i < STRING_COUNT; i++) {
+			Legacy.readString(view, pos);
+		}
+	}, () => {
+		const reader = new SaveReader(binary);
+		for (let i = 0; i < STRING_COUNT; i++) {
+			reader.readString();
+		}
+	});
+	measure(`writeString ${name}`, () => writeStrings(new Legacy.writer(), strings), () => writeStrings(new SaveWriter(), strings));
+}
+
+const bytes = new Uint8Array(32 * 1024 * 1024).map((_, i) => i % 251);
+measure('readByte 32 MiB', () => {
+	const view = new DataView(bytes.buffer);
+	const pos = { at: 0 };
+	for (let i = 0; i < bytes.length; i++) {
+		Legacy.readByte(view, pos);
+	}
+}, () => {
+	const reader = new SaveReader(bytes.buffer);
+	for (let i = 0; i < bytes.length; i++) {
+		reader.readByte();
+	}
+});
+
+const BLOCK_SIZE = 4096;
+measure('readBytes 4 KiB blocks', () => {
+	const view = new DataView(bytes.buffer);
+	const pos = { at: 0 };
+	for (let i = 0; i < bytes.length / BLOCK_SIZE; i++) {
+		Legacy.readBytes(view, pos, BLOCK_SIZE);
+	}
+}, () => {
+	const reader = new SaveReader(bytes.buffer);
+	for (let i = 0; i < bytes.length / BLOCK_SIZE; i++) {
+		reader.readBytes(BLOCK_SIZE);
+	}
+});
+
+const writeBlocks = (writer: SaveWriter) => {
+	for (let i = 0; i < bytes.length / BLOCK_SIZE; i++) {
+		writer.writeBytes(bytes.subarray(i * BLOCK_SIZE, (i + 1) * BLOCK_SIZE));
+	}
+};
+measure('writeBytes 4 KiB blocks', () => writeBlocks(new Legacy.writer()), () => writeBlocks(new SaveWriter()));
+
+const writeInts = (writer: SaveWriter) => {
+	for (let i = 0; i < 4 * 1024 * 1024; i++) {
+		writer.writeInt32(i);
+	}
+};
+measure('writeInt32 buffer growth', () => writeInts(new Legacy.writer()), () => writeInts(new SaveWriter()));
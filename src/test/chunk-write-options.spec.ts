@@ -0,0 +1,73 @@
+import { ParserError } from '../parser/error/parser.error';
+import { ChunkCompressionInfo, ChunkWriteOptions, CompressionAlgorithmCode } from '../parser/file.types';
+import { Parser } from '../parser/parser';
+import { Blueprint } from '../parser/satisfactory/blueprint/blueprint.types';
+import { Concat, CreateTestEntity, CreateTestSave, WriteTestSave } from './fixtures';
+
+const CreateBigSave = () => CreateTestSave(Array.from({ length: 100 }, (_, i) => CreateTestEntity('Build_ConstructorMk1', i)));
+
+/**
+ * writes the save and keeps its header apart, so the chunks can be inspected.
+ */
+const WriteSaveParts = (options: Partial<ChunkWriteOptions>) => {
+	let header = new Uint8Array();
+	const chunks: Uint8Array[] = [];
+	const summary = Parser.WriteSave(CreateBigSave(), bytes => header = bytes, chunk => chunks.push(chunk), options);
+	return { header, chunks, summary, file: Concat([header, ...chunks]) };
+};
+
+const ParsedNames = (file: Uint8Array): string[] => Parser.ParseSave('TestSave', file).levels.flatMap(level => level.objects.map(object => object.instanceName));
+
+describe('chunk write options', () => {
+
+	it('splits the body into chunks of the given size', () => {
+		const { chunks, summary, file } = WriteSaveParts({ maxUncompressedChunkContentSize: 1024 });
+
+		expect(chunks.length).toBe(summary.length);
+		expect(summary.slice(0, -1).every(chunk => chunk.uncompressedSize === 1024 + 49)).toBe(true);
+		expect(ParsedNames(file).length).toBe(100);
+		expect(() => WriteTestSave(CreateBigSave(), { maxUncompressedChunkContentSize: 0 })).toThrow(ParserError);
+	});
+
+	it('writes v1 and v2 chunk headers, and reads their version and compression algorithm back', () => {
+		const v1 = WriteSaveParts({ chunkHeaderVersion: 'v1' });
+		const v2 = WriteSaveParts({ chunkHeaderVersion: 'v2' });
+
+		expect(new DataView(v1.chunks[0].buffer, v1.chunks[0].byteOffset).getUint32(4, true)).toBe(0);
+		expect(new DataView(v2.chunks[0].buffer, v2.chunks[0].byteOffset).getUint32(4, true)).toBe(0x22222222);
+		expect(v2.chunks[0][16]).toBe(CompressionAlgorithmCode.ZLIB);
+		expect(Parser.ParseSave('TestSave', v1.file).compressionInfo).toMatchObject<Partial<ChunkCompressionInfo>>({ chunkHeaderSize: 48 });
+		expect(Parser.ParseSave('TestSave', v2.file).compressionInfo).toMatchObject<Partial<ChunkCompressionInfo>>({ chunkHeaderSize: 49, compressionAlgorithm: CompressionAlgorithmCode.ZLIB });
+		expect(ParsedNames(v1.file)).toEqual(ParsedNames(v2.file));
+	});
+
+	it('compresses with the given level', () => {
+		const stored = WriteSaveParts({ compressionLevel: 0 });
+		const best = WriteSaveParts({ compressionLevel: 9 });
+
+		expect(stored.summary[0].compressedSize).toBeGreaterThan(stored.summary[0].uncompressedSize);
+		expect(best.summary[0].compressedSize).toBeLessThan(stored.summary[0].compressedSize);
+		expect(ParsedNames(stored.file)).toEqual(ParsedNames(best.file));
+	});
+
+	it('applies the options to blueprints as well', () => {
+		const blueprint: Blueprint = {
+			name: 'TestBlueprint',
+			compressionInfo: CreateBigSave().compressionInfo!,
+			header: { designerDimension: { x: 4, y: 4, z: 4 }, itemCosts: [], recipeReferences: [] },
+			config: { description: '', color: { r: 0, g: 0, b: 0, a: 1 }, iconID: 0 },
+			objects: CreateBigSave().levels[0].objects
+		};
+		const parts: Uint8Array[] = [];
+
+		const { mainFileChunkSummary, configFileBinary } = Parser.WriteBlueprintFiles(blueprint, header => parts.push(header), chunk => parts.push(chunk), {
+			maxUncompressedChunkContentSize: 1024,
+			chunkHeaderVersion: 'v1'
+		});
+		const parsed = Parser.ParseBlueprintFiles('TestBlueprint', Buffer.from(Concat(parts)), Buffer.from(configFileBinary));
+
+		expect(mainFileChunkSummary.length).toBeGreaterThan(1);
+		expect(parsed.compressionInfo.chunkHeaderSize).toBe(48);
+		expect(parsed.objects.length).toBe(100);
+	});
+});
@@ -0,0 +1,134 @@
+import { ParserError } from '../parser/error/parser.error';
+import { cloneEntities, cloneEntity } from '../parser/satisfactory/edit/clone-entity';
+import { SaveComponent } from '../parser/satisfactory/types/objects/SaveComponent';
+import { SaveEntity } from '../parser/satisfactory/types/objects/SaveEntity';
+import { ArrayProperty } from '../parser/satisfactory/types/property/generic/ArrayProperty';
+import { ObjectProperty } from '../parser/satisfactory/types/property/generic/ObjectProperty';
+import { PowerLineSpecialProperties } from '../parser/satisfactory/types/property/special/PowerLineSpecialProperties';
+import { ObjectReference } from '../parser/satisfactory/types/structs/ObjectReference';
+import { ConnectTestMachines, CreateTestMachine, CreateTestSave, Named } from './fixtures';
+
+const RECIPE = '/Game/FactoryGame/Recipes/Buildings/Recipe_ConstructorMk1.Recipe_ConstructorMk1_C';
+
+/**
+ * three machines, where the first one has a power line to each of the others.
+ */
+const CreatePowerGrid = () => {
+	const a = CreateTestMachine('Build_ConstructorMk1', 1);
+	const b = CreateTestMachine('Build_ConstructorMk1', 2);
+	const c = CreateTestMachine('Build_ConstructorMk1', 3);
+	a.entity.properties.mBuiltWithRecipe = Named('mBuiltWithRecipe', new ObjectProperty({ levelName: '', pathName: RECIPE }));
+	const lineAB = ConnectTestMachines(10, a.powerConnection, b.powerConnection);
+	const lineAC = ConnectTestMachines(11, a.powerConnection, c.powerConnection);
+	const save = CreateTestSave([a.entity, a.powerConnection, b.entity, b.powerConnection, c.entity, c.powerConnection, lineAB, lineAC]);
+	return { save, a, b, c, lineAB, lineAC };
+};
+
+const WiresOf = (connection: SaveComponent): string[] => (connection.properties.mWires as ArrayProperty<ObjectReference>).values.map(wire => wire.pathName);
+
+describe('cloneEntities', () => {
+
+	it('names the clones in the naming scheme of the game, and their components after them', () => {
+		const { save, a } = CreatePowerGrid();
+		const { clones, instanceNames } = cloneEntities(save, [a.entity.instanceName]);
+
+		const entityName = instanceNames.get(a.entity.instanceName)!;
+		expect(entityName).toMatch(/^Persistent_Level:PersistentLevel\.Build_ConstructorMk1_C_\d+$/);
+		expect(entityName).not.toBe(a.entity.instanceName);
+		expect(instanceNames.get(a.powerConnection.instanceName)).toBe(`${entityName}.PowerInput`);
+
+		expect(clones.map(clone => clone.instanceName)).toEqual([entityName, `${entityName}.PowerInput`]);
+		expect(clones[1].parentEntityName).toBe(entityName);
+		expect((clones[0] as SaveEntity).components).toEqual([{ levelName: 'Persistent_Level', pathName: `${entityName}.PowerInput` }]);
+		expect(save.levels[0].objects.slice(-2)).toEqual(clones);
+	});
+
+	it('copies the objects deeply, without changing the originals', () => {
+		const { save, a } = CreatePowerGrid();
+		const clone = cloneEntity(save, a.entity.instanceName);
+
+		expect(clone).toBeInstanceOf(SaveEntity);
+		expect(clone.transform).not.toBe(a.entity.transform);
+		expect(clone.properties.mBuiltWithRecipe).toBeInstanceOf(ObjectProperty);
+		expect(clone.properties.mBuiltWithRecipe).not.toBe(a.entity.properties.mBuiltWithRecipe);
+		expect(a.entity.components).toEqual([{ levelName: 'Persistent_Level', pathName: a.powerConnection.instanceName }]);
+		expect(WiresOf(a.powerConnection).length).toBe(2);
+	});
+
+	it('points references among the clones to the clones', () => {
+		const { save, a, b, lineAB } = CreatePowerGrid();
+		const { instanceNames, clones } = cloneEntities(save, [a.entity.instanceName, b.entity.instanceName, lineAB.instanceName]);
+
+		const lineClone = clones.find(clone => clone.instanceName === instanceNames.get(lineAB.instanceName)) as SaveEntity;
+		const special = lineClone.specialProperties as PowerLineSpecialProperties;
+		expect(special.source.pathName).toBe(instanceNames.get(a.powerConnection.instanceName));
+		expect(special.target.pathName).toBe(instanceNames.get(b.powerConnection.instanceName));
+
+		const connectionClone = clones.find(clone => clone.instanceName === instanceNames.get(a.powerConnection.instanceName)) as SaveComponent;
+		expect(WiresOf(connectionClone)).toEqual([lineClone.instanceName]);
+	});
+
+	it('removes references to connections that were not cloned, but keeps references to assets', () => {
+		const { save, a } = CreatePowerGrid();
+		const { clones } = cloneEntities(save, [a.entity.instanceName]);
+
+		expect(WiresOf(clones[1] as SaveComponent)).toEqual([]);
+		expect((clones[0].properties.mBuiltWithRecipe as ObjectProperty).value).toEqual({ levelName: '', pathName: RECIPE });
+		expect(WiresOf(a.powerConnection).length).toBe(2);
+	});
+
+	it('keeps references to connections that were not cloned, if asked to', () => {
+		const { save, a, lineAB, lineAC } = CreatePowerGrid();
+		const { clones } = cloneEntities(save, [a.entity.instanceName], { clearExternalConnections: false });
+		expect(WiresOf(clones[1] as SaveComponent)).toEqual([lineAB.instanceName, lineAC.instanceName]);
+	});
+
+	it('moves and turns the clones around the pivot', () => {
+		const { save, a, b, lineAB } = CreatePowerGrid();
+		a.entity.transform.translation = { x: 200, y: 0, z: 0 };
+		b.entity.transform.translation = { x: 100, y: 0, z: 0 };
+
+		// a quarter turn around z.
+		const rotation = { x: 0, y: 0, z: Math.SQRT1_2, w: Math.SQRT1_2 };
+		const { clones, instanceNames } = cloneEntities(save, [a.entity.instanceName, b.entity.instanceName, lineAB.instanceName], {
+			offset: { translation: { x: 0, y: 0, z: 10 }, rotation },
+			pivot: { x: 100, y: 0, z: 0 }
+		});
+		const cloneOf = (original: SaveEntity) => clones.find(clone => clone.instanceName === instanceNames.get(original.instanceName)) as SaveEntity;
+
+		const movedA = cloneOf(a.entity).transform;
+		expect(movedA.translation.x).toBeCloseTo(100);
+		expect(movedA.translation.y).toBeCloseTo(100);
+		expect(movedA.translation.z).toBeCloseTo(10);
+		expect(movedA.rotation.z).toBeCloseTo(Math.SQRT1_2);
+		expect(movedA.rotation.w).toBeCloseTo(Math.SQRT1_2);
+
+		const movedB = cloneOf(b.entity).transform;
+		expect(movedB.translation).toEqual({ x: 100, y: 0, z: 10 });
+
+		// the ends of the power line are turned around the same pivot.
+		const special = cloneOf(lineAB).specialProperties as PowerLineSpecialProperties;
+		expect(special.targetTranslation!.x).toBeCloseTo(100);
+		expect(special.targetTranslation!.y).toBeCloseTo(900);
+		expect(special.targetTranslation!.z).toBeCloseTo(10);
+
+		expect(a.entity.transform.translation).toEqual({ x: 200, y: 0, z: 0 });
+	});
+
+	it('adds up rotations of the clones', () => {
+		const { save, a } = CreatePowerGrid();
+		a.entity.transform.rotation = { x: 0, y: 0, z: Math.SQRT1_2, w: Math.SQRT1_2 };
+		const clone = cloneEntity(save, a.entity.instanceName, { offset: { rotation: { x: 0, y: 0, z: Math.SQRT1_2, w: Math.SQRT1_2 } } });
+
+		// two quarter turns are a half turn.
+		expect(clone.transform.rotation.z).toBeCloseTo(1);
+		expect(clone.transform.rotation.w).toBeCloseTo(0);
+		expect(clone.transform.translation).toEqual(a.entity.transform.translation);
+	});
+
+	it('throws for instance names of objects that are no entities', () => {
+		const { save, a } = CreatePowerGrid();
+		expect(() => cloneEntities(save, [a.powerConnection.instanceName])).toThrow(ParserError);
+		expect(() => cloneEntities(save, ['Persistent_Level:PersistentLevel.Missing_C_1'])).toThrow(ParserError);
+	});
+});
@@ -0,0 +1,160 @@
+import { ParserError } from '../parser/error/parser.error';
+import { Parser } from '../parser/parser';
+import { addBuildable, addLightweightBuildable, BUILDABLE_COMPONENT_LAYOUTS, createBuildable } from '../parser/satisfactory/edit/create-buildable';
+import { EDIT } from '../parser/satisfactory/edit/edit-constants';
+import { SaveObjectIndex } from '../parser/satisfactory/save/save-object-index';
+import { SaveUpgrader } from '../parser/satisfactory/save/save-upgrader';
+import { SaveComponent } from '../parser/satisfactory/types/objects/SaveComponent';
+import { SaveEntity } from '../parser/satisfactory/types/objects/SaveEntity';
+import { StructProperty } from '../parser/satisfactory/types/property/generic/StructProperty';
+import { BuildableSubsystemSpecialProperties } from '../parser/satisfactory/types/property/special/BuildableSubsystemSpecialProperties';
+import { DynamicStructPropertyValue } from '../parser/satisfactory/types/structs/DynamicStructPropertyValue';
+import { Transform } from '../parser/satisfactory/types/structs/Transform';
+import { CreateTestSave, CreateTestSaveHeader, WriteTestSave } from './fixtures';
+
+const transform: Transform = {
+	rotation: { x: 0, y: 0, z: 0, w: 1 },
+	translation: { x: 1000, y: -2000, z: 300 },
+	scale3d: { x: 1, y: 1, z: 1 }
+};
+
+const INVENTORY = EDIT.COMPONENTS.INVENTORY_COMPONENT.TYPE_PATH;
+const FACTORY_CONNECTION = EDIT.COMPONENTS.FACTORY_CONNECTION_COMPONENT.TYPE_PATH;
+const POWER_CONNECTION = EDIT.COMPONENTS.POWER_CONNECTION_COMPONENT.TYPE_PATH;
+
+describe('createBuildable', () => {
+
+	it('creates a constructor with the components of the game', () => {
+		const instanceName = 'Persistent_Level:PersistentLevel.Build_ConstructorMk1_C_2147000001';
+		const { entity, components } = createBuildable(EDIT.ENTITIES.FACTORY.CONSTRUCTOR, transform, { instanceName, buildTimeStamp: 12.5 });
+
+		expect(entity.typePath).toBe(EDIT.ENTITIES.FACTORY.CONSTRUCTOR.TYPE_PATH);
+		expect(entity.instanceName).toBe(instanceName);
+		expect(entity.rootObject).toBe('Persistent_Level');
+		expect(entity.transform).toBe(transform);
+
+		expect(components.map(component => [component.instanceName.substring(instanceName.length), component.typePath])).toEqual([
+			['.InputInventory', INVENTORY],
+			['.OutputInventory', INVENTORY],
+			['.InventoryPotential', INVENTORY],
+			['.powerInfo', EDIT.COMPONENTS.POWER_INFO_COMPONENT.TYPE_PATH],
+			['.PowerInput', POWER_CONNECTION],
+			['.Input0', FACTORY_CONNECTION],
+			['.Output0', FACTORY_CONNECTION],
+		]);
+		expect(components.every(component => component.parentEntityName === instanceName)).toBe(true);
+		expect(entity.components).toEqual(components.map(component => ({ levelName: 'Persistent_Level', pathName: component.instanceName })));
+
+		expect(entity.properties.mInputInventory).toEqual(expect.objectContaining({ name: 'mInputInventory', value: { levelName: 'Persistent_Level', pathName: `${instanceName}.InputInventory` } }));
+		expect(entity.properties.mOutputInventory).toEqual(expect.objectContaining({ value: { levelName: 'Persistent_Level', pathName: `${instanceName}.OutputInventory` } }));
+		expect(entity.properties.mPowerInfo).toEqual(expect.objectContaining({ value: { levelName: 'Persistent_Level', pathName: `${instanceName}.powerInfo` } }));
+		expect(entity.properties.mBuiltWithRecipe).toEqual(expect.objectContaining({ value: { levelName: '', pathName: EDIT.ENTITIES.FACTORY.CONSTRUCTOR.RECIPE } }));
+		expect(entity.properties.mBuildTimeStamp).toEqual(expect.objectContaining({ name: 'mBuildTimeStamp', value: 12.5 }));
+		expect(entity.properties.mCustomizationData).toEqual(expect.objectContaining({
+			name: 'mCustomizationData',
+			subtype: 'FactoryCustomizationData',
+			value: {
+				type: 'FactoryCustomizationData',
+				properties: {
+					SwatchDesc: expect.objectContaining({ value: { levelName: '', pathName: EDIT.ENTITIES.FACTORY.CONSTRUCTOR.DEFAULT_SWATCH } })
+				}
+			}
+		}));
+	});
+
+	it('names the pipe connections like the game', () => {
+		const { components } = createBuildable(EDIT.ENTITIES.FACTORY.BLENDER, transform, { instanceName: 'Persistent_Level:PersistentLevel.Build_Blender_C_1' });
+		const names = components.filter(component => component.typePath === EDIT.COMPONENTS.PIPE_CONNECTION_FACTORY_COMPONENT.TYPE_PATH).map(component => component.instanceName.split('.').pop());
+		expect(names).toEqual(['PipeInputFactory', 'PipeInputFactory1', 'PipeOutputFactory', 'PipeOutputFactory1']);
+	});
+
+	it('overrides the swatch with custom colors', () => {
+		const primary = { r: 1, g: 0.5, b: 0, a: 1 };
+		const secondary = { r: 0.1, g: 0.1, b: 0.1, a: 1 };
+		const { entity } = createBuildable(EDIT.ENTITIES.FACTORY.CONSTRUCTOR, transform, { colors: { primary, secondary } });
+
+		const customization = ((entity.properties.mCustomizationData as StructProperty).value as DynamicStructPropertyValue).properties;
+		expect(customization.SwatchDesc).toEqual(expect.objectContaining({ value: { levelName: '', pathName: '/Game/FactoryGame/Buildable/-Shared/Customization/Swatches/SwatchDesc_Custom.SwatchDesc_Custom_C' } }));
+		expect((customization.OverrideColorData as StructProperty).value).toEqual({
+			type: 'FactoryCustomizationColorSlot',
+			properties: {
+				PrimaryColor: expect.objectContaining({ subtype: 'LinearColor', value: primary }),
+				SecondaryColor: expect.objectContaining({ subtype: 'LinearColor', value: secondary })
+			}
+		});
+	});
+
+	it('creates building parts that are no lightweight buildables without components', () => {
+		const { entity, components } = createBuildable(EDIT.ENTITIES.BEAM.PAINTED, transform);
+		expect(components).toEqual([]);
+		expect(entity.components).toEqual([]);
+	});
+
+	it('throws for lightweight buildables, which belong into the lightweight buildable subsystem', () => {
+		expect(() => createBuildable(EDIT.ENTITIES.FOUNDATION.FLAT.NORMAL_8x1_01, transform)).toThrow(ParserError);
+		expect(() => addBuildable(new SaveObjectIndex(CreateTestSave()), EDIT.ENTITIES.ROOF.SLANTED.NORMAL_8x0, transform)).toThrow(ParserError);
+		expect(BUILDABLE_COMPONENT_LAYOUTS[EDIT.ENTITIES.FOUNDATION.FLAT.NORMAL_8x1_01.TYPE_PATH]).toBeUndefined();
+	});
+
+	it('throws for buildables without a known layout, unless the components are given', () => {
+		expect(() => createBuildable(EDIT.ENTITIES.RADAR_TOWER, transform)).toThrow(ParserError);
+
+		const { components } = createBuildable(EDIT.ENTITIES.RADAR_TOWER, transform, {
+			components: [{ name: 'PowerConnection', typePath: POWER_CONNECTION }]
+		});
+		expect(components.map(component => component.typePath)).toEqual([POWER_CONNECTION]);
+	});
+
+	it('adds buildables that survive writing and parsing the save', () => {
+		const save = CreateTestSave();
+		const index = new SaveObjectIndex(save);
+		const first = addBuildable(index, EDIT.ENTITIES.STORAGE.CONTAINER_MK_1, transform);
+		const second = addBuildable(index, EDIT.ENTITIES.STORAGE.CONTAINER_MK_1, transform);
+		expect(first.entity.instanceName).not.toBe(second.entity.instanceName);
+		expect(index.get(first.entity.instanceName)).toBe(first.entity);
+		expect(index.getLevelOf(first.components[0].instanceName)?.name).toBe('Persistent_Level');
+
+		const parsed = Parser.ParseSave('TestSave', WriteTestSave(save));
+		const objects = parsed.levels[0].objects;
+		expect(objects.length).toBe(2 * (1 + BUILDABLE_COMPONENT_LAYOUTS[EDIT.ENTITIES.STORAGE.CONTAINER_MK_1.TYPE_PATH].length));
+
+		const entity = objects.find(object => object.instanceName === first.entity.instanceName) as SaveEntity;
+		expect(entity.properties).toEqual(first.entity.properties);
+		expect(entity.components).toEqual(first.entity.components);
+		expect(entity.transform).toEqual(transform);
+		const component = objects.find(object => object.instanceName === first.components[0].instanceName) as SaveComponent;
+		expect(component.parentEntityName).toBe(first.entity.instanceName);
+	});
+
+	it('adds buildables in the save version of the save', () => {
+		const index = new SaveObjectIndex(CreateTestSave([], [], CreateTestSaveHeader({ saveVersion: 52 })));
+
+		const { entity, components } = addBuildable(index, EDIT.ENTITIES.POWER_POLE.POWER_POLE_MK1, transform);
+
+		expect([entity, ...components].map(object => object.objectVersion)).toEqual([52, 52]);
+		expect(addBuildable(index, EDIT.ENTITIES.POWER_POLE.POWER_POLE_MK1, transform, { objectVersion: 46 }).entity.objectVersion).toBe(46);
+	});
+
+	it('adds lightweight buildables to the lightweight buildable subsystem, which survive writing and parsing the save', () => {
+		const save = CreateTestSave();
+		const index = new SaveObjectIndex(save);
+		const foundation = EDIT.ENTITIES.FOUNDATION.FLAT.NORMAL_8x1_01;
+
+		const first = addLightweightBuildable(index, foundation, transform);
+		addLightweightBuildable(index, foundation, transform, { recipe: '/Game/Test/Recipe_Test.Recipe_Test_C' });
+		expect(() => addLightweightBuildable(index, EDIT.ENTITIES.FACTORY.CONSTRUCTOR, transform)).toThrow(ParserError);
+
+		expect(first).toEqual(expect.objectContaining({
+			transform,
+			usedSwatchSlot: { levelName: '', pathName: foundation.DEFAULT_SWATCH },
+			usedRecipe: { levelName: '', pathName: foundation.RECIPE }
+		}));
+		const parsed = Parser.ParseSave('TestSave', WriteTestSave(save));
+		const [subsystem] = parsed.levels[0].objects;
+		expect(subsystem.typePath).toBe(SaveUpgrader.LIGHTWEIGHT_BUILDABLE_SUBSYSTEM_TYPE_PATH);
+		const buildables = (subsystem.specialProperties as BuildableSubsystemSpecialProperties).buildables;
+		expect(buildables.map(buildable => [buildable.typePath, buildable.instances.map(instance => instance.usedRecipe.pathName)])).toEqual([
+			[foundation.TYPE_PATH, [foundation.RECIPE, '/Game/Test/Recipe_Test.Recipe_Test_C']]
+		]);
+	});
+});
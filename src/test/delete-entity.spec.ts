@@ -0,0 +1,120 @@
+import { ParserError } from '../parser/error/parser.error';
+import { deleteEntities, deleteEntity } from '../parser/satisfactory/edit/delete-entity';
+import { ObjectReferenceGraph } from '../parser/satisfactory/save/object-reference-graph';
+import { SaveComponent } from '../parser/satisfactory/types/objects/SaveComponent';
+import { ArrayProperty } from '../parser/satisfactory/types/property/generic/ArrayProperty';
+import { ObjectReference } from '../parser/satisfactory/types/structs/ObjectReference';
+import { ConnectTestMachines, CreateTestEntity, CreateTestMachine, CreateTestSave } from './fixtures';
+
+/**
+ * three machines, where the first one has a power line to each of the others.
+ */
+const CreatePowerGrid = () => {
+	const a = CreateTestMachine('Build_ConstructorMk1', 1);
+	const b = CreateTestMachine('Build_ConstructorMk1', 2);
+	const c = CreateTestMachine('Build_ConstructorMk1', 3);
+	const lineAB = ConnectTestMachines(10, a.powerConnection, b.powerConnection);
+	const lineAC = ConnectTestMachines(11, a.powerConnection, c.powerConnection);
+	const save = CreateTestSave([a.entity, a.powerConnection, b.entity, b.powerConnection, c.entity, c.powerConnection, lineAB, lineAC]);
+	return { save, a, b, c, lineAB, lineAC };
+};
+
+const WiresOf = (connection: SaveComponent): string[] => (connection.properties.mWires as ArrayProperty<ObjectReference>).values.map(wire => wire.pathName);
+const NamesIn = (save: ReturnType<typeof CreatePowerGrid>['save']): string[] => save.levels[0].objects.map(object => object.instanceName);
+
+describe('deleteEntity', () => {
+
+	it('removes the entity together with its components and attached power lines', () => {
+		const { save, a, b, c, lineAB, lineAC } = CreatePowerGrid();
+		const report = deleteEntity(save, a.entity.instanceName);
+
+		expect(report.removedObjects.map(removed => [removed.reason, removed.object.instanceName])).toEqual([
+			['entity', a.entity.instanceName],
+			['component', a.powerConnection.instanceName],
+			['power-line', lineAB.instanceName],
+			['power-line', lineAC.instanceName],
+		]);
+		expect(report.removedObjects.every(removed => removed.levelName === 'Persistent_Level')).toBe(true);
+		expect(NamesIn(save)).toEqual([b.entity.instanceName, b.powerConnection.instanceName, c.entity.instanceName, c.powerConnection.instanceName]);
+	});
+
+	it('removes the wires from the connections on the other end of the power lines', () => {
+		const { save, a, b, c } = CreatePowerGrid();
+		const report = deleteEntity(save, a.entity.instanceName);
+
+		expect(WiresOf(b.powerConnection)).toEqual([]);
+		expect(WiresOf(c.powerConnection)).toEqual([]);
+		expect(report.clearedReferences.map(edge => edge.source.instanceName)).toEqual([b.powerConnection.instanceName, c.powerConnection.instanceName]);
+	});
+
+	it('removes references from the components of remaining entities, instead of blanking them', () => {
+		const { save, a } = CreatePowerGrid();
+		const holder = CreateTestEntity('Build_StorageContainerMk1', 4);
+		holder.components = [{ levelName: 'Persistent_Level', pathName: a.powerConnection.instanceName }, { levelName: 'Persistent_Level', pathName: 'Persistent_Level:PersistentLevel.Other' }];
+		save.levels[0].objects.push(holder);
+
+		deleteEntity(save, a.entity.instanceName);
+
+		expect(holder.components).toEqual([{ levelName: 'Persistent_Level', pathName: 'Persistent_Level:PersistentLevel.Other' }]);
+	});
+
+	it('keeps the references of remaining objects, if asked to', () => {
+		const { save, a, b } = CreatePowerGrid();
+		const report = deleteEntity(save, a.entity.instanceName, { clearReferences: false });
+
+		expect(report.clearedReferences).toEqual([]);
+		expect(WiresOf(b.powerConnection).length).toBe(1);
+	});
+
+	it('keeps power lines, if asked to', () => {
+		const { save, a, lineAB } = CreatePowerGrid();
+		const report = deleteEntity(save, a.entity.instanceName, { removePowerLines: false });
+
+		expect(report.removedObjects.map(removed => removed.reason)).toEqual(['entity', 'component']);
+		expect(NamesIn(save)).toContain(lineAB.instanceName);
+	});
+
+	it('throws a ParserError for instance names that are not entities of the save', () => {
+		const { save, a } = CreatePowerGrid();
+
+		expect(() => deleteEntity(save, 'Persistent_Level:PersistentLevel.Missing')).toThrow(ParserError);
+		expect(() => deleteEntity(save, a.powerConnection.instanceName)).toThrow(ParserError);
+		expect(NamesIn(save).length).toBe(8);
+	});
+});
+
+describe('deleteEntities', () => {
+
+	it('removes several entities, and their shared power lines once', () => {
+		const { save, a, b, c } = CreatePowerGrid();
+		const report = deleteEntities(save, [a.entity.instanceName, b.entity.instanceName]);
+
+		expect(report.removedObjects.length).toBe(6);
+		expect(NamesIn(save)).toEqual([c.entity.instanceName, c.powerConnection.instanceName]);
+		expect(WiresOf(c.powerConnection)).toEqual([]);
+	});
+
+	it('removes nothing if one of the instance names is not an entity', () => {
+		const { save, a } = CreatePowerGrid();
+
+		expect(() => deleteEntities(save, [a.entity.instanceName, 'Persistent_Level:PersistentLevel.Missing'])).toThrow(ParserError);
+		expect(NamesIn(save).length).toBe(8);
+	});
+
+	it('keeps a given graph up to date, so it can be reused', () => {
+		const { save, a, b, c, lineAC } = CreatePowerGrid();
+		const graph = new ObjectReferenceGraph(save);
+
+		deleteEntity(graph, b.entity.instanceName);
+		expect(graph.index.has(b.powerConnection.instanceName)).toBe(false);
+		expect(graph.getReferencesTo(b.powerConnection.instanceName)).toEqual([]);
+		expect(graph.getDanglingReferences()).toEqual([]);
+		expect(WiresOf(a.powerConnection)).toEqual([lineAC.instanceName]);
+
+		const report = deleteEntity(graph, c.entity.instanceName);
+		expect(report.removedObjects.map(removed => removed.object.instanceName)).toContain(lineAC.instanceName);
+		expect(WiresOf(a.powerConnection)).toEqual([]);
+		expect(NamesIn(save)).toEqual([a.entity.instanceName, a.powerConnection.instanceName]);
+		expect(graph.getReferencesFrom(a.powerConnection.instanceName).map(edge => edge.path)).toEqual(['parentEntityName']);
+	});
+});
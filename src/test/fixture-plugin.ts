@@ -0,0 +1,16 @@
+import { StructTypeRegistry } from '../parser/satisfactory/types/property/StructTypeRegistry';
+
+export type ModPair = { id: number, label: string };
+
+export const MOD_PAIR_SUBTYPE = 'ModPair';
+
+/**
+ * registers the binary struct `ModPair` of a mod, when it is imported. Worker threads require it as setup module, so it is registered there as well.
+ */
+StructTypeRegistry.Register<ModPair>(MOD_PAIR_SUBTYPE, {
+	read: reader => ({ id: reader.readInt32(), label: reader.readString() }),
+	write: (writer, value) => {
+		writer.writeInt32(value.id);
+		writer.writeString(value.label);
+	}
+});
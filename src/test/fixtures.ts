@@ -1,5 +1,16 @@
+import { ReadableStream } from 'stream/web';
+import { ChunkWriteOptions, CompressionAlgorithmCode } from '../parser/file.types';
+import { Parser } from '../parser/parser';
+import { Level } from '../parser/satisfactory/save/level.class';
+import { SatisfactorySave } from '../parser/satisfactory/save/satisfactory-save';
 import { SaveReader } from '../parser/satisfactory/save/save-reader';
 import { SaveWriter } from '../parser/satisfactory/save/save-writer';
+import { SatisfactorySaveHeader } from '../parser/satisfactory/save/save.types';
+import { SaveComponent } from '../parser/satisfactory/types/objects/SaveComponent';
+import { SaveEntity } from '../parser/satisfactory/types/objects/SaveEntity';
+import { ArrayProperty } from '../parser/satisfactory/types/property/generic/ArrayProperty';
+import { AbstractBaseProperty } from '../parser/satisfactory/types/property/generic/BasicProperty';
+import { ObjectReference } from '../parser/satisfactory/types/structs/ObjectReference';
 
 export class FixtureSaveWriter extends SaveWriter {
 	constructor() { super(); }
@@ -11,4 +22,147 @@ export class FixtureSaveReader extends SaveReader {
 export const MAX_VALUE_INT32 = 2147483647;
 export const MIN_VALUE_INT32 = -2147483648;
 export const MAX_VALUE_UINT32 = 4294967294;
-export const FLOAT_PRECISION_DIGIT_COUNT = 6; // float has 6.92 digits of precision
\ No newline at end of file
+export const FLOAT_PRECISION_DIGIT_COUNT = 6; // float has 6.92 digits of precision
+
+/**
+ * a 1.0 header, like the game writes it.
+ */
+export const CreateTestSaveHeader = (overrides: Partial<SatisfactorySaveHeader> = {}): SatisfactorySaveHeader => ({
+	saveHeaderType: 14,
+	saveVersion: 46,
+	buildVersion: 365306,
+	mapName: 'Persistent_Level',
+	mapOptions: '?startloc=Grass Fields',
+	sessionName: 'Test Session',
+	playDurationSeconds: 3600,
+	saveDateTime: '1700000000000',
+	sessionVisibility: 0,
+	fEditorObjectVersion: 41,
+	rawModMetadataString: '',
+	isModdedSave: 0,
+	saveIdentifier: 'TestSaveIdentifier',
+	partitionEnabledFlag: true,
+	consistencyHashBytes: { isValid: false },
+	creativeModeEnabled: false,
+	...overrides
+});
+
+/**
+ * an in-memory save with the five grids of a 1.0 save. The persistent level is the last level, like in the save file.
+ * @param levels the levels before the persistent level.
+ */
+export const CreateTestSave = (persistentObjects: (SaveEntity | SaveComponent)[] = [], levels: Level[] = [], header: SatisfactorySaveHeader = CreateTestSaveHeader()): SatisfactorySave => {
+	const save = new SatisfactorySave('TestSave', header);
+	save.compressionInfo = {
+		compressionAlgorithm: CompressionAlgorithmCode.ZLIB,
+		chunkHeaderSize: 49,
+		packageFileTag: 0x9E2A83C1,
+		maxUncompressedChunkContentSize: 131072
+	};
+	for (const gridName of ['MainGrid', 'LandscapeGrid', 'ExplorationGrid', 'FoliageGrid', 'HLOD0_256m_1023m']) {
+		save.grids[gridName] = { cellSize: 0, gridHash: 0, children: {} };
+	}
+	save.levels = [...levels, { name: header.mapName, objects: persistentObjects, collectables: [] }];
+	return save;
+};
+
+/**
+ * an entity with a transform, like a buildable.
+ */
+export const CreateTestEntity = (className: string, id: number, levelName: string = 'Persistent_Level'): SaveEntity => {
+	const entity = new SaveEntity(`/Game/FactoryGame/Test/${className}.${className}_C`, levelName, `${levelName}:PersistentLevel.${className}_C_${id}`, '', true);
+	entity.objectVersion = 46;
+	entity.unknownType2 = 1;
+	entity.transform = { rotation: { x: 0, y: 0, z: 0, w: 1 }, translation: { x: 100, y: 200, z: 300 }, scale3d: { x: 1, y: 1, z: 1 } };
+	return entity;
+};
+
+/**
+ * an entity whose data is written as it is, but fails to parse. Its IntProperty `mCount` indicates 8 bytes instead of 4.
+ */
+export const CreateCorruptTestEntity = (className: string, id: number): SaveEntity => {
+	const entity = CreateTestEntity(className, id);
+	const writer = new FixtureSaveWriter();
+	writer.writeString('');
+	writer.writeString('');
+	writer.writeInt32(0);
+	writer.writeString('mCount');
+	writer.writeString('IntProperty');
+	writer.writeInt32(8);
+	writer.writeInt32(0);
+	writer.writeByte(0);
+	writer.writeInt32(5);
+	writer.writeString('None');
+	writer.writeInt32(0);
+	entity.unparsedData = Array.from(new Uint8Array(writer.endWriting()));
+	return entity;
+};
+
+/**
+ * an entity with a power connection, whose wires are listed in `mWires`.
+ */
+export const CreateTestMachine = (className: string, id: number): { entity: SaveEntity, powerConnection: SaveComponent } => {
+	const entity = CreateTestEntity(className, id);
+	const powerConnection = new SaveComponent('/Script/FactoryGame.FGPowerConnectionComponent', 'Persistent_Level', `${entity.instanceName}.PowerInput`, entity.instanceName);
+	entity.components.push({ levelName: 'Persistent_Level', pathName: powerConnection.instanceName });
+	powerConnection.properties.mWires = Named('mWires', new ArrayProperty<ObjectReference>('ObjectProperty', []));
+	return { entity, powerConnection };
+};
+
+/**
+ * a power line between the power connections of two machines of {@link CreateTestMachine}.
+ */
+export const ConnectTestMachines = (id: number, source: SaveComponent, target: SaveComponent): SaveEntity => {
+	const powerLine = CreateTestEntity('Build_PowerLine', id);
+	powerLine.specialProperties = {
+		type: 'PowerLineSpecialProperties',
+		source: { levelName: 'Persistent_Level', pathName: source.instanceName },
+		target: { levelName: 'Persistent_Level', pathName: target.instanceName },
+		sourceTranslation: { x: 0, y: 0, z: 0 },
+		targetTranslation: { x: 1000, y: 0, z: 0 }
+	};
+	for (const connection of [source, target]) {
+		(connection.properties.mWires as ArrayProperty<ObjectReference>).values.push({ levelName: 'Persistent_Level', pathName: powerLine.instanceName });
+	}
+	return powerLine;
+};
+
+export const Named = <T extends AbstractBaseProperty>(name: string, property: T): T => {
+	property.name = name;
+	return property;
+};
+
+/**
+ * writes the save into a single buffer, like a save file.
+ */
+export const WriteTestSave = (save: SatisfactorySave, options: Partial<ChunkWriteOptions> = {}): Uint8Array => {
+	const parts: Uint8Array[] = [];
+	Parser.WriteSave(save, header => parts.push(header), chunk => parts.push(chunk), options);
+	return Concat(parts);
+};
+
+export const Concat = (parts: Uint8Array[]): Uint8Array => {
+	const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		bytes.set(part, offset);
+		offset += part.length;
+	}
+	return bytes;
+};
+
+/**
+ * reads a stream of strings to its end, while the streaming runs.
+ */
+export const ReadTestStream = async ({ stream, startStreaming }: { stream: ReadableStream<string>, startStreaming: () => Promise<void> }): Promise<string> => {
+	const reader = stream.getReader();
+	const read = async (): Promise<string> => {
+		let text = '';
+		for (let result = await reader.read(); !result.done; result = await reader.read()) {
+			text += result.value;
+		}
+		return text;
+	};
+	const [text] = await Promise.all([read(), startStreaming()]);
+	return text;
+};
@@ -0,0 +1,100 @@
+import { ObjectReferenceGraph } from '../parser/satisfactory/save/object-reference-graph';
+import { ArrayProperty } from '../parser/satisfactory/types/property/generic/ArrayProperty';
+import { ObjectProperty } from '../parser/satisfactory/types/property/generic/ObjectProperty';
+import { StructProperty } from '../parser/satisfactory/types/property/generic/StructProperty';
+import { ObjectReference } from '../parser/satisfactory/types/structs/ObjectReference';
+import { ConnectTestMachines, CreateTestEntity, CreateTestMachine, CreateTestSave, Named } from './fixtures';
+
+const IRON_PLATE = '/Game/FactoryGame/Resource/Parts/IronPlate/Desc_IronPlate.Desc_IronPlate_C';
+
+const Reference = (pathName: string, levelName: string = 'Persistent_Level'): ObjectReference => ({ levelName, pathName });
+
+/**
+ * two machines with a power line in between.
+ */
+const CreateConnectedMachines = () => {
+	const a = CreateTestMachine('Build_ConstructorMk1', 1);
+	const b = CreateTestMachine('Build_ConstructorMk1', 2);
+	const line = ConnectTestMachines(10, a.powerConnection, b.powerConnection);
+	return { a, b, line, save: CreateTestSave([a.entity, a.powerConnection, b.entity, b.powerConnection, line]) };
+};
+
+describe('ObjectReferenceGraph', () => {
+
+	it('finds references in special properties, properties and components', () => {
+		const { a, b, line, save } = CreateConnectedMachines();
+		const graph = new ObjectReferenceGraph(save);
+
+		expect(graph.getReferencesTo(line.instanceName).map(edge => edge.source)).toEqual([a.powerConnection, b.powerConnection]);
+		expect(graph.getReferencesTo(a.powerConnection.instanceName).map(edge => edge.source)).toEqual([a.entity, line]);
+		expect(graph.getComponentsOf(a.entity)).toEqual([a.powerConnection]);
+		expect(graph.getDanglingReferences()).toEqual([]);
+	});
+
+	it('names where references were found, also nested in arrays and structs, and resolves them', () => {
+		const storage = CreateTestEntity('Build_StorageContainerMk1', 1);
+		const target = CreateTestEntity('Build_ConstructorMk1', 2);
+		const struct = Named('mTarget', new StructProperty('ModTarget'));
+		struct.value = { type: 'ModTarget', properties: { Object: Named('Object', new ObjectProperty(Reference(target.instanceName))) } };
+		storage.properties.mTarget = struct;
+		storage.properties.mLinked = Named('mLinked', new ArrayProperty<ObjectReference>('ObjectProperty', [Reference(''), Reference(target.instanceName)]));
+		const graph = new ObjectReferenceGraph(CreateTestSave([storage, target]));
+
+		expect(graph.getReferencesFrom(storage.instanceName).map(edge => [edge.path, edge.target])).toEqual([
+			['properties.mTarget.value.properties.Object.value', target],
+			['properties.mLinked.values[1]', target]
+		]);
+		expect(graph.getReferrers(target.instanceName)).toEqual([storage]);
+		expect(graph.resolve(Reference(target.instanceName))).toBe(target);
+	});
+
+	it('reports references to objects that are missing from the save as dangling, but not references to assets', () => {
+		const storage = CreateTestEntity('Build_StorageContainerMk1', 1);
+		storage.properties.mMissing = Named('mMissing', new ObjectProperty(Reference('Persistent_Level:PersistentLevel.Build_Missing_C_1')));
+		storage.properties.mItem = Named('mItem', new ObjectProperty(Reference(IRON_PLATE, '')));
+		const graph = new ObjectReferenceGraph(CreateTestSave([storage]));
+
+		expect(graph.getDanglingReferences().map(edge => [edge.source, edge.path])).toEqual([[storage, 'properties.mMissing.value']]);
+		expect(graph.getReferencesTo(IRON_PLATE).map(edge => edge.target)).toEqual([undefined]);
+	});
+
+	it('marks references to removed objects as dangling, and drops the references they held', () => {
+		const { a, b, line, save } = CreateConnectedMachines();
+		const graph = new ObjectReferenceGraph(save);
+
+		expect(graph.removeAll([line.instanceName])).toEqual([line]);
+		expect(graph.getReferencesFrom(line.instanceName)).toEqual([]);
+		expect(graph.getReferencesTo(a.powerConnection.instanceName).map(edge => edge.source)).toEqual([a.entity]);
+		expect(graph.getDanglingReferences().map(edge => [edge.source, edge.target])).toEqual([[a.powerConnection, undefined], [b.powerConnection, undefined]]);
+
+		graph.removeEdges(graph.getDanglingReferences());
+		expect(graph.getDanglingReferences()).toEqual([]);
+		expect(graph.getReferencesTo(line.instanceName)).toEqual([]);
+	});
+
+	it('points references to a removed object at the next object with the same instance name', () => {
+		const { a, b, line, save } = CreateConnectedMachines();
+		const duplicate = CreateTestEntity('Build_PowerLine', 10);
+		save.levels[0].objects.push(duplicate);
+		const graph = new ObjectReferenceGraph(save);
+
+		graph.remove(line.instanceName);
+
+		expect(graph.getReferencesTo(line.instanceName).map(edge => [edge.source, edge.target])).toEqual([[a.powerConnection, duplicate], [b.powerConnection, duplicate]]);
+		expect(graph.getDanglingReferences()).toEqual([]);
+	});
+
+	it('removes references from components and arrays, and clears the others', () => {
+		const { a, line } = CreateConnectedMachines();
+		const wires = a.powerConnection.properties.mWires as ArrayProperty<ObjectReference>;
+		const [componentReference] = a.entity.components;
+		a.entity.properties.mPowerLine = Named('mPowerLine', new ObjectProperty(Reference(line.instanceName)));
+
+		ObjectReferenceGraph.RemoveReferences(a.powerConnection, new Set(wires.values));
+		ObjectReferenceGraph.RemoveReferences(a.entity, new Set([componentReference, (a.entity.properties.mPowerLine as ObjectProperty).value]));
+
+		expect(wires.values).toEqual([]);
+		expect(a.entity.components).toEqual([]);
+		expect((a.entity.properties.mPowerLine as ObjectProperty).value).toEqual({ levelName: '', pathName: '' });
+	});
+});
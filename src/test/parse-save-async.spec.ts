@@ -0,0 +1,49 @@
+import { TimeoutError } from '../parser/error/parser.error';
+import { Parser } from '../parser/parser';
+import { SaveReader } from '../parser/satisfactory/save/save-reader';
+import { CreateTestEntity, CreateTestSave, WriteTestSave } from './fixtures';
+
+/**
+ * a save file whose body is spread over many chunks of 1 KiB.
+ */
+const WriteBigSave = (): Uint8Array => WriteTestSave(CreateTestSave(Array.from({ length: 100 }, (_, i) => CreateTestEntity('Build_ConstructorMk1', i))), { maxUncompressedChunkContentSize: 1024 });
+
+describe('Parser.ParseSaveAsync', () => {
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('parses the same save as ParseSave', async () => {
+		const file = WriteBigSave();
+
+		const save = await Parser.ParseSaveAsync('TestSave', file);
+
+		expect(save).toEqual(Parser.ParseSave('TestSave', file));
+	});
+
+	it('is aborted between chunks, before the levels are read', async () => {
+		const inflate = jest.spyOn(SaveReader.prototype, 'inflateChunksInSteps');
+		const readLevels = jest.spyOn(SaveReader.prototype, 'readLevelsInBatches');
+		const controller = new AbortController();
+
+		const parsing = Parser.ParseSaveAsync('TestSave', WriteBigSave(), { signal: controller.signal });
+		setTimeout(() => controller.abort(new Error('aborted by test')), 0);
+
+		await expect(parsing).rejects.toThrow('aborted by test');
+		expect(inflate).toHaveBeenCalled();
+		expect(readLevels).not.toHaveBeenCalled();
+	});
+
+	it('times out between chunks, before the levels are read', async () => {
+		const readLevels = jest.spyOn(SaveReader.prototype, 'readLevelsInBatches');
+
+		// the deadline passes right after the first chunk.
+		let calls = 0;
+		jest.spyOn(Date, 'now').mockImplementation(() => calls++ < 2 ? 0 : 1000);
+
+		await expect(Parser.ParseSaveAsync('TestSave', WriteBigSave(), { timeout: 500 })).rejects.toBeInstanceOf(TimeoutError);
+		expect(calls).toBe(3);
+		expect(readLevels).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ParserError } from '../parser/error/parser.error';
+import { Parser } from '../parser/parser';
+import { Int32Property } from '../parser/satisfactory/types/property/generic/Int32Property';
+import { StructProperty } from '../parser/satisfactory/types/property/generic/StructProperty';
+import { NodeParserWorker } from '../parser/worker/node-parser-worker';
+import { ParallelLevelReader } from '../parser/worker/parallel-level-reader';
+import { CreateTestEntity, CreateTestSave, Named, WriteTestSave } from './fixtures';
+import { MOD_PAIR_SUBTYPE, ModPair } from './fixture-plugin';
+
+/**
+ * a save with a persistent level that is parsed in several tasks, and a small level.
+ */
+const CreateBigSave = () => {
+	const objects = Array.from({ length: 2 * ParallelLevelReader.OBJECTS_PER_TASK + 500 }, (_, i) => {
+		const entity = CreateTestEntity('Build_ConstructorMk1', i);
+		entity.properties.mCount = Named('mCount', new Int32Property(i));
+		return entity;
+	});
+	return CreateTestSave(objects, [{ name: 'Level_1', objects: [CreateTestEntity('Build_GeneratorCoal', 1, 'Level_1')], collectables: [] }]);
+};
+
+describe('Parser.ParseSaveParallel', () => {
+
+	let directory: string;
+	let entryFile: string;
+
+	beforeAll(() => {
+		// the worker threads run the typescript sources, like the tests do.
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'parse-save-parallel-'));
+		entryFile = path.join(directory, 'ts-worker.js');
+		fs.writeFileSync(entryFile, [
+			`require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs', moduleResolution: 'node' } });`,
+			`require(${JSON.stringify(path.join(__dirname, '../parser/worker/node-parser-worker-thread.ts'))});`
+		].join('\n'));
+	});
+
+	afterAll(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('parses the save in node worker threads like in the main thread', async () => {
+		const bytes = WriteTestSave(CreateBigSave());
+
+		const parallel = await Parser.ParseSaveParallel('TestSave', bytes, { workerCount: 2, createWorker: () => NodeParserWorker.Create(entryFile) });
+		const sequential = Parser.ParseSave('TestSave', bytes);
+
+		expect(parallel.levels.map(level => level.objects.length)).toEqual([1, 2 * ParallelLevelReader.OBJECTS_PER_TASK + 500]);
+		expect(parallel).toEqual(sequential);
+	});
+
+	it('parses small levels in a worker as well, so all objects are plain objects', async () => {
+		const bytes = WriteTestSave(CreateBigSave());
+
+		const save = await Parser.ParseSaveParallel('TestSave', bytes, { workerCount: 1, createWorker: () => NodeParserWorker.Create(entryFile) });
+
+		const objects = save.levels.map(level => level.objects[0]);
+		expect(objects.map(obj => obj.instanceName)).toEqual(['Level_1:PersistentLevel.Build_GeneratorCoal_C_1', 'Persistent_Level:PersistentLevel.Build_ConstructorMk1_C_0']);
+		expect(objects.map(obj => Object.getPrototypeOf(obj))).toEqual([Object.prototype, Object.prototype]);
+	});
+
+	it('parses structs of plugins in worker threads that required the plugin as setup module', async () => {
+		const entity = CreateTestEntity('Build_ModMachine', 1);
+		const value: ModPair = { id: 7, label: 'Base' };
+		const pair = Named('mPair', new StructProperty(MOD_PAIR_SUBTYPE));
+		pair.value = value as unknown as StructProperty['value'];
+		entity.properties.mPair = pair;
+		const bytes = WriteTestSave(CreateTestSave([entity]));
+		const setupModule = path.join(__dirname, 'fixture-plugin.ts');
+
+		await expect(Parser.ParseSaveParallel('TestSave', bytes, { workerCount: 1, createWorker: () => NodeParserWorker.Create(entryFile) })).rejects.toThrow(ParserError);
+		const save = await Parser.ParseSaveParallel('TestSave', bytes, { workerCount: 1, createWorker: () => NodeParserWorker.Create(entryFile, [setupModule]) });
+
+		expect((save.levels[0].objects[0].properties.mPair as StructProperty).value).toEqual(value);
+		expect(save).toEqual(Parser.ParseSave('TestSave', bytes));
+	});
+});
@@ -0,0 +1,79 @@
+import { ParserDiagnostic } from '../parser/diagnostics/parser.diagnostic';
+import { CompressionAlgorithmCode } from '../parser/file.types';
+import { Parser } from '../parser/parser';
+import { Blueprint } from '../parser/satisfactory/blueprint/blueprint.types';
+import { SaveEntity } from '../parser/satisfactory/types/objects/SaveEntity';
+import { Int32Property } from '../parser/satisfactory/types/property/generic/Int32Property';
+import { RawProperty } from '../parser/satisfactory/types/property/generic/RawProperty';
+import { Concat, CreateTestEntity, CreateTestSave, Named, WriteTestSave } from './fixtures';
+
+/**
+ * an entity with a property of a type the parser does not know.
+ */
+const CreateModdedEntity = (id: number): SaveEntity => {
+	const entity = CreateTestEntity('Build_ModMachine', id);
+	entity.properties.mModded = Named('mModded', new RawProperty([0], [1, 2, 3, 4], 'ModFancyProperty'));
+	entity.properties.mCount = Named('mCount', new Int32Property(1));
+	return entity;
+};
+
+describe('parser diagnostics', () => {
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('passes diagnostics with their location to the sink and attaches a summary to the save', () => {
+		const entity = CreateModdedEntity(1);
+		const diagnostics: ParserDiagnostic[] = [];
+
+		const save = Parser.ParseSave('TestSave', WriteTestSave(CreateTestSave([entity, CreateModdedEntity(2)])), { onDiagnostic: diagnostic => diagnostics.push(diagnostic) });
+
+		expect(diagnostics.length).toBe(2);
+		expect(diagnostics[0]).toEqual({
+			code: 'RAW_PROPERTY',
+			message: 'ModFancyProperty mModded is not supported and kept as raw bytes.',
+			offset: expect.any(Number),
+			levelName: 'Persistent_Level',
+			instanceName: entity.instanceName,
+			propertyName: 'mModded'
+		});
+		expect(diagnostics[1].offset).toBeGreaterThan(diagnostics[0].offset);
+		expect(save.diagnostics).toEqual({ total: 2, countByCode: { RAW_PROPERTY: 2 } });
+	});
+
+	it('prints diagnostics as warnings to the console by default', () => {
+		const warn = jest.spyOn(console, 'warn').mockImplementation(() => { });
+
+		Parser.ParseSave('TestSave', WriteTestSave(CreateTestSave([CreateModdedEntity(1)])));
+
+		expect(warn).toHaveBeenCalledWith('[RAW_PROPERTY] ModFancyProperty mModded is not supported and kept as raw bytes.');
+	});
+
+	it('attaches no summary to saves without diagnostics', () => {
+		const warn = jest.spyOn(console, 'warn');
+
+		const save = Parser.ParseSave('TestSave', WriteTestSave(CreateTestSave([CreateTestEntity('Build_ConstructorMk1', 1)])));
+
+		expect(save.diagnostics).toBeUndefined();
+		expect(warn).not.toHaveBeenCalled();
+	});
+
+	it('passes diagnostics of blueprints to the sink', () => {
+		const entity = CreateModdedEntity(1);
+		const blueprint: Blueprint = {
+			name: 'TestBlueprint',
+			compressionInfo: { compressionAlgorithm: CompressionAlgorithmCode.ZLIB, chunkHeaderSize: 49, packageFileTag: 0x9E2A83C1, maxUncompressedChunkContentSize: 131072 },
+			header: { designerDimension: { x: 4, y: 4, z: 4 }, itemCosts: [], recipeReferences: [] },
+			config: { description: '', color: { r: 0, g: 0, b: 0, a: 1 }, iconID: 0 },
+			objects: [entity]
+		};
+		const parts: Uint8Array[] = [];
+		const { configFileBinary } = Parser.WriteBlueprintFiles(blueprint, header => parts.push(header), chunk => parts.push(chunk));
+		const diagnostics: ParserDiagnostic[] = [];
+
+		Parser.ParseBlueprintFiles('TestBlueprint', Buffer.from(Concat(parts)), Buffer.from(configFileBinary), { onDiagnostic: diagnostic => diagnostics.push(diagnostic) });
+
+		expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.instanceName, diagnostic.propertyName])).toEqual([['RAW_PROPERTY', entity.instanceName, 'mModded']]);
+	});
+});
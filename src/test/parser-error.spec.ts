@@ -0,0 +1,75 @@
+import { ParseContext } from '../parser/error/parse-context';
+import { CorruptSaveError, ParserError } from '../parser/error/parser.error';
+import { Parser } from '../parser/parser';
+import { StructTypeRegistry } from '../parser/satisfactory/types/property/StructTypeRegistry';
+import { ArrayProperty } from '../parser/satisfactory/types/property/generic/ArrayProperty';
+import { StructProperty } from '../parser/satisfactory/types/property/generic/StructProperty';
+import { CreateCorruptTestEntity, CreateTestEntity, CreateTestSave, Named, WriteTestSave } from './fixtures';
+
+const ParseAndCatch = (bytes: Uint8Array): ParserError => {
+	try {
+		Parser.ParseSave('TestSave', bytes, { onDiagnostic: () => { } });
+	} catch (error) {
+		return error as ParserError;
+	}
+	throw new Error('expected the save to fail parsing.');
+};
+
+describe('ParserError', () => {
+
+	afterEach(() => {
+		StructTypeRegistry.Unregister('ModBroken');
+	});
+
+	it('names the level, object and property and the offset where an error was thrown', () => {
+		const corrupt = CreateCorruptTestEntity('Build_ConstructorMk1', 1);
+
+		const error = ParseAndCatch(WriteTestSave(CreateTestSave([CreateTestEntity('Build_ConstructorMk1', 2), corrupt])));
+
+		expect(error).toBeInstanceOf(ParserError);
+		expect(error.context).toEqual([
+			{ kind: 'level', name: 'Persistent_Level' },
+			{ kind: 'object', name: corrupt.instanceName },
+			{ kind: 'property', name: 'mCount' }
+		]);
+		expect(error.offset).toBeGreaterThan(0);
+		expect(error.message).toContain(`[at offset ${error.offset}, level Persistent_Level > object ${corrupt.instanceName} > property mCount]`);
+	});
+
+	it('names the array index and struct type of errors in nested values, and wraps other errors', () => {
+		StructTypeRegistry.Register<number>('ModBroken', {
+			read: () => { throw new RangeError('unreadable value'); },
+			write: (writer, value) => writer.writeInt32(value),
+			size: () => 4
+		});
+		const entity = CreateTestEntity('Build_ConstructorMk1', 1);
+		const struct = new StructProperty('ModBroken');
+		struct.value = 7 as unknown as StructProperty['value'];
+		entity.properties.mValues = Named('mValues', new ArrayProperty<StructProperty>('StructProperty', [struct], 'ArrayProperty', 0, { allStructType: 'ModBroken', allIndex: 0, allGuid: 0 }));
+
+		const error = ParseAndCatch(WriteTestSave(CreateTestSave([entity])));
+
+		expect(error.context?.slice(1)).toEqual([
+			{ kind: 'object', name: entity.instanceName },
+			{ kind: 'property', name: 'mValues' },
+			{ kind: 'index', name: '0' },
+			{ kind: 'struct', name: 'ModBroken' }
+		]);
+		expect(error.message).toMatch(/^unreadable value \[at offset \d+, /);
+		expect(error.cause).toMatchObject({ name: 'RangeError' });
+	});
+
+	it('keeps the context of errors that have one already', () => {
+		const context = new ParseContext();
+		context.push('level', 'Persistent_Level');
+		const error = ParserError.WithContext(new CorruptSaveError('broken'), context, 10);
+
+		context.push('object', 'other');
+		const again = ParserError.WithContext(error, context, 20);
+
+		expect(again).toBe(error);
+		expect(again).toBeInstanceOf(CorruptSaveError);
+		expect(again.context).toEqual([{ kind: 'level', name: 'Persistent_Level' }]);
+		expect(again.message).toBe('broken [at offset 10, level Persistent_Level]');
+	});
+});
@@ -0,0 +1,73 @@
+import { UnimplementedError } from '../parser/error/parser.error';
+import { PropertiesList } from '../parser/satisfactory/types/property/PropertiesList';
+import { PropertyTypeRegistry } from '../parser/satisfactory/types/property/PropertyTypeRegistry';
+import { BasicProperty } from '../parser/satisfactory/types/property/generic/BasicProperty';
+import { Int32Property } from '../parser/satisfactory/types/property/generic/Int32Property';
+import { StrProperty } from '../parser/satisfactory/types/property/generic/StrProperty';
+import { FixtureSaveReader, FixtureSaveWriter, Named } from './fixtures';
+
+const BUILD_VERSION = 365306;
+
+/**
+ * a property of a mod, with a guid flag and a pair of numbers as value.
+ */
+class PairProperty extends BasicProperty {
+	constructor(public value: [number, number], ueType: string = 'PairProperty', index: number = 0) {
+		super({ type: 'PairProperty', ueType, index });
+	}
+}
+
+const RegisterPairProperty = () => PropertyTypeRegistry.Register<PairProperty>('PairProperty', {
+	parse: (reader, context) => {
+		reader.readByte();
+		return new PairProperty([reader.readInt32(), reader.readInt32()], context.ueType, context.index);
+	},
+	serialize: (writer, property) => {
+		writer.writeByte(0);
+		writer.writeInt32(property.value[0]);
+		writer.writeInt32(property.value[1]);
+	},
+	calcOverhead: () => 1
+});
+
+const WriteAndParse = (properties: BasicProperty[]) => {
+	const writer = new FixtureSaveWriter();
+	PropertiesList.SerializeList(Object.fromEntries(properties.map(property => [property.name, property])), writer, BUILD_VERSION);
+	return PropertiesList.ParseList(new FixtureSaveReader(writer.endWriting()), BUILD_VERSION);
+};
+
+describe('PropertyTypeRegistry', () => {
+
+	afterEach(() => {
+		PropertyTypeRegistry.Unregister('PairProperty');
+	});
+
+	it('lists the built-in property types', () => {
+		expect(PropertyTypeRegistry.GetRegisteredTypes()).toEqual(expect.arrayContaining([
+			'BoolProperty', 'IntProperty', 'StrProperty', 'ArrayProperty', 'StructProperty', 'MapProperty', 'SetProperty'
+		]));
+	});
+
+	it('parses and serializes registered types next to built-in ones', () => {
+		RegisterPairProperty();
+
+		const parsed = WriteAndParse([
+			Named('mCount', new Int32Property(5)),
+			Named('mPair', new PairProperty([3, -7])),
+			Named('mName', new StrProperty('after'))
+		]);
+
+		expect(parsed.mPair).toBeInstanceOf(PairProperty);
+		expect((parsed.mPair as PairProperty).value).toEqual([3, -7]);
+		expect((parsed.mCount as Int32Property).value).toBe(5);
+		expect((parsed.mName as StrProperty).value).toBe('after');
+	});
+
+	it('cannot serialize properties of types that are not registered', () => {
+		RegisterPairProperty();
+		expect(PropertyTypeRegistry.Unregister('PairProperty')).toBe(true);
+
+		const writer = new FixtureSaveWriter();
+		expect(() => PropertiesList.SerializeSingleProperty(writer, Named('mPair', new PairProperty([1, 2])), 'mPair', BUILD_VERSION)).toThrow(UnimplementedError);
+	});
+});
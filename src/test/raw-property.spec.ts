@@ -0,0 +1,83 @@
+import { ParserDiagnostic } from '../parser/diagnostics/parser.diagnostic';
+import { PropertiesList } from '../parser/satisfactory/types/property/PropertiesList';
+import { AbstractBaseProperty } from '../parser/satisfactory/types/property/generic/BasicProperty';
+import { Int32Property } from '../parser/satisfactory/types/property/generic/Int32Property';
+import { RawProperty } from '../parser/satisfactory/types/property/generic/RawProperty';
+import { FixtureSaveReader, FixtureSaveWriter, Named } from './fixtures';
+
+const BUILD_VERSION = 365306;
+
+const Serialize = (properties: AbstractBaseProperty[]): ArrayBuffer => {
+	const writer = new FixtureSaveWriter();
+	PropertiesList.SerializeList(Object.fromEntries(properties.map(property => [property.name, property])), writer, BUILD_VERSION);
+	return writer.endWriting();
+};
+
+const Parse = (buffer: ArrayBuffer, diagnostics: ParserDiagnostic[] = []) => {
+	const reader = new FixtureSaveReader(buffer);
+	reader.diagnostics.onDiagnostic = diagnostic => diagnostics.push(diagnostic);
+	return PropertiesList.ParseList(reader, BUILD_VERSION);
+};
+
+/**
+ * the tag of a container property, which is its subtype and an empty guid flag.
+ */
+const ContainerTag = (subtype: string): number[] => {
+	const writer = new FixtureSaveWriter();
+	writer.writeString(subtype);
+	writer.writeByte(0);
+	return Array.from(new Uint8Array(writer.endWriting()));
+};
+
+describe('RawProperty', () => {
+
+	it('keeps properties of unknown type as raw bytes and reports them', () => {
+		const diagnostics: ParserDiagnostic[] = [];
+		const buffer = Serialize([
+			Named('mModded', new RawProperty([0], [1, 2, 3, 4, 5], 'ModFancyProperty')),
+			Named('mAfter', new Int32Property(42))
+		]);
+
+		const parsed = Parse(buffer, diagnostics);
+
+		expect(parsed.mModded).toBeInstanceOf(RawProperty);
+		expect(parsed.mModded).toMatchObject({ type: 'RawProperty', ueType: 'ModFancyProperty', tag: [0], value: [1, 2, 3, 4, 5] });
+		expect((parsed.mAfter as Int32Property).value).toBe(42);
+		expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.propertyName])).toEqual([['RAW_PROPERTY', 'mModded']]);
+	});
+
+	it('keeps the guid of unknown properties in the tag', () => {
+		const guid = new Array(16).fill(0).map((_, i) => i + 1);
+
+		const parsed = Parse(Serialize([Named('mModded', new RawProperty([1, ...guid], [9, 9], 'ModFancyProperty'))]));
+
+		expect((parsed.mModded as RawProperty).tag).toEqual([1, ...guid]);
+		expect((parsed.mModded as RawProperty).value).toEqual([9, 9]);
+	});
+
+	it('keeps containers of unknown subtype as raw bytes', () => {
+		const tag = ContainerTag('ModFancyProperty');
+
+		const parsed = Parse(Serialize([
+			Named('mArray', new RawProperty(tag, [1, 0, 0, 0, 7, 7], 'ArrayProperty')),
+			Named('mSet', new RawProperty(tag, [0, 0, 0, 0, 1, 0, 0, 0, 7, 7], 'SetProperty')),
+			Named('mAfter', new Int32Property(42))
+		]));
+
+		expect(parsed.mArray).toMatchObject({ type: 'RawProperty', ueType: 'ArrayProperty', tag, value: [1, 0, 0, 0, 7, 7] });
+		expect(parsed.mSet).toMatchObject({ type: 'RawProperty', ueType: 'SetProperty', tag });
+		expect((parsed.mAfter as Int32Property).value).toBe(42);
+	});
+
+	it('writes raw properties back unchanged', () => {
+		const buffer = Serialize([
+			Named('mModded', new RawProperty([0], [1, 2, 3, 4, 5], 'ModFancyProperty')),
+			Named('mArray', new RawProperty(ContainerTag('ModFancyProperty'), [1, 0, 0, 0, 7, 7], 'ArrayProperty')),
+			Named('mAfter', new Int32Property(42))
+		]);
+
+		const rewritten = Serialize(Object.values(Parse(buffer)).flat());
+
+		expect(new Uint8Array(rewritten)).toEqual(new Uint8Array(buffer));
+	});
+});
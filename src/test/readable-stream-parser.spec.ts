@@ -0,0 +1,78 @@
+import { ReadableStream } from 'stream/web';
+import { SatisfactorySave } from '../parser/satisfactory/save/satisfactory-save';
+import { Int32Property } from '../parser/satisfactory/types/property/generic/Int32Property';
+import { ReadableStreamParser, StreamObjectFilter } from '../parser/stream/reworked/readable-stream-parser';
+import { CreateCorruptTestEntity, CreateTestEntity, CreateTestSave, Named, ReadTestStream, WriteTestSave } from './fixtures';
+
+const CreateSave = () => {
+	const generator = CreateTestEntity('Build_GeneratorCoal', 1);
+	generator.properties.mCount = Named('mCount', new Int32Property(7));
+	const inSubLevel = CreateTestEntity('Build_GeneratorCoal', 2, 'Level_1');
+	return CreateTestSave([CreateTestEntity('Build_ConstructorMk1', 3), generator, CreateCorruptTestEntity('Build_ConstructorMk1', 4)], [
+		{ name: 'Level_1', objects: [inSubLevel], collectables: [{ levelName: 'Level_1', pathName: 'Level_1:PersistentLevel.BP_Crystal_C_1' }] }
+	]);
+};
+
+const IsPersistentGenerator: StreamObjectFilter = ({ typePath, levelName }) => typePath.endsWith('Build_GeneratorCoal_C') && levelName === 'Persistent_Level';
+
+/**
+ * delivers the bytes in pieces of the given size.
+ */
+const ToByteStream = (bytes: Uint8Array, pieceSize: number): ReadableStream<Uint8Array> => {
+	let position = 0;
+	return new ReadableStream<Uint8Array>({
+		pull: controller => {
+			if (position >= bytes.length) {
+				controller.close();
+			} else {
+				controller.enqueue(bytes.slice(position, position + pieceSize));
+				position += pieceSize;
+			}
+		}
+	});
+};
+
+describe('ReadableStreamParser', () => {
+
+	it('streams the save as one JSON document', async () => {
+		const save = CreateTestSave([CreateTestEntity('Build_ConstructorMk1', 1)]);
+		const bytes = WriteTestSave(save);
+
+		const json: SatisfactorySave = JSON.parse(await ReadTestStream(ReadableStreamParser.CreateReadableStreamFromSaveToJson('TestSave', bytes)));
+
+		expect(json.header).toEqual(save.header);
+		expect(json.levels.map(level => [level.name, level.objects.map(obj => obj.instanceName)])).toEqual([['Persistent_Level', ['Persistent_Level:PersistentLevel.Build_ConstructorMk1_C_1']]]);
+	});
+
+	it('emits only the objects that pass the filter, and skips the contents of the others', async () => {
+		const bytes = WriteTestSave(CreateSave());
+		const filtered: Parameters<StreamObjectFilter>[0][] = [];
+
+		const json: SatisfactorySave = JSON.parse(await ReadTestStream(ReadableStreamParser.CreateReadableStreamFromSaveToJson('TestSave', bytes, {
+			filter: object => {
+				filtered.push(object);
+				return IsPersistentGenerator(object);
+			}
+		})));
+
+		expect(filtered.map(object => [object.levelName, object.instanceName])).toEqual([
+			['Level_1', 'Level_1:PersistentLevel.Build_GeneratorCoal_C_2'],
+			['Persistent_Level', 'Persistent_Level:PersistentLevel.Build_ConstructorMk1_C_3'],
+			['Persistent_Level', 'Persistent_Level:PersistentLevel.Build_GeneratorCoal_C_1'],
+			['Persistent_Level', 'Persistent_Level:PersistentLevel.Build_ConstructorMk1_C_4']
+		]);
+		expect(json.levels.map(level => level.objects.length)).toEqual([0, 1]);
+		expect((json.levels[1].objects[0].properties.mCount as Int32Property).value).toBe(7);
+		expect(json.levels[0].collectables).toEqual([{ levelName: 'Level_1', pathName: 'Level_1:PersistentLevel.BP_Crystal_C_1' }]);
+	});
+
+	it('filters objects when parsing from a stream of bytes as well', async () => {
+		const bytes = WriteTestSave(CreateSave());
+
+		const json: SatisfactorySave = JSON.parse(await ReadTestStream(ReadableStreamParser.CreateReadableStreamFromByteStreamToJson('TestSave', ToByteStream(bytes, 100), {
+			filter: IsPersistentGenerator
+		})));
+
+		expect(json.levels.map(level => level.objects.map(obj => obj.instanceName))).toEqual([[], ['Persistent_Level:PersistentLevel.Build_GeneratorCoal_C_1']]);
+	});
+});
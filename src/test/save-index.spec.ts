@@ -0,0 +1,67 @@
+import { ParserError } from '../parser/error/parser.error';
+import { Parser } from '../parser/parser';
+import { SaveEntity } from '../parser/satisfactory/types/objects/SaveEntity';
+import { Int32Property } from '../parser/satisfactory/types/property/generic/Int32Property';
+import { CreateCorruptTestEntity, CreateTestEntity, CreateTestSave, Named, WriteTestSave } from './fixtures';
+
+const CreateCountedEntity = (id: number, levelName?: string): SaveEntity => {
+	const entity = CreateTestEntity('Build_ConstructorMk1', id, levelName);
+	entity.properties.mCount = Named('mCount', new Int32Property(id));
+	return entity;
+};
+
+const CreateSave = () => CreateTestSave([CreateCountedEntity(1), CreateCountedEntity(2), CreateCountedEntity(3)], [{
+	name: 'Level_1',
+	objects: [CreateCountedEntity(4, 'Level_1')],
+	collectables: [{ levelName: 'Level_1', pathName: 'Level_1:PersistentLevel.BP_Crystal_C_1' }]
+}]);
+
+describe('SaveIndex', () => {
+
+	it('indexes the levels with their object counts, without parsing objects', () => {
+		const save = CreateSave();
+
+		const index = Parser.ParseSaveIndex('TestSave', WriteTestSave(save));
+
+		expect(index.header).toEqual(save.header);
+		expect(Object.keys(index.grids)).toEqual(Object.keys(save.grids));
+		expect(index.getLevelNames()).toEqual(['Level_1', 'Persistent_Level']);
+		expect(index.levels.map(level => level.objectCount)).toEqual([1, 3]);
+	});
+
+	it('parses whole levels on demand, like a full parse', () => {
+		const bytes = WriteTestSave(CreateSave());
+		const index = Parser.ParseSaveIndex('TestSave', bytes);
+
+		const level = index.parseLevel('Level_1');
+
+		expect(level).toEqual(Parser.ParseSave('TestSave', bytes).levels[0]);
+		expect(index.parseCollectables('Level_1')).toEqual([{ levelName: 'Level_1', pathName: 'Level_1:PersistentLevel.BP_Crystal_C_1' }]);
+	});
+
+	it('parses single objects and object headers on demand, in any order', () => {
+		const save = CreateSave();
+		const index = Parser.ParseSaveIndex('TestSave', WriteTestSave(save));
+		const [first, second, third] = save.levels[1].objects;
+
+		expect(index.getInstanceNames('Persistent_Level')).toEqual([first.instanceName, second.instanceName, third.instanceName]);
+		expect((index.parseObject('Persistent_Level', third.instanceName)?.properties.mCount as Int32Property).value).toBe(3);
+		expect((index.parseObject('Persistent_Level', first.instanceName)?.properties.mCount as Int32Property).value).toBe(1);
+		expect(index.parseObject('Persistent_Level', 'Persistent_Level:PersistentLevel.Unknown')).toBeUndefined();
+
+		const headers = index.parseObjectHeaders('Persistent_Level');
+		expect(headers.map(obj => obj.instanceName)).toEqual([first.instanceName, second.instanceName, third.instanceName]);
+		expect(headers[1].properties).toEqual({});
+	});
+
+	it('throws for unknown levels and names the object that fails to parse', () => {
+		const corrupt = CreateCorruptTestEntity('Build_ConstructorMk1', 5);
+		const index = Parser.ParseSaveIndex('TestSave', WriteTestSave(CreateTestSave([CreateCountedEntity(1), corrupt])));
+
+		expect(() => index.parseLevel('Level_Unknown')).toThrow(ParserError);
+		expect((index.parseObject('Persistent_Level', CreateCountedEntity(1).instanceName)?.properties.mCount as Int32Property).value).toBe(1);
+		expect(() => index.parseObject('Persistent_Level', corrupt.instanceName)).toThrow(expect.objectContaining({
+			context: expect.arrayContaining([{ kind: 'object', name: corrupt.instanceName }])
+		}));
+	});
+});
@@ -0,0 +1,81 @@
+import { ParserError } from '../parser/error/parser.error';
+import { SaveObjectIndex } from '../parser/satisfactory/save/save-object-index';
+import { CreateTestEntity, CreateTestSave } from './fixtures';
+
+const SUBLEVEL = 'Level_1';
+
+/**
+ * a save with two entities in the persistent level and one in a sublevel.
+ */
+const CreateIndexedSave = () => {
+	const a = CreateTestEntity('Build_ConstructorMk1', 1);
+	const b = CreateTestEntity('Build_ConstructorMk1', 2);
+	const c = CreateTestEntity('Build_SmelterMk1', 3, SUBLEVEL);
+	const save = CreateTestSave([a, b], [{ name: SUBLEVEL, objects: [c], collectables: [] }]);
+	return { save, index: new SaveObjectIndex(save), a, b, c };
+};
+
+describe('SaveObjectIndex', () => {
+
+	it('looks up objects by instance name, type path and level', () => {
+		const { index, a, b, c } = CreateIndexedSave();
+
+		expect(index.get(a.instanceName)).toBe(a);
+		expect(index.getLevelOf(c.instanceName)?.name).toBe(SUBLEVEL);
+		expect(index.getByTypePath(a.typePath)).toEqual([a, b]);
+		expect(index.getObjectsInLevel(SUBLEVEL)).toEqual([c]);
+	});
+
+	it('stays consistent with the levels when objects are added and removed', () => {
+		const { save, index, a, b, c } = CreateIndexedSave();
+		const d = CreateTestEntity('Build_ConstructorMk1', 4, SUBLEVEL);
+
+		index.add(d, SUBLEVEL);
+		expect(save.levels[0].objects).toEqual([c, d]);
+		expect(index.getByTypePath(d.typePath)).toEqual([a, b, d]);
+
+		expect(index.remove(a.instanceName)).toBe(a);
+		expect(index.remove(a.instanceName)).toBeUndefined();
+		expect(index.has(a.instanceName)).toBe(false);
+		expect(save.levels[1].objects).toEqual([b]);
+		expect(index.getByTypePath(a.typePath)).toEqual([b, d]);
+
+		index.add(a);
+		expect(save.levels[1].objects).toEqual([b, a]);
+		expect(index.getLevelOf(a.instanceName)?.name).toBe('Persistent_Level');
+	});
+
+	it('removes many objects at once, keeping the order and arrays of the levels', () => {
+		const { save, index, a, b, c } = CreateIndexedSave();
+		const persistentObjects = save.levels[1].objects;
+
+		expect(index.removeAll([c.instanceName, 'Persistent_Level:PersistentLevel.Missing', a.instanceName])).toEqual([c, a]);
+		expect(save.levels[1].objects).toBe(persistentObjects);
+		expect(persistentObjects).toEqual([b]);
+		expect(save.levels[0].objects).toEqual([]);
+		expect(index.getTypePaths()).toEqual([b.typePath]);
+	});
+
+	it('indexes the next object with a duplicated instance name after removing the first one', () => {
+		const { save, index, a } = CreateIndexedSave();
+		const duplicate = CreateTestEntity('Build_ConstructorMk1', 1, SUBLEVEL);
+		duplicate.instanceName = a.instanceName;
+		save.levels[0].objects.push(duplicate);
+		index.rebuild();
+
+		// the sublevel comes before the persistent level.
+		expect(index.get(a.instanceName)).toBe(duplicate);
+		expect(index.remove(a.instanceName)).toBe(duplicate);
+		expect(index.get(a.instanceName)).toBe(a);
+		expect(index.getLevelOf(a.instanceName)?.name).toBe('Persistent_Level');
+		expect(index.remove(a.instanceName)).toBe(a);
+		expect(index.has(a.instanceName)).toBe(false);
+	});
+
+	it('refuses objects whose instance name is already indexed, or unknown levels', () => {
+		const { index, a } = CreateIndexedSave();
+
+		expect(() => index.add(CreateTestEntity('Build_ConstructorMk1', 1))).toThrow(ParserError);
+		expect(() => index.add(a, 'Level_Missing')).toThrow(ParserError);
+	});
+});
@@ -0,0 +1,95 @@
+import { ParserError } from '../parser/error/parser.error';
+import { SatisfactorySave } from '../parser/satisfactory/save/satisfactory-save';
+import { SaveStreamBinaryWriter } from '../parser/stream/reworked/save-stream-binary-writer.class';
+import { Concat, CreateTestEntity, CreateTestSave, WriteTestSave } from './fixtures';
+
+const SUBLEVEL = 'Level_1';
+
+/**
+ * a save with a sublevel, whose body is spread over several chunks of 1 KiB.
+ */
+const CreateBigSave = (): SatisfactorySave => {
+	const sublevelObjects = Array.from({ length: 20 }, (_, i) => CreateTestEntity('Build_SmelterMk1', i, SUBLEVEL));
+	const save = CreateTestSave(Array.from({ length: 50 }, (_, i) => CreateTestEntity('Build_ConstructorMk1', i)), [{ name: SUBLEVEL, objects: sublevelObjects, collectables: [] }]);
+	save.levels[1].collectables = [{ levelName: 'Persistent_Level', pathName: 'Persistent_Level:PersistentLevel.BP_Collectable_C_1' }];
+	return save;
+};
+
+const StreamSave = (save: SatisfactorySave, writer: SaveStreamBinaryWriter) => {
+	writer.beginSave();
+	writer.writeHeader(save.header);
+	writer.writeCompressionInfo(save.compressionInfo!);
+	writer.writeGridHash(save.gridHash);
+	writer.writeGrids(save.grids);
+	writer.openLevels(save.levels.length);
+	for (const level of save.levels) {
+		writer.openLevel(level.name);
+		writer.writeObjects(...level.objects);
+		writer.switchInLevelToCollectables();
+		writer.writeCollectables(...level.collectables);
+		writer.endLevel();
+	}
+	writer.endLevels();
+	return writer.endSave();
+};
+
+describe('SaveStreamBinaryWriter', () => {
+
+	it('emits the chunks in order, and the first chunk last on its own callback', () => {
+		const save = CreateBigSave();
+		const events: string[] = [];
+		let header = new Uint8Array(0);
+		let firstChunk = new Uint8Array(0);
+		const chunks: Uint8Array[] = [];
+
+		const summary = StreamSave(save, new SaveStreamBinaryWriter(
+			bytes => header = bytes,
+			(chunk, chunkIndex) => {
+				events.push(`chunk ${chunkIndex}`);
+				chunks.push(chunk);
+			},
+			chunk => {
+				events.push('first chunk');
+				firstChunk = chunk;
+			},
+			{ maxUncompressedChunkContentSize: 1024 }
+		));
+
+		expect(chunks.length).toBeGreaterThan(2);
+		expect(events).toEqual([...chunks.map((_, i) => `chunk ${i + 1}`), 'first chunk']);
+		expect(summary.length).toBe(chunks.length + 1);
+		expect(Concat([header, firstChunk, ...chunks])).toEqual(WriteTestSave(save, { maxUncompressedChunkContentSize: 1024 }));
+	});
+
+	it('writes small saves into a single first chunk', () => {
+		const save = CreateTestSave([CreateTestEntity('Build_ConstructorMk1', 1)]);
+		const onChunk = jest.fn();
+		const parts: Uint8Array[] = [];
+
+		StreamSave(save, new SaveStreamBinaryWriter(header => parts.push(header), onChunk, chunk => parts.push(chunk)));
+
+		expect(onChunk).not.toHaveBeenCalled();
+		expect(Concat(parts)).toEqual(WriteTestSave(save));
+	});
+
+	it('throws if more or fewer levels are written than announced', () => {
+		const save = CreateTestSave();
+		const writer = new SaveStreamBinaryWriter(() => { }, () => { }, () => { });
+		writer.beginSave();
+		writer.writeHeader(save.header);
+		writer.writeCompressionInfo(save.compressionInfo!);
+		writer.writeGridHash(save.gridHash);
+		writer.writeGrids(save.grids);
+		writer.openLevels(2);
+		writer.openLevel(SUBLEVEL);
+		writer.switchInLevelToCollectables();
+		writer.endLevel();
+
+		expect(() => writer.endLevels()).toThrow(ParserError);
+
+		writer.openLevel('Persistent_Level');
+		writer.switchInLevelToCollectables();
+		writer.endLevel();
+		expect(() => writer.openLevel('Level_2')).toThrow(ParserError);
+	});
+});
@@ -0,0 +1,39 @@
+import { RawProperty } from '../parser/satisfactory/types/property/generic/RawProperty';
+import { ReadableStreamParser } from '../parser/stream/reworked/readable-stream-parser';
+import { NdjsonSaveRecord } from '../parser/stream/reworked/save-stream-formatter';
+import { CreateTestEntity, CreateTestSave, Named, ReadTestStream, WriteTestSave } from './fixtures';
+
+const CreateSave = () => CreateTestSave([CreateTestEntity('Build_ConstructorMk1', 1), CreateTestEntity('Build_ConstructorMk1', 2)], [
+	{ name: 'Level_1', objects: [], collectables: [{ levelName: 'Level_1', pathName: 'Level_1:PersistentLevel.BP_Crystal_C_1' }] }
+]);
+
+const ParseLines = (text: string): NdjsonSaveRecord[] => {
+	expect(text.endsWith('\n')).toBe(true);
+	return text.slice(0, -1).split('\n').map(line => JSON.parse(line));
+};
+
+describe('SaveStreamFormatter', () => {
+
+	it('streams one self-describing record per line in ndjson format', async () => {
+		const save = CreateSave();
+
+		const records = ParseLines(await ReadTestStream(ReadableStreamParser.CreateReadableStreamFromSaveToJson('TestSave', WriteTestSave(save), { format: 'ndjson' })));
+
+		expect(records.map(record => record.kind)).toEqual(['header', 'level', 'collectable', 'level', 'object', 'object']);
+		expect(records[0]).toMatchObject({ kind: 'header', name: 'TestSave', header: save.header, compressionInfo: save.compressionInfo });
+		expect(records[2]).toEqual({ kind: 'collectable', level: 'Level_1', levelName: 'Level_1', pathName: 'Level_1:PersistentLevel.BP_Crystal_C_1' });
+		expect(records[5]).toMatchObject({ kind: 'object', level: 'Persistent_Level', instanceName: save.levels[1].objects[1].instanceName, typePath: save.levels[1].objects[1].typePath });
+	});
+
+	it('ends with the diagnostics, if there were any', async () => {
+		const save = CreateSave();
+		save.levels[1].objects[0].properties.mModded = Named('mModded', new RawProperty([0], [1, 2, 3, 4], 'ModFancyProperty'));
+		const bytes = WriteTestSave(save);
+
+		const records = ParseLines(await ReadTestStream(ReadableStreamParser.CreateReadableStreamFromSaveToJson('TestSave', bytes, { format: 'ndjson', onDiagnostic: () => { } })));
+		const json = JSON.parse(await ReadTestStream(ReadableStreamParser.CreateReadableStreamFromSaveToJson('TestSave', bytes, { onDiagnostic: () => { } })));
+
+		expect(records[records.length - 1]).toEqual({ kind: 'diagnostics', total: 1, countByCode: { RAW_PROPERTY: 1 } });
+		expect(json.diagnostics).toEqual({ total: 1, countByCode: { RAW_PROPERTY: 1 } });
+	});
+});
@@ -0,0 +1,126 @@
+import { ReadableStream } from 'stream/web';
+import { CompressionAlgorithmCode } from '../parser/file.types';
+import { SaveWriter } from '../parser/satisfactory/save/save-writer';
+import { SaveStreamReader } from '../parser/stream/reworked/save-stream-reader.class';
+import { Concat, CreateTestSaveHeader } from './fixtures';
+
+const compressionInfo = {
+	compressionAlgorithm: CompressionAlgorithmCode.ZLIB,
+	chunkHeaderSize: 49,
+	packageFileTag: 0x9E2A83C1,
+	maxUncompressedChunkContentSize: 32
+};
+
+/**
+ * writes a header and a body of small chunks, and streams the file in pieces of the given size.
+ */
+const CreateReader = (writeBody: (writer: SaveWriter) => void, pieceSize: number): SaveStreamReader => {
+	const headerWriter = new SaveWriter();
+	SaveWriter.WriteHeader(headerWriter, CreateTestSaveHeader());
+	const parts = [new Uint8Array(headerWriter.endWriting())];
+
+	const bodyWriter = new SaveWriter();
+	writeBody(bodyWriter);
+	SaveWriter.GenerateCompressedChunksFromData(bodyWriter.endWriting(), compressionInfo, () => { }, chunk => parts.push(chunk));
+
+	const file = Concat(parts);
+	let position = 0;
+	const stream = new ReadableStream<Uint8Array>({
+		pull: controller => {
+			if (position >= file.length) {
+				controller.close();
+			} else {
+				controller.enqueue(file.slice(position, position + pieceSize));
+				position += pieceSize;
+			}
+		}
+	});
+	return new SaveStreamReader(stream.getReader());
+};
+
+describe('SaveStreamReader', () => {
+
+	it('reads the header from a source that delivers single bytes', async () => {
+		const reader = CreateReader(writer => writer.writeInt32(1), 1);
+		const header = await reader.readHeaderFromStream();
+		expect(header).toEqual(expect.objectContaining({ sessionName: 'Test Session', saveVersion: 46, saveDateTime: '1700000000000' }));
+	});
+
+	it('repeats reads that run past the inflated data with the next chunks', async () => {
+		const text = 'a string that is longer than a single chunk of 32 bytes';
+		const reader = CreateReader(writer => {
+			writer.writeInt32(7);
+			writer.writeString(text);
+			writer.writeString('Ünïcödé, so it is written as UTF-16 and also crosses chunks');
+			writer.writeInt32(42);
+		}, 17);
+		await reader.readHeaderFromStream();
+		await reader.readBodySize();
+
+		expect(await reader.readAsSoonAsAvailable(() => reader.readInt32())).toBe(7);
+		expect(await reader.readAsSoonAsAvailable(() => reader.readString())).toBe(text);
+		expect(await reader.readAsSoonAsAvailable(() => reader.readString())).toBe('Ünïcödé, so it is written as UTF-16 and also crosses chunks');
+		expect(await reader.readAsSoonAsAvailable(() => reader.readInt32())).toBe(42);
+	});
+
+	it('repeats reads that skip past the inflated data', async () => {
+		const reader = CreateReader(writer => {
+			writer.writeBytes(new Uint8Array(100));
+			writer.writeInt32(42);
+		}, 1000);
+		await reader.readHeaderFromStream();
+		await reader.readBodySize();
+
+		// like a size check that fails, after the bytes of an object were skipped.
+		let attempts = 0;
+		const result = await reader.readAsSoonAsAvailable(() => {
+			attempts++;
+			reader.skipBytes(100);
+			if (attempts === 1) {
+				throw new Error('read 0 bytes, but 100 bytes were indicated');
+			}
+			return reader.readInt32();
+		});
+		expect(result).toBe(42);
+		expect(attempts).toBeGreaterThan(1);
+	});
+
+	it('throws other errors right away, without inflating more chunks', async () => {
+		const reader = CreateReader(writer => writer.writeBytes(new Uint8Array(200)), 1000);
+		await reader.readHeaderFromStream();
+		await reader.readBodySize();
+
+		const error = new Error('not a matter of missing data');
+		let attempts = 0;
+		await expect(reader.readAsSoonAsAvailable(() => {
+			attempts++;
+			throw error;
+		})).rejects.toBe(error);
+		expect(attempts).toBe(1);
+	});
+
+	it('throws range errors that are no matter of missing data right away', async () => {
+		const reader = CreateReader(writer => {
+			writer.writeInt32(-1);
+			writer.writeBytes(new Uint8Array(200));
+		}, 1000);
+		await reader.readHeaderFromStream();
+		await reader.readBodySize();
+
+		// like a corrupt count of an array.
+		let attempts = 0;
+		await expect(reader.readAsSoonAsAvailable(() => {
+			attempts++;
+			return new Array(reader.readInt32());
+		})).rejects.toMatchObject({ name: 'RangeError' });
+		expect(attempts).toBe(1);
+	});
+
+	it('rethrows the out of range error once the save body ends', async () => {
+		const reader = CreateReader(writer => writer.writeInt32(1), 1000);
+		await reader.readHeaderFromStream();
+		await reader.readBodySize();
+
+		await expect(reader.readAsSoonAsAvailable(() => reader.readBytes(1000))).rejects.toMatchObject({ name: 'RangeError' });
+	});
+});
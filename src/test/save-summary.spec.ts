@@ -0,0 +1,36 @@
+import { Parser } from '../parser/parser';
+import { CreateCorruptTestEntity, CreateTestEntity, CreateTestSave, CreateTestSaveHeader, WriteTestSave } from './fixtures';
+
+const MOD_METADATA = { Version: 1, FullMods: [{ Reference: 'SmartFoundations', Name: 'Smart!', Version: '3.0.0' }] };
+
+describe('save inspection', () => {
+
+	it('reads the header from the header bytes alone', () => {
+		const header = CreateTestSaveHeader({ rawModMetadataString: JSON.stringify(MOD_METADATA), isModdedSave: 1, creativeModeEnabled: true });
+		let headerBytes = new Uint8Array();
+		Parser.WriteSave(CreateTestSave([], [], header), bytes => headerBytes = bytes, () => { });
+
+		const read = Parser.ReadSaveHeader(headerBytes);
+
+		expect(read).toEqual({ ...header, modMetadata: MOD_METADATA });
+	});
+
+	it('counts the objects per level without parsing them', () => {
+		const save = CreateTestSave([CreateTestEntity('Build_ConstructorMk1', 1), CreateCorruptTestEntity('Build_ConstructorMk1', 2)], [
+			{ name: 'Level_1', objects: [CreateTestEntity('Build_ConstructorMk1', 3, 'Level_1')], collectables: [] },
+			{ name: 'Level_2', objects: [], collectables: [] }
+		]);
+		const summary = Parser.ReadSaveSummary(WriteTestSave(save));
+
+		expect(summary).toEqual({
+			header: save.header,
+			levelCount: 3,
+			objectCount: 3,
+			levels: [
+				{ name: 'Level_1', objectCount: 1 },
+				{ name: 'Level_2', objectCount: 0 },
+				{ name: 'Persistent_Level', objectCount: 2 }
+			]
+		});
+	});
+});
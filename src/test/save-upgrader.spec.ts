@@ -0,0 +1,132 @@
+import { ParserDiagnostic } from '../parser/diagnostics/parser.diagnostic';
+import { Parser } from '../parser/parser';
+import { SaveUpgrader } from '../parser/satisfactory/save/save-upgrader';
+import { SaveEntity } from '../parser/satisfactory/types/objects/SaveEntity';
+import { ArrayProperty } from '../parser/satisfactory/types/property/generic/ArrayProperty';
+import { StructProperty } from '../parser/satisfactory/types/property/generic/StructProperty';
+import { BuildableSubsystemSpecialProperties } from '../parser/satisfactory/types/property/special/BuildableSubsystemSpecialProperties';
+import { ConveyorChainActorSpecialProperties } from '../parser/satisfactory/types/property/special/ConveyorChainActorSpecialProperties';
+import { ConveyorSpecialProperties } from '../parser/satisfactory/types/property/special/ConveyorSpecialProperties';
+import { DynamicStructPropertyValue } from '../parser/satisfactory/types/structs/DynamicStructPropertyValue';
+import { vec3 } from '../parser/satisfactory/types/structs/vec3';
+import { CreateTestEntity, CreateTestSave, CreateTestSaveHeader, Named, WriteTestSave } from './fixtures';
+
+const FOUNDATION = '/Game/FactoryGame/Buildable/Building/Foundation/Build_Foundation_8x1_01.Build_Foundation_8x1_01_C';
+const IRON_PLATE = '/Game/FactoryGame/Resource/Parts/IronPlate/Desc_IronPlate.Desc_IronPlate_C';
+
+const CreateVector = (name: string, value: vec3): StructProperty => {
+	const property = Named(name, new StructProperty('Vector'));
+	property.value = value;
+	return property;
+};
+
+const CreateSplinePoint = (location: vec3, tangent: vec3): StructProperty => {
+	const point = new StructProperty('SplinePointData');
+	point.value = {
+		type: 'SplinePointData',
+		properties: {
+			Location: CreateVector('Location', location),
+			ArriveTangent: CreateVector('ArriveTangent', tangent),
+			LeaveTangent: CreateVector('LeaveTangent', tangent)
+		}
+	};
+	return point;
+};
+
+/**
+ * a U8 belt from its own origin 800 units along x, with an item on it.
+ */
+const CreateU8Belt = (id: number, splinePoints: StructProperty[]): SaveEntity => {
+	const belt = CreateTestEntity('Build_ConveyorBeltMk1', id);
+	belt.objectVersion = 0;
+	belt.properties.mSplineData = Named('mSplineData', new ArrayProperty<StructProperty>('StructProperty', splinePoints, 'ArrayProperty', 0, { allStructType: 'SplinePointData', allIndex: 0, allGuid: 0 }));
+	belt.specialProperties = {
+		type: 'ConveyorSpecialProperties',
+		items: [{ length: 0, name: IRON_PLATE, itemReference: { levelName: '', pathName: '' }, position: 100.4 }]
+	} satisfies ConveyorSpecialProperties;
+	return belt;
+};
+
+const CreateU8Save = (objects: SaveEntity[]) => CreateTestSave(objects, [], CreateTestSaveHeader({ saveHeaderType: 13, saveVersion: 42, buildVersion: 211839 }));
+
+const StraightSpline = () => [CreateSplinePoint({ x: 0, y: 0, z: 0 }, { x: 800, y: 0, z: 0 }), CreateSplinePoint({ x: 800, y: 0, z: 0 }, { x: 800, y: 0, z: 0 })];
+
+describe('SaveUpgrader', () => {
+
+	it('moves the items of belts into conveyor chain actors, with spline points relative to the world', () => {
+		const belt = CreateU8Belt(1, StraightSpline());
+		const save = CreateU8Save([belt]);
+
+		const summary = SaveUpgrader.UpgradeTo1_0(save);
+
+		expect(summary).toEqual({ upgradedFrom: 'U8', migratedLightweightBuildables: 0, createdConveyorChainActors: 1, migratedConveyorItems: 1, skippedConveyorBelts: 0 });
+		expect((belt.specialProperties as ConveyorSpecialProperties).items).toBeUndefined();
+
+		const chainActor = save.levels[0].objects.find(obj => obj.typePath === SaveUpgrader.CONVEYOR_CHAIN_ACTOR_TYPE_PATH) as SaveEntity;
+		const chain = chainActor.specialProperties as ConveyorChainActorSpecialProperties;
+		expect(chain.totalLength).toBe(800);
+		expect(chain.items).toEqual([{ itemReference: { levelName: '', pathName: IRON_PLATE }, position: 100 }]);
+		expect(chain.beltsInChain[0].splinePoints.map(point => point.location)).toEqual([{ x: 100, y: 200, z: 300 }, { x: 900, y: 200, z: 300 }]);
+	});
+
+	it('skips belts with missing or incomplete spline data, and reports them', () => {
+		const incompletePoint = CreateSplinePoint({ x: 0, y: 0, z: 0 }, { x: 800, y: 0, z: 0 });
+		delete (incompletePoint.value as DynamicStructPropertyValue).properties.LeaveTangent;
+		const withoutSpline = CreateU8Belt(1, []);
+		delete withoutSpline.properties.mSplineData;
+		const withIncompleteSpline = CreateU8Belt(2, [incompletePoint]);
+		const valid = CreateU8Belt(3, StraightSpline());
+		const save = CreateU8Save([withoutSpline, withIncompleteSpline, valid]);
+		const diagnostics: ParserDiagnostic[] = [];
+
+		const summary = SaveUpgrader.UpgradeTo1_0(save, { onDiagnostic: diagnostic => diagnostics.push(diagnostic) });
+
+		expect(summary.createdConveyorChainActors).toBe(1);
+		expect(summary.skippedConveyorBelts).toBe(2);
+		expect(summary.diagnostics).toEqual({ total: 2, countByCode: { UPGRADE_SKIPPED: 2 } });
+		expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.instanceName, diagnostic.propertyName])).toEqual([
+			['UPGRADE_SKIPPED', withoutSpline.instanceName, 'mSplineData'],
+			['UPGRADE_SKIPPED', withIncompleteSpline.instanceName, 'mSplineData'],
+		]);
+		expect((withIncompleteSpline.specialProperties as ConveyorSpecialProperties).items).toBeUndefined();
+	});
+
+	it('moves foundations into the lightweight buildable subsystem', () => {
+		const foundation = CreateTestEntity('Build_Foundation_8x1_01', 1);
+		foundation.typePath = FOUNDATION;
+		const withComponent = CreateTestEntity('Build_Foundation_8x1_01', 2);
+		withComponent.typePath = FOUNDATION;
+		withComponent.components.push({ levelName: 'Persistent_Level', pathName: `${withComponent.instanceName}.Component` });
+		const save = CreateU8Save([foundation, withComponent]);
+
+		const summary = SaveUpgrader.UpgradeTo1_0(save);
+
+		expect(summary.migratedLightweightBuildables).toBe(1);
+		const subsystem = save.levels[0].objects.find(obj => obj.typePath === SaveUpgrader.LIGHTWEIGHT_BUILDABLE_SUBSYSTEM_TYPE_PATH)!;
+		const buildables = (subsystem.specialProperties as BuildableSubsystemSpecialProperties).buildables;
+		expect(buildables.map(buildable => [buildable.typePath, buildable.instances.length])).toEqual([[FOUNDATION, 1]]);
+		expect(buildables[0].instances[0].transform).toBe(foundation.transform);
+		expect(save.levels[0].objects).toContain(withComponent);
+		expect(save.levels[0].objects).not.toContain(foundation);
+	});
+
+	it('updates the header, so the save is written and parsed again as a 1.0 save', () => {
+		const save = CreateU8Save([CreateU8Belt(1, StraightSpline())]);
+
+		SaveUpgrader.UpgradeTo1_0(save);
+		const parsed = Parser.ParseSave('TestSave', WriteTestSave(save));
+
+		expect(parsed.header.saveHeaderType).toBe(SaveUpgrader.TARGET_SAVE_HEADER_TYPE);
+		expect(parsed.header.saveVersion).toBe(SaveUpgrader.TARGET_SAVE_VERSION);
+		expect(Object.keys(parsed.grids)).toEqual(['MainGrid', 'LandscapeGrid', 'ExplorationGrid', 'FoliageGrid', 'HLOD0_256m_1023m']);
+		expect(parsed.levels[0].objects.map(obj => obj.typePath)).toContain(SaveUpgrader.CONVEYOR_CHAIN_ACTOR_TYPE_PATH);
+	});
+
+	it('leaves 1.0 saves unchanged', () => {
+		const save = CreateTestSave([CreateTestEntity('Build_ConstructorMk1', 1)]);
+		const before = JSON.stringify(save);
+
+		expect(SaveUpgrader.UpgradeTo1_0(save).upgradedFrom).toBe('U1.0+');
+		expect(JSON.stringify(save)).toBe(before);
+	});
+});
@@ -0,0 +1,71 @@
+import { UnsupportedVersionError } from '../parser/error/parser.error';
+import { Parser } from '../parser/parser';
+import { SaveReader } from '../parser/satisfactory/save/save-reader';
+import { SaveVersionAdapter } from '../parser/satisfactory/save/save-version-adapter';
+import { SatisfactorySaveHeader } from '../parser/satisfactory/save/save.types';
+import { StructProperty } from '../parser/satisfactory/types/property/generic/StructProperty';
+import { Concat, CreateTestEntity, CreateTestSave, CreateTestSaveHeader, Named, WriteTestSave } from './fixtures';
+
+const U8_HEADER = CreateTestSaveHeader({ saveHeaderType: 13, saveVersion: 42, buildVersion: 211839 });
+const U7_HEADER = CreateTestSaveHeader({ saveHeaderType: 10, saveVersion: 36, buildVersion: 196000 });
+
+/**
+ * writes and parses a save with an entity in a sub level, which has a vector and a collectable.
+ */
+const WriteAndParse = (header: SatisfactorySaveHeader, chunkHeaderSize: number) => {
+	const entity = CreateTestEntity('Build_ConstructorMk1', 1, 'Level_1');
+	const vector = Named('mOffset', new StructProperty('Vector'));
+	vector.value = { x: 1.5, y: -2.25, z: 1024 };
+	entity.properties.mOffset = vector;
+	const save = CreateTestSave([CreateTestEntity('Build_ConstructorMk1', 2)], [{
+		name: 'Level_1',
+		objects: [entity],
+		collectables: [{ levelName: 'Level_1', pathName: 'Level_1:PersistentLevel.BP_Crystal_C_1' }]
+	}], header);
+	save.compressionInfo!.chunkHeaderSize = chunkHeaderSize;
+
+	let body = new Uint8Array();
+	const parts: Uint8Array[] = [];
+	Parser.WriteSave(save, header => parts.push(header), chunk => parts.push(chunk), { onBinaryBeforeCompressing: buffer => body = new Uint8Array(buffer) });
+	return { body, save: Parser.ParseSave('TestSave', Concat(parts)) };
+};
+
+const Contains = (bytes: Uint8Array, part: Uint8Array): boolean => Buffer.from(bytes).indexOf(Buffer.from(part)) >= 0;
+
+describe('SaveVersionAdapter', () => {
+
+	it('tells game versions apart by save version and header type', () => {
+		expect(SaveReader.GetRoughSaveVersion(46, 14)).toBe('U1.0+');
+		expect(SaveReader.GetRoughSaveVersion(42, 13)).toBe('U8');
+		expect(SaveReader.GetRoughSaveVersion(36, 10)).toBe('U6/U7');
+		expect(SaveReader.GetRoughSaveVersion(25, 8)).toBe('<U6');
+		expect(SaveVersionAdapter.Get('U8')).toBe(SaveVersionAdapter.U8);
+		expect(() => SaveVersionAdapter.Get('<U6')).toThrow(UnsupportedVersionError);
+	});
+
+	it('writes and parses U8 saves, which have no grids', () => {
+		const { body, save } = WriteAndParse(U8_HEADER, 49);
+
+		expect(save.header.saveVersion).toBe(42);
+		expect(save.grids).toEqual({});
+		expect(save.levels.map(level => [level.name, level.objects.length, level.collectables.length])).toEqual([['Level_1', 1, 1], ['Persistent_Level', 1, 0]]);
+		expect((save.levels[0].objects[0].properties.mOffset as StructProperty).value).toEqual({ x: 1.5, y: -2.25, z: 1024 });
+		expect(Contains(body, new Uint8Array(new Float64Array([1.5, -2.25, 1024]).buffer))).toBe(true);
+	});
+
+	it('writes and parses U6/U7 saves, which have single precision structs and v1 chunk headers', () => {
+		const { body, save } = WriteAndParse(U7_HEADER, 48);
+
+		expect(save.compressionInfo?.chunkHeaderSize).toBe(48);
+		expect(save.levels.map(level => [level.name, level.objects.length, level.collectables.length])).toEqual([['Level_1', 1, 1], ['Persistent_Level', 1, 0]]);
+		expect(save.levels[0].objects[0].objectVersion).toBe(0);
+		expect((save.levels[0].objects[0].properties.mOffset as StructProperty).value).toEqual({ x: 1.5, y: -2.25, z: 1024 });
+		expect(Contains(body, new Uint8Array(new Float32Array([1.5, -2.25, 1024]).buffer))).toBe(true);
+	});
+
+	it('refuses to write saves before U6', () => {
+		const save = CreateTestSave([], [], CreateTestSaveHeader({ saveHeaderType: 8, saveVersion: 25 }));
+
+		expect(() => WriteTestSave(save)).toThrow(UnsupportedVersionError);
+	});
+});
@@ -0,0 +1,72 @@
+import { CompressionLevel } from '../parser/file.types';
+import { NodeDeflate } from '../parser/node-deflate';
+import { Parser } from '../parser/parser';
+import { ParserWorkerTasks } from '../parser/worker/parser-worker-tasks';
+import { ParserWorker } from '../parser/worker/parser-worker.types';
+import { Concat, CreateTestEntity, CreateTestSave, WriteTestSave } from './fixtures';
+
+/**
+ * a save whose body is spread over several chunks of 1 KiB.
+ */
+const CreateBigSave = () => CreateTestSave(Array.from({ length: 100 }, (_, i) => CreateTestEntity('Build_ConstructorMk1', i)));
+
+/**
+ * a worker that handles its tasks on the main thread, like a web worker would.
+ */
+const CreateInlineWorker = (deflate?: Parameters<typeof ParserWorkerTasks.Handle>[1]): ParserWorker => ({
+	run: async task => ParserWorkerTasks.Handle(task, deflate).result,
+	terminate: () => { }
+});
+
+const ParsedNames = (file: Uint8Array): string[] => Parser.ParseSave('TestSave', file).levels.flatMap(level => level.objects.map(object => object.instanceName));
+
+describe('SaveWriter', () => {
+
+	it('compresses with pako by default, and with a given deflate otherwise', () => {
+		const save = CreateBigSave();
+		const contents: number[] = [];
+		const deflate = jest.fn((content: Uint8Array, level: CompressionLevel | undefined) => {
+			contents.push(content.length);
+			return NodeDeflate(content, level);
+		});
+
+		const withPako = WriteTestSave(save, { maxUncompressedChunkContentSize: 1024 });
+		const withNode = WriteTestSave(save, { maxUncompressedChunkContentSize: 1024, compressionLevel: 9, deflate });
+
+		expect(deflate).toHaveBeenCalledWith(expect.any(Uint8Array), 9);
+		expect(contents.length).toBeGreaterThan(1);
+		expect(contents.slice(0, -1).every(length => length === 1024)).toBe(true);
+		expect(ParsedNames(withNode)).toEqual(ParsedNames(withPako));
+		expect(ParsedNames(withNode).length).toBe(100);
+	});
+
+	it('compresses in parallel with custom workers, and still emits the chunks in order', async () => {
+		const save = CreateBigSave();
+		const expected = WriteTestSave(save, { maxUncompressedChunkContentSize: 1024 });
+
+		const parts: Uint8Array[] = [];
+		const summary = await Parser.WriteSaveAsync(save, header => parts.push(header), chunk => parts.push(chunk), {
+			maxUncompressedChunkContentSize: 1024,
+			workerCount: 3,
+			createWorker: () => CreateInlineWorker()
+		});
+
+		expect(summary.length).toBeGreaterThan(1);
+		expect(Concat(parts)).toEqual(expected);
+	});
+
+	it('lets custom workers pass their own deflate', async () => {
+		const save = CreateBigSave();
+		const deflate = jest.fn(NodeDeflate);
+
+		const parts: Uint8Array[] = [];
+		await Parser.WriteSaveAsync(save, header => parts.push(header), chunk => parts.push(chunk), {
+			maxUncompressedChunkContentSize: 1024,
+			workerCount: 2,
+			createWorker: () => CreateInlineWorker(deflate)
+		});
+
+		expect(deflate).toHaveBeenCalled();
+		expect(ParsedNames(Concat(parts)).length).toBe(100);
+	});
+});
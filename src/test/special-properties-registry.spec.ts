@@ -0,0 +1,88 @@
+import { Parser } from '../parser/parser';
+import { SaveEntity } from '../parser/satisfactory/types/objects/SaveEntity';
+import { SpecialAnyProperties } from '../parser/satisfactory/types/property/special/SpecialAnyProperties';
+import { SpecialPropertiesHandler, SpecialPropertiesRegistry } from '../parser/satisfactory/types/property/special/SpecialPropertiesRegistry';
+import { CreateTestEntity, CreateTestSave, WriteTestSave } from './fixtures';
+
+const MOD_PREFIX = '/MyMod/Buildable/';
+const MOD_TYPE_PATH = `${MOD_PREFIX}Build_Teleporter.Build_Teleporter_C`;
+
+type TeleporterSpecialProperties = { type: 'TeleporterSpecialProperties', channel: number, name: string };
+
+const TELEPORTER_HANDLER: SpecialPropertiesHandler<TeleporterSpecialProperties> = {
+	parse: reader => ({ type: 'TeleporterSpecialProperties', channel: reader.readInt32(), name: reader.readString() }),
+	serialize: (writer, property) => {
+		writer.writeInt32(property.channel);
+		writer.writeString(property.name);
+	}
+};
+
+const Handler = (): SpecialPropertiesHandler => ({ parse: () => ({}), serialize: () => { } });
+
+const CreateTeleporter = (id: number): SaveEntity => {
+	const entity = CreateTestEntity('Build_Teleporter', id);
+	entity.typePath = MOD_TYPE_PATH;
+	return entity;
+};
+
+describe('SpecialPropertiesRegistry', () => {
+
+	afterEach(() => {
+		SpecialPropertiesRegistry.Unregister(MOD_TYPE_PATH);
+		SpecialPropertiesRegistry.Unregister({ prefix: MOD_PREFIX });
+		SpecialPropertiesRegistry.Unregister(/Teleporter/);
+	});
+
+	it('prefers exact type paths, then the latest registered pattern', () => {
+		const byPrefix = Handler();
+		const byRegExp = Handler();
+		const exact = Handler();
+
+		SpecialPropertiesRegistry.Register({ prefix: MOD_PREFIX }, byPrefix);
+		expect(SpecialPropertiesRegistry.Get(MOD_TYPE_PATH)).toBe(byPrefix);
+
+		SpecialPropertiesRegistry.Register(/Teleporter/, byRegExp);
+		expect(SpecialPropertiesRegistry.Get(MOD_TYPE_PATH)).toBe(byRegExp);
+
+		SpecialPropertiesRegistry.Register(MOD_TYPE_PATH, exact);
+		expect(SpecialPropertiesRegistry.Get(MOD_TYPE_PATH)).toBe(exact);
+
+		expect(SpecialPropertiesRegistry.Unregister(MOD_TYPE_PATH)).toBe(true);
+		expect(SpecialPropertiesRegistry.Unregister(/Teleporter/)).toBe(true);
+		expect(SpecialPropertiesRegistry.Get(MOD_TYPE_PATH)).toBe(byPrefix);
+		expect(SpecialPropertiesRegistry.Get('/MyOtherMod/Build_Teleporter.Build_Teleporter_C')).toBeUndefined();
+	});
+
+	it('replaces a pattern that is registered again', () => {
+		const first = Handler();
+		const second = Handler();
+
+		SpecialPropertiesRegistry.Register({ prefix: MOD_PREFIX }, first);
+		SpecialPropertiesRegistry.Register({ prefix: MOD_PREFIX }, second);
+
+		expect(SpecialPropertiesRegistry.Get(MOD_TYPE_PATH)).toBe(second);
+		expect(SpecialPropertiesRegistry.Unregister({ prefix: MOD_PREFIX })).toBe(true);
+		expect(SpecialPropertiesRegistry.Get(MOD_TYPE_PATH)).toBeUndefined();
+	});
+
+	it('parses and serializes the special properties of registered type paths', () => {
+		SpecialPropertiesRegistry.Register({ prefix: MOD_PREFIX }, TELEPORTER_HANDLER);
+		const teleporter = CreateTeleporter(1);
+		teleporter.specialProperties = { type: 'TeleporterSpecialProperties', channel: 7, name: 'Home' } as TeleporterSpecialProperties as unknown as SpecialAnyProperties;
+
+		const parsed = Parser.ParseSave('TestSave', WriteTestSave(CreateTestSave([teleporter]))).levels[0].objects[0];
+
+		expect(parsed.specialProperties).toEqual({ type: 'TeleporterSpecialProperties', channel: 7, name: 'Home' });
+		expect(parsed.trailingData).toEqual([]);
+	});
+
+	it('keeps the special properties of unknown type paths as trailing data', () => {
+		const teleporter = CreateTeleporter(1);
+		teleporter.trailingData = [7, 0, 0, 0];
+
+		const parsed = Parser.ParseSave('TestSave', WriteTestSave(CreateTestSave([teleporter]))).levels[0].objects[0];
+
+		expect(parsed.specialProperties).toEqual({ type: 'EmptySpecialProperties' });
+		expect(parsed.trailingData).toEqual([7, 0, 0, 0]);
+	});
+});
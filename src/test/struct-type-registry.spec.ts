@@ -0,0 +1,71 @@
+import { ParserError } from '../parser/error/parser.error';
+import { PropertiesList } from '../parser/satisfactory/types/property/PropertiesList';
+import { StructTypeRegistry } from '../parser/satisfactory/types/property/StructTypeRegistry';
+import { AbstractBaseProperty } from '../parser/satisfactory/types/property/generic/BasicProperty';
+import { Int32Property } from '../parser/satisfactory/types/property/generic/Int32Property';
+import { StructProperty } from '../parser/satisfactory/types/property/generic/StructProperty';
+import { DynamicStructPropertyValue } from '../parser/satisfactory/types/structs/DynamicStructPropertyValue';
+import { FixtureSaveReader, FixtureSaveWriter, Named } from './fixtures';
+
+const BUILD_VERSION = 365306;
+
+type Waypoint = { id: number, label: string };
+
+/**
+ * a binary struct of a mod, which is no tagged property list.
+ */
+const RegisterWaypoint = (size: (value: Waypoint) => number = value => 4 + 4 + value.label.length + 1) => StructTypeRegistry.Register<Waypoint>('ModWaypoint', {
+	read: reader => ({ id: reader.readInt32(), label: reader.readString() }),
+	write: (writer, value) => {
+		writer.writeInt32(value.id);
+		writer.writeString(value.label);
+	},
+	size
+});
+
+const CreateStruct = (name: string, subtype: string, value: unknown): StructProperty => {
+	const struct = Named(name, new StructProperty(subtype));
+	struct.value = value as StructProperty['value'];
+	return struct;
+};
+
+const WriteAndParse = (properties: AbstractBaseProperty[]) => {
+	const writer = new FixtureSaveWriter();
+	PropertiesList.SerializeList(Object.fromEntries(properties.map(property => [property.name, property])), writer, BUILD_VERSION);
+	return PropertiesList.ParseList(new FixtureSaveReader(writer.endWriting()), BUILD_VERSION);
+};
+
+describe('StructTypeRegistry', () => {
+
+	afterEach(() => {
+		StructTypeRegistry.Unregister('ModWaypoint');
+	});
+
+	it('lists the built-in struct types, including the ones of mods the parser knows', () => {
+		expect(StructTypeRegistry.GetRegisteredTypes()).toEqual(expect.arrayContaining(['Color', 'LinearColor', 'Vector', 'InventoryItem', 'FICFrameRange']));
+	});
+
+	it('parses and serializes registered binary structs', () => {
+		RegisterWaypoint();
+
+		const parsed = WriteAndParse([CreateStruct('mWaypoint', 'ModWaypoint', { id: 12, label: 'Base' }), Named('mAfter', new Int32Property(1))]);
+
+		expect((parsed.mWaypoint as StructProperty).value).toEqual({ id: 12, label: 'Base' });
+		expect((parsed.mAfter as Int32Property).value).toBe(1);
+	});
+
+	it('parses structs without a handler as tagged property lists', () => {
+		const value: DynamicStructPropertyValue = { type: 'ModSettings', properties: { mLevel: Named('mLevel', new Int32Property(3)) } };
+
+		const parsed = WriteAndParse([CreateStruct('mSettings', 'ModSettings', value)]);
+
+		const parsedValue = (parsed.mSettings as StructProperty).value as DynamicStructPropertyValue;
+		expect((parsedValue.properties.mLevel as Int32Property).value).toBe(3);
+	});
+
+	it('throws if a handler writes another size than it indicates', () => {
+		RegisterWaypoint(() => 4);
+
+		expect(() => WriteAndParse([CreateStruct('mWaypoint', 'ModWaypoint', { id: 12, label: 'Base' })])).toThrow(ParserError);
+	});
+});
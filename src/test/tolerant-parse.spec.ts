@@ -0,0 +1,58 @@
+import { ParserError } from '../parser/error/parser.error';
+import { Parser } from '../parser/parser';
+import { Int32Property } from '../parser/satisfactory/types/property/generic/Int32Property';
+import { CreateCorruptTestEntity, CreateTestEntity, CreateTestSave, Named, WriteTestSave } from './fixtures';
+
+const CreateSaveWithCorruptObject = () => {
+	const before = CreateTestEntity('Build_ConstructorMk1', 1);
+	before.properties.mCount = Named('mCount', new Int32Property(1));
+	const corrupt = CreateCorruptTestEntity('Build_ConstructorMk1', 2);
+	const after = CreateTestEntity('Build_ConstructorMk1', 3);
+	after.properties.mCount = Named('mCount', new Int32Property(3));
+	return { corrupt, bytes: WriteTestSave(CreateTestSave([before, corrupt, after])) };
+};
+
+describe('tolerant parsing', () => {
+
+	it('aborts on objects that fail to parse by default', () => {
+		const { bytes } = CreateSaveWithCorruptObject();
+
+		expect(() => Parser.ParseSave('TestSave', bytes, { onDiagnostic: () => { } })).toThrow(ParserError);
+	});
+
+	it('skips objects that fail to parse, keeps their raw bytes and lists them', () => {
+		const { corrupt, bytes } = CreateSaveWithCorruptObject();
+
+		const save = Parser.ParseSave('TestSave', bytes, { tolerant: true, onDiagnostic: () => { } });
+
+		const objects = save.levels[0].objects;
+		expect(objects.map(obj => obj.properties.mCount === undefined ? undefined : (obj.properties.mCount as Int32Property).value)).toEqual([1, undefined, 3]);
+		expect(objects[1].unparsedData).toEqual(corrupt.unparsedData);
+		expect(save.skippedObjects).toEqual([{
+			levelName: 'Persistent_Level',
+			instanceName: corrupt.instanceName,
+			typePath: corrupt.typePath,
+			offset: expect.any(Number),
+			binarySize: corrupt.unparsedData!.length,
+			error: expect.stringContaining('Read 4 bytes for IntProperty mCount, but 8 bytes were indicated')
+		}]);
+		expect(save.diagnostics?.countByCode.OBJECT_SKIPPED).toBe(1);
+	});
+
+	it('writes skipped objects back unchanged', () => {
+		const { bytes } = CreateSaveWithCorruptObject();
+		const save = Parser.ParseSave('TestSave', bytes, { tolerant: true, onDiagnostic: () => { } });
+
+		const reparsed = Parser.ParseSave('TestSave', WriteTestSave(save), { tolerant: true, onDiagnostic: () => { } });
+
+		expect(reparsed.levels[0].objects[1].unparsedData).toEqual(save.levels[0].objects[1].unparsedData);
+		expect(reparsed.skippedObjects).toEqual(save.skippedObjects);
+	});
+
+	it('leaves no skipped objects on saves that parse', () => {
+		const save = Parser.ParseSave('TestSave', WriteTestSave(CreateTestSave([CreateTestEntity('Build_ConstructorMk1', 1)])), { tolerant: true });
+
+		expect(save.skippedObjects).toBeUndefined();
+		expect(save.levels[0].objects[0].unparsedData).toBeUndefined();
+	});
+});
@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ParserError } from '../parser/error/parser.error';
+import { NodeParserWorker } from '../parser/worker/node-parser-worker';
+import { ParserWorker, ParserWorkerResult, ParserWorkerTask } from '../parser/worker/parser-worker.types';
+import { WorkerPool } from '../parser/worker/worker-pool.class';
+
+const task: ParserWorkerTask = {
+	kind: 'compress-chunk',
+	buffer: new ArrayBuffer(0),
+	compressionInfo: { packageFileTag: 0, maxUncompressedChunkContentSize: 0, chunkHeaderSize: 0 },
+	alignment: 0,
+	deflateOptions: {}
+};
+
+const result: ParserWorkerResult = { kind: 'compress-chunk', chunk: new Uint8Array(0) };
+
+type FakeWorker = ParserWorker & { id: number, tasks: number, terminated: boolean };
+
+const CreateFakeWorkers = (run: (worker: FakeWorker) => Promise<ParserWorkerResult>) => {
+	const created: FakeWorker[] = [];
+	const createWorker = () => {
+		const worker: FakeWorker = {
+			id: created.length,
+			tasks: 0,
+			terminated: false,
+			run: () => {
+				worker.tasks++;
+				return run(worker);
+			},
+			terminate: () => { worker.terminated = true; }
+		};
+		created.push(worker);
+		return worker;
+	};
+	return { created, createWorker };
+};
+
+describe('WorkerPool', () => {
+
+	it('rejects a pool without workers', () => {
+		expect(() => new WorkerPool(() => { throw new Error('not expected'); }, 0)).toThrow(ParserError);
+	});
+
+	it('creates workers only up to its size and reuses idle workers', async () => {
+		const { created, createWorker } = CreateFakeWorkers(async () => result);
+		const pool = new WorkerPool(createWorker, 2);
+
+		const results = await Promise.all(new Array(5).fill(0).map(() => pool.run(task)));
+		expect(results).toEqual(new Array(5).fill(result));
+		expect(created.length).toBe(2);
+		expect(created.reduce((sum, worker) => sum + worker.tasks, 0)).toBe(5);
+
+		await pool.run(task);
+		expect(created.length).toBe(2);
+		await pool.terminate();
+		expect(created.every(worker => worker.terminated)).toBe(true);
+	});
+
+	it('answers a failed worker with an error result and replaces the worker', async () => {
+		const { created, createWorker } = CreateFakeWorkers(async worker => {
+			if (worker.id === 0) {
+				throw new Error('worker crashed');
+			}
+			return result;
+		});
+		const pool = new WorkerPool(createWorker, 1);
+
+		const failed = await pool.run(task);
+		expect(failed).toEqual({ kind: 'error', name: 'ParserError', message: 'worker crashed' });
+
+		// the next tasks do not hang on the crashed worker, but run on a new one.
+		expect(await pool.run(task)).toBe(result);
+		expect(await pool.run(task)).toBe(result);
+		expect(created.length).toBe(2);
+		expect(created[0].terminated).toBe(true);
+		expect(created[0].tasks).toBe(1);
+		expect(created[1].tasks).toBe(2);
+		await pool.terminate();
+	});
+
+	it('keeps running queued tasks after a worker failed', async () => {
+		let calls = 0;
+		const { created, createWorker } = CreateFakeWorkers(async () => {
+			if (calls++ === 1) {
+				throw new Error('worker crashed');
+			}
+			return result;
+		});
+		const pool = new WorkerPool(createWorker, 2);
+
+		const results = await Promise.all(new Array(6).fill(0).map(() => pool.run(task)));
+		expect(results.filter(result => result.kind === 'error').length).toBe(1);
+		expect(results.filter(result => result.kind === 'compress-chunk').length).toBe(5);
+		expect(created.length).toBe(3);
+		expect(created.filter(worker => worker.terminated).length).toBe(1);
+		await pool.terminate();
+	});
+});
+
+describe('NodeParserWorker', () => {
+
+	let directory: string;
+
+	beforeAll(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'parser-worker-'));
+	});
+
+	afterAll(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it('throws if the entry file of the worker thread does not exist', () => {
+		expect(() => NodeParserWorker.Create(path.join(directory, 'missing.js'))).toThrow(ParserError);
+	});
+
+	it('rejects a task if the worker thread exits before it answers', async () => {
+		const entryFile = path.join(directory, 'exiting-worker.js');
+		fs.writeFileSync(entryFile, `require('worker_threads').parentPort.on('message', () => process.exit(3));`);
+
+		const worker = NodeParserWorker.Create(entryFile);
+		await expect(worker.run(task, [])).rejects.toThrow('exited with code 3');
+		await expect(worker.run(task, [])).rejects.toThrow(ParserError);
+		await worker.terminate();
+	});
+
+	it('is replaced in a pool after its thread exited', async () => {
+		const exitingFile = path.join(directory, 'exiting-worker.js');
+		const answeringFile = path.join(directory, 'answering-worker.js');
+		fs.writeFileSync(exitingFile, `require('worker_threads').parentPort.on('message', () => process.exit(3));`);
+		fs.writeFileSync(answeringFile, `const { parentPort } = require('worker_threads'); parentPort.on('message', () => parentPort.postMessage({ kind: 'compress-chunk', chunk: new Uint8Array(0) }));`);
+
+		let createdWorkers = 0;
+		const pool = new WorkerPool(() => NodeParserWorker.Create(createdWorkers++ === 0 ? exitingFile : answeringFile), 1);
+		expect((await pool.run(task)).kind).toBe('error');
+		expect((await pool.run(task)).kind).toBe('compress-chunk');
+		expect(createdWorkers).toBe(2);
+		await pool.terminate();
+	});
+});